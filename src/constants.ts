@@ -9,7 +9,19 @@ export const COMMANDS = {
     CLEAR_HISTORY: 'extperf.clearHistory',
     TOGGLE_MONITORING: 'extperf.toggleMonitoring',
     DISABLE_EXTENSION: 'extperf.disableExtension',
-    ENABLE_EXTENSION: 'extperf.enableExtension'
+    ENABLE_EXTENSION: 'extperf.enableExtension',
+    CAPTURE_CPU_PROFILE: 'extperf.captureCpuProfile',
+    CAPTURE_HEAP_SNAPSHOT: 'extperf.captureHeapSnapshot',
+    DELETE_SAVED_CAPTURES: 'extperf.deleteSavedCaptures',
+    ACKNOWLEDGE_ALERT: 'extperf.acknowledgeAlert',
+    SNOOZE_ALERT: 'extperf.snoozeAlert',
+    CLEAR_ALERT_LOG: 'extperf.clearAlertLog',
+    SET_EXTENSION_OVERRIDE: 'extperf.setExtensionOverride',
+    CLEAR_EXTENSION_OVERRIDE: 'extperf.clearExtensionOverride',
+    COMPARE_WINDOWS: 'extperf.compareWindows',
+    IMPORT_REPORT: 'extperf.importReport',
+    SHOW_STARTUP_HISTORY: 'extperf.showStartupHistory',
+    CLEAR_STARTUP_HISTORY: 'extperf.clearStartupHistory'
 } as const;
 
 /**
@@ -21,7 +33,28 @@ export const CONFIG_KEYS = {
     SHOW_STATUS_BAR_ITEM: 'extperf.showStatusBarItem',
     CPU_ALERT_THRESHOLD: 'extperf.alertThresholds.cpu',
     MEMORY_ALERT_THRESHOLD: 'extperf.alertThresholds.memory',
-    HISTORY_RETENTION_DAYS: 'extperf.historyRetentionDays'
+    EVENT_LOOP_LAG_ALERT_THRESHOLD: 'extperf.alertThresholds.eventLoopLag',
+    ALERT_SUSTAINED_SAMPLES: 'extperf.alerts.sustainedSamples',
+    ALERT_COOLDOWN_MINUTES: 'extperf.alerts.cooldownMinutes',
+    ALERT_MEMORY_GROWTH_MB: 'extperf.alerts.memoryGrowthMb',
+    ALERT_MEMORY_GROWTH_MINUTES: 'extperf.alerts.memoryGrowthMinutes',
+    BUILTIN_EXTENSIONS: 'extperf.builtinExtensions',
+    EXTENSION_OVERRIDES: 'extperf.extensionOverrides',
+    LEAK_RATE: 'extperf.leakDetection.rateMbPerHour',
+    LEAK_WINDOW_MINUTES: 'extperf.leakDetection.windowMinutes',
+    LEAK_MIN_R_SQUARED: 'extperf.leakDetection.minRSquared',
+    HISTORY_RETENTION_DAYS: 'extperf.historyRetentionDays',
+    CPU_PROFILE_DURATION: 'extperf.cpuProfileDuration',
+    USE_HEAP_SNAPSHOT_MEMORY: 'extperf.useHeapSnapshotMemory',
+    MEMORY_METRIC: 'extperf.memoryMetric',
+    METRICS_SERVER_ENABLED: 'extperf.metricsServer.enabled',
+    METRICS_SERVER_PORT: 'extperf.metricsServer.port',
+    SCHEDULED_REPORTS_INTERVAL: 'extperf.scheduledReports.interval',
+    SCHEDULED_REPORTS_ON_SHUTDOWN: 'extperf.scheduledReports.onShutdown',
+    SCHEDULED_REPORTS_FORMAT: 'extperf.scheduledReports.format',
+    SCHEDULED_REPORTS_FOLDER: 'extperf.scheduledReports.folder',
+    SCHEDULED_REPORTS_MAX_FILES: 'extperf.scheduledReports.maxFiles',
+    SCHEDULED_REPORTS_MAX_AGE_DAYS: 'extperf.scheduledReports.maxAgeDays'
 } as const;
 
 /**
@@ -31,5 +64,30 @@ export const DEFAULTS = {
     MONITORING_INTERVAL: 5000,
     CPU_ALERT_THRESHOLD: 80,
     MEMORY_ALERT_THRESHOLD: 100,
-    HISTORY_RETENTION_DAYS: 7
+    EVENT_LOOP_LAG_ALERT_THRESHOLD: 200,
+    LONG_TASK_THRESHOLD: 100,
+    ALERT_SUSTAINED_SAMPLES: 3,
+    ALERT_COOLDOWN_MINUTES: 15,
+    ALERT_MEMORY_GROWTH_MB: 50,
+    ALERT_MEMORY_GROWTH_MINUTES: 10,
+    LEAK_RATE: 20,
+    LEAK_WINDOW_MINUTES: 30,
+    LEAK_MIN_R_SQUARED: 0.8,
+    HISTORY_RETENTION_DAYS: 7,
+    BUILTIN_EXTENSIONS: 'exclude',
+    CPU_PROFILE_DURATION: 10000,
+    MEMORY_METRIC: 'pss',
+    METRICS_SERVER_PORT: 9477,
+    SCHEDULED_REPORTS_MAX_FILES: 48,
+    SCHEDULED_REPORTS_MAX_AGE_DAYS: 7
 } as const;
+
+/**
+ * Identifier used for the extension-host process in history and reports
+ */
+export const EXTENSION_HOST_ID = 'extperf.extensionHost';
+
+/**
+ * Identifier of the bucket holding child processes that could not be matched to an extension
+ */
+export const UNATTRIBUTED_PROCESSES_ID = 'extperf.unattributed';
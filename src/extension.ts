@@ -1,17 +1,30 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { PerformanceMonitor } from './services/performanceMonitor';
 import { PerformanceDataProvider } from './providers/performanceDataProvider';
+import { AlertLogProvider } from './providers/alertLogProvider';
+import { StartupHistoryProvider } from './providers/startupHistoryProvider';
 import { StatusBarManager } from './services/statusBarManager';
 import { ReportExporter } from './services/reportExporter';
+import { ReportScheduler } from './services/reportScheduler';
 import { ConfigManager } from './services/configManager';
 import { disableExtension, enableExtension } from './services/extensionEnablement';
 import { COMMANDS } from './constants';
+import { ExtensionOverride } from './types';
 import { ExtensionResourcesPanel } from './webviews/extensionResourcesPanel';
+import { ComparisonPanel } from './webviews/comparisonPanel';
+import { compareSources, ComparisonSource, parseTimeWindow, statsFromHistory, statsFromReport } from './services/windowComparison';
+import { ImportedReport, readReport } from './services/reportImporter';
 
 let performanceMonitor: PerformanceMonitor;
 let dataProvider: PerformanceDataProvider;
+let alertLogProvider: AlertLogProvider;
+let startupHistoryProvider: StartupHistoryProvider;
 let statusBarManager: StatusBarManager;
 let reportExporter: ReportExporter;
+let reportScheduler: ReportScheduler | undefined;
+let configManager: ConfigManager;
 
 /**
  * Activates the Extension Performance Monitor extension
@@ -22,11 +35,20 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
     try {
         // Initialize services
-        const configManager = new ConfigManager();
+        configManager = new ConfigManager();
         performanceMonitor = new PerformanceMonitor(context, configManager);
         dataProvider = new PerformanceDataProvider(performanceMonitor);
+        alertLogProvider = new AlertLogProvider(performanceMonitor);
+        startupHistoryProvider = new StartupHistoryProvider(performanceMonitor);
         statusBarManager = new StatusBarManager(performanceMonitor);
         reportExporter = new ReportExporter(performanceMonitor);
+        reportScheduler = new ReportScheduler(
+            reportExporter,
+            performanceMonitor,
+            configManager,
+            path.join(context.globalStorageUri.fsPath, 'reports')
+        );
+        context.subscriptions.push(reportScheduler);
 
         // Register tree data provider
         const treeView = vscode.window.createTreeView('extensionPerformance', {
@@ -34,6 +56,17 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             showCollapseAll: true
         });
         context.subscriptions.push(treeView);
+        context.subscriptions.push(vscode.window.createTreeView('extperf.alertLog', {
+            treeDataProvider: alertLogProvider
+        }));
+        context.subscriptions.push(vscode.window.createTreeView('extperf.startupHistory', {
+            treeDataProvider: startupHistoryProvider
+        }));
+        context.subscriptions.push(configManager.onConfigurationChanged(e => {
+            if (e.affectsConfiguration('extperf.builtinExtensions')) {
+                startupHistoryProvider.refresh();
+            }
+        }));
 
         // Register commands
         registerCommands(context);
@@ -44,6 +77,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         // Initialize status bar
         statusBarManager.initialize();
 
+        reportScheduler.start();
+
         // Start monitoring if auto-monitoring is enabled
         if (configManager.getConfig<boolean>('enableAutoMonitoring', true)) {
             await performanceMonitor.startMonitoring();
@@ -94,6 +129,38 @@ function registerCommands(context: vscode.ExtensionContext): void {
                 }
             }
         },
+        {
+            command: COMMANDS.COMPARE_WINDOWS,
+            handler: async () => {
+                try {
+                    const sources = await pickComparisonSources();
+                    if (!sources) {
+                        return;
+                    }
+                    const comparison = compareSources(sources.baseline, sources.candidate);
+                    if (comparison.rows.length === 0) {
+                        vscode.window.showInformationMessage('No performance data was found for the selected windows.');
+                        return;
+                    }
+                    ComparisonPanel.show(comparison);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to compare performance: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        },
+        {
+            command: COMMANDS.IMPORT_REPORT,
+            handler: async () => {
+                try {
+                    const imported = await openReportFile('Import performance report');
+                    if (imported) {
+                        ExtensionResourcesPanel.showImported(imported);
+                    }
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to import report: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        },
         {
             command: COMMANDS.CLEAR_HISTORY,
             handler: async () => {
@@ -103,7 +170,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
                     'Yes, Clear History'
                 );
                 if (result === 'Yes, Clear History') {
-                    performanceMonitor.clearHistory();
+                    await performanceMonitor.clearHistory();
                     dataProvider.refresh();
                     vscode.window.showInformationMessage('Performance history cleared');
                 }
@@ -122,6 +189,90 @@ function registerCommands(context: vscode.ExtensionContext): void {
                 statusBarManager.updateStatusBar();
             }
         },
+        {
+            command: COMMANDS.CAPTURE_CPU_PROFILE,
+            handler: async () => {
+                if (performanceMonitor.isCpuProfileRunning()) {
+                    vscode.window.showWarningMessage('A CPU profile is already being captured.');
+                    return;
+                }
+
+                try {
+                    const summary = await vscode.window.withProgress({
+                        location: vscode.ProgressLocation.Notification,
+                        title: 'Capturing extension host CPU profile...',
+                        cancellable: false
+                    }, () => performanceMonitor.captureCpuProfile());
+
+                    ExtensionResourcesPanel.createOrShow(performanceMonitor);
+
+                    if (summary.profilePath) {
+                        const action = await vscode.window.showInformationMessage(
+                            `CPU profile captured (${(summary.sampledTime / 1000).toFixed(1)}s).`,
+                            'Open Profile',
+                            'Show in Folder'
+                        );
+                        const profileUri = vscode.Uri.file(summary.profilePath);
+                        if (action === 'Open Profile') {
+                            await vscode.commands.executeCommand('vscode.open', profileUri);
+                        } else if (action === 'Show in Folder') {
+                            await vscode.commands.executeCommand('revealFileInOS', profileUri);
+                        }
+                    }
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to capture CPU profile: ${error}`);
+                }
+            }
+        },
+        {
+            command: COMMANDS.CAPTURE_HEAP_SNAPSHOT,
+            handler: async () => {
+                if (performanceMonitor.isHeapSnapshotRunning()) {
+                    vscode.window.showWarningMessage('A heap snapshot is already being captured.');
+                    return;
+                }
+
+                try {
+                    const summary = await vscode.window.withProgress({
+                        location: vscode.ProgressLocation.Notification,
+                        title: 'Capturing and analysing extension host heap snapshot...',
+                        cancellable: false
+                    }, () => performanceMonitor.captureHeapSnapshot());
+
+                    await refreshMetrics();
+                    ExtensionResourcesPanel.createOrShow(performanceMonitor);
+
+                    const action = await vscode.window.showInformationMessage(
+                        `Heap snapshot captured: ${summary.attributedSize.toFixed(1)} of ${summary.totalSize.toFixed(1)} MB attributed to extensions.`,
+                        'Show in Folder'
+                    );
+                    if (action === 'Show in Folder') {
+                        await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(summary.snapshotPath));
+                    }
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to capture heap snapshot: ${error}`);
+                }
+            }
+        },
+        {
+            command: COMMANDS.DELETE_SAVED_CAPTURES,
+            handler: async () => {
+                const result = await vscode.window.showWarningMessage(
+                    'Delete all saved CPU profiles and heap snapshots?',
+                    { modal: true },
+                    'Delete'
+                );
+                if (result !== 'Delete') {
+                    return;
+                }
+                try {
+                    const deleted = await performanceMonitor.deleteSavedCaptures();
+                    vscode.window.showInformationMessage(`Deleted ${deleted} saved profile and snapshot file${deleted === 1 ? '' : 's'}`);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to delete saved captures: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        },
         {
             command: COMMANDS.DISABLE_EXTENSION,
             handler: async (target?: unknown) => {
@@ -145,6 +296,82 @@ function registerCommands(context: vscode.ExtensionContext): void {
                 await enableExtension(resolved.id, resolved.name);
                 await refreshMetrics();
             }
+        },
+        {
+            command: COMMANDS.SET_EXTENSION_OVERRIDE,
+            handler: async (target?: unknown) => {
+                const resolved = resolveExtensionTarget(target);
+                if (!resolved) {
+                    vscode.window.showErrorMessage('Select an extension to set an override for.');
+                    return;
+                }
+                if (await editExtensionOverride(resolved.id, resolved.name ?? resolved.id)) {
+                    await refreshMetrics();
+                }
+            }
+        },
+        {
+            command: COMMANDS.CLEAR_EXTENSION_OVERRIDE,
+            handler: async (target?: unknown) => {
+                const resolved = resolveExtensionTarget(target);
+                if (!resolved) {
+                    vscode.window.showErrorMessage('Select an extension to clear the override for.');
+                    return;
+                }
+                const name = resolved.name ?? resolved.id;
+                if (!configManager.getExtensionOverrides()[resolved.id]) {
+                    const message = configManager.getExtensionOverride(resolved.id)
+                        ? `The override for ${name} comes from a pattern in extperf.extensionOverrides. Edit your settings to change it.`
+                        : `${name} has no override.`;
+                    vscode.window.showInformationMessage(message);
+                    return;
+                }
+                await configManager.setExtensionOverride(resolved.id, undefined);
+                await refreshMetrics();
+                vscode.window.showInformationMessage(`Cleared the override for ${name}.`);
+            }
+        },
+        {
+            command: COMMANDS.ACKNOWLEDGE_ALERT,
+            handler: (target?: unknown) => {
+                const alert = resolveAlertTarget(target);
+                if (!alert) {
+                    vscode.window.showErrorMessage('Select an alert to acknowledge.');
+                    return;
+                }
+                performanceMonitor.acknowledgeAlert(alert.ruleId, alert.extensionId);
+            }
+        },
+        {
+            command: COMMANDS.SNOOZE_ALERT,
+            handler: async (target?: unknown) => {
+                const alert = resolveAlertTarget(target);
+                if (!alert) {
+                    vscode.window.showErrorMessage('Select an alert to snooze.');
+                    return;
+                }
+                const choice = await vscode.window.showQuickPick([
+                    { label: '15 minutes', minutes: 15 },
+                    { label: '1 hour', minutes: 60 },
+                    { label: '4 hours', minutes: 240 },
+                    { label: '1 day', minutes: 24 * 60 }
+                ], { placeHolder: 'Snooze this alert for...' });
+                if (choice) {
+                    performanceMonitor.snoozeAlert(alert.ruleId, alert.extensionId, choice.minutes * 60 * 1000);
+                }
+            }
+        },
+        {
+            command: COMMANDS.CLEAR_ALERT_LOG,
+            handler: () => performanceMonitor.clearAlertLog()
+        },
+        {
+            command: COMMANDS.SHOW_STARTUP_HISTORY,
+            handler: () => vscode.commands.executeCommand('extperf.startupHistory.focus')
+        },
+        {
+            command: COMMANDS.CLEAR_STARTUP_HISTORY,
+            handler: () => performanceMonitor.clearStartupReports()
         }
     ];
 
@@ -194,12 +421,199 @@ function resolveExtensionTarget(target: unknown): { id: string; name?: string }
     return { id: extensionId, name };
 }
 
+/**
+ * Asks for thresholds and flags and saves them as the extension's override
+ * @returns Whether the override was saved
+ */
+async function editExtensionOverride(extensionId: string, name: string): Promise<boolean> {
+    const current = configManager.getExtensionOverrides()[extensionId] ?? {};
+
+    const cpu = await promptThreshold(`CPU alert threshold for ${name} (%). Leave empty to use the global threshold.`, current.cpu);
+    if (cpu === null) {
+        return false;
+    }
+    const memory = await promptThreshold(`Memory alert threshold for ${name} (MB). Leave empty to use the global threshold.`, current.memory);
+    if (memory === null) {
+        return false;
+    }
+
+    const flags = await vscode.window.showQuickPick([
+        { label: 'Never alert', key: 'neverAlert' as const, picked: !!current.neverAlert },
+        { label: 'Exclude from totals', key: 'excludeFromTotals' as const, picked: !!current.excludeFromTotals }
+    ], { canPickMany: true, placeHolder: `Options for ${name}` });
+    if (!flags) {
+        return false;
+    }
+
+    const override: ExtensionOverride = {};
+    if (cpu !== undefined) {
+        override.cpu = cpu;
+    }
+    if (memory !== undefined) {
+        override.memory = memory;
+    }
+    for (const flag of flags) {
+        override[flag.key] = true;
+    }
+
+    await configManager.setExtensionOverride(extensionId, override);
+    vscode.window.showInformationMessage(
+        Object.keys(override).length > 0 ? `Saved the override for ${name}.` : `Cleared the override for ${name}.`
+    );
+    return true;
+}
+
+/**
+ * Asks for an optional positive number
+ * @returns The number, undefined when left empty, or null when cancelled
+ */
+async function promptThreshold(prompt: string, current: number | undefined): Promise<number | undefined | null> {
+    const value = await vscode.window.showInputBox({
+        prompt,
+        value: current !== undefined ? String(current) : '',
+        validateInput: input => {
+            if (input.trim() === '') {
+                return undefined;
+            }
+            const parsed = Number(input);
+            return Number.isFinite(parsed) && parsed > 0 ? undefined : 'Enter a positive number';
+        }
+    });
+
+    if (value === undefined) {
+        return null;
+    }
+    return value.trim() === '' ? undefined : Number(value);
+}
+
+/**
+ * Asks what to compare: two windows of recorded history or two exported reports
+ * @returns The baseline and candidate, or undefined when cancelled
+ */
+async function pickComparisonSources(): Promise<{ baseline: ComparisonSource; candidate: ComparisonSource } | undefined> {
+    const hour = 60 * 60 * 1000;
+    const choice = await vscode.window.showQuickPick([
+        { label: 'Last hour vs the hour before', mode: 'recent' as const, span: hour, names: ['Previous hour', 'Last hour'] },
+        { label: 'Last 24 hours vs the 24 hours before', mode: 'recent' as const, span: 24 * hour, names: ['Previous 24 hours', 'Last 24 hours'] },
+        { label: 'Today vs yesterday', mode: 'today' as const },
+        { label: 'Custom time windows...', mode: 'custom' as const },
+        { label: 'Two report files...', mode: 'reports' as const, detail: 'Compare JSON reports written by Export Performance Report' }
+    ], { placeHolder: 'What do you want to compare?' });
+    if (!choice) {
+        return undefined;
+    }
+
+    const now = Date.now();
+    switch (choice.mode) {
+        case 'recent':
+            return {
+                baseline: statsFromHistory(performanceMonitor, { start: now - 2 * choice.span, end: now - choice.span }, choice.names[0]),
+                candidate: statsFromHistory(performanceMonitor, { start: now - choice.span, end: now }, choice.names[1])
+            };
+        case 'today': {
+            const midnight = new Date(now).setHours(0, 0, 0, 0);
+            const yesterday = new Date(midnight - 1).setHours(0, 0, 0, 0);
+            return {
+                baseline: statsFromHistory(performanceMonitor, { start: yesterday, end: midnight }, 'Yesterday'),
+                candidate: statsFromHistory(performanceMonitor, { start: midnight, end: now }, 'Today')
+            };
+        }
+        case 'custom': {
+            const baseline = await promptTimeWindow('Baseline window');
+            if (!baseline) {
+                return undefined;
+            }
+            const candidate = await promptTimeWindow('Comparison window');
+            if (!candidate) {
+                return undefined;
+            }
+            return {
+                baseline: statsFromHistory(performanceMonitor, baseline, 'Baseline'),
+                candidate: statsFromHistory(performanceMonitor, candidate, 'Comparison')
+            };
+        }
+        case 'reports': {
+            const baseline = await pickReportFile('Select Baseline Report');
+            if (!baseline) {
+                return undefined;
+            }
+            const candidate = await pickReportFile('Select Comparison Report');
+            if (!candidate) {
+                return undefined;
+            }
+            return { baseline, candidate };
+        }
+    }
+}
+
+/**
+ * Asks for a time window as "<start> to <end>"
+ */
+async function promptTimeWindow(title: string): Promise<{ start: number; end: number } | undefined> {
+    const format = (time: number) => {
+        const date = new Date(time);
+        const pad = (value: number) => String(value).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+    };
+    const now = Date.now();
+    const value = await vscode.window.showInputBox({
+        title,
+        prompt: 'Start and end in local time, e.g. 2024-05-01 09:00 to 2024-05-01 10:00',
+        value: `${format(now - 60 * 60 * 1000)} to ${format(now)}`,
+        validateInput: input => (parseTimeWindow(input) ? undefined : 'Enter "<start> to <end>" with the start before the end')
+    });
+    return value === undefined ? undefined : parseTimeWindow(value);
+}
+
+/**
+ * Asks for an exported JSON report and reduces it to the per-extension statistics a comparison needs
+ */
+async function pickReportFile(title: string): Promise<ComparisonSource | undefined> {
+    const imported = await openReportFile(title);
+    return imported ? statsFromReport(imported) : undefined;
+}
+
+/**
+ * Shows a file picker for an exported JSON report, then parses, upgrades and validates the chosen file
+ * @returns The report, or undefined when the picker was cancelled
+ * @throws Error when the file is not a usable report
+ */
+async function openReportFile(title: string): Promise<ImportedReport | undefined> {
+    const uris = await vscode.window.showOpenDialog({
+        title,
+        canSelectMany: false,
+        filters: { 'JSON Files': ['json'] }
+    });
+    if (!uris || uris.length === 0) {
+        return undefined;
+    }
+    const content = await fs.readFile(uris[0].fsPath, 'utf8');
+    return readReport(content, path.basename(uris[0].fsPath));
+}
+
+function resolveAlertTarget(target: unknown): { ruleId: string; extensionId: string } | undefined {
+    if (!target || typeof target !== 'object') {
+        return undefined;
+    }
+
+    const candidate = target as { ruleId?: unknown; extensionId?: unknown };
+    if (typeof candidate.ruleId !== 'string' || typeof candidate.extensionId !== 'string') {
+        return undefined;
+    }
+
+    return { ruleId: candidate.ruleId, extensionId: candidate.extensionId };
+}
+
 /**
  * Deactivates the extension
  */
-export function deactivate(): void {
+export async function deactivate(): Promise<void> {
+    if (reportScheduler) {
+        await reportScheduler.writeShutdownSnapshot();
+    }
     if (performanceMonitor) {
         performanceMonitor.stopMonitoring();
+        await performanceMonitor.flushHistory();
     }
     if (statusBarManager) {
         statusBarManager.dispose();
@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { PerformanceMonitor } from '../services/performanceMonitor';
+import { describeAlert } from '../services/alertEngine';
+import { PerformanceAlert } from '../types';
+
+/**
+ * Tree data provider listing past performance alerts, most recent first
+ */
+export class AlertLogProvider implements vscode.TreeDataProvider<AlertLogItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<AlertLogItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private performanceMonitor: PerformanceMonitor) {
+        this.performanceMonitor.onDidChangeAlerts(() => {
+            this.refresh();
+        });
+    }
+
+    /**
+     * Refreshes the tree view
+     */
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: AlertLogItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: AlertLogItem): Thenable<AlertLogItem[]> {
+        if (element) {
+            return Promise.resolve([]);
+        }
+
+        const alerts = this.performanceMonitor.getAlertLog().reverse();
+        return Promise.resolve(alerts.map(alert => this.createAlertItem(alert)));
+    }
+
+    /**
+     * Creates a tree item for a logged alert
+     */
+    private createAlertItem(alert: PerformanceAlert): AlertLogItem {
+        const suppressed = this.performanceMonitor.isAlertSuppressed(alert.ruleId, alert.extensionId);
+        const item = new AlertLogItem(alert, suppressed);
+
+        item.description = new Date(alert.timestamp).toLocaleString();
+        item.tooltip = new vscode.MarkdownString();
+        item.tooltip.appendMarkdown(`**${alert.extensionName}**\n\n`);
+        item.tooltip.appendMarkdown(`- **Severity:** ${alert.severity}\n`);
+        item.tooltip.appendMarkdown(`- **Rule:** \`${alert.ruleId}\`\n`);
+        item.tooltip.appendMarkdown(`- **Extension:** ${alert.extensionName} (\`${alert.extensionId}\`)\n`);
+        item.tooltip.appendMarkdown(`- **Threshold:** ${alert.threshold}\n`);
+        item.tooltip.appendMarkdown(`- **Held for:** ${(alert.duration / 1000).toFixed(0)}s\n`);
+        if (suppressed) {
+            item.tooltip.appendMarkdown(`- **Status:** acknowledged or snoozed\n`);
+        }
+
+        if (suppressed) {
+            item.iconPath = new vscode.ThemeIcon('bell-slash');
+        } else if (alert.severity === 'critical') {
+            item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+        } else {
+            item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        }
+
+        return item;
+    }
+}
+
+/**
+ * Tree item for a logged alert
+ */
+class AlertLogItem extends vscode.TreeItem {
+    readonly ruleId: string;
+    readonly extensionId: string;
+
+    constructor(alert: PerformanceAlert, suppressed: boolean) {
+        super(describeAlert(alert), vscode.TreeItemCollapsibleState.None);
+        this.ruleId = alert.ruleId;
+        this.extensionId = alert.extensionId;
+        this.contextValue = suppressed ? 'alert.suppressed' : 'alert';
+    }
+}
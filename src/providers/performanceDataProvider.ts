@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { PerformanceMonitor } from '../services/performanceMonitor';
-import { ExtensionMetrics, TreeItemType } from '../types';
+import { EventLoopMetrics, ExtensionMetrics, ExtensionOverride, HostProcessMetrics, TreeItemType } from '../types';
+import { describeMetricSource } from '../services/usageAttribution';
+import { UNATTRIBUTED_PROCESSES_ID } from '../constants';
 
 /**
  * Tree data provider for the performance view
@@ -43,6 +45,9 @@ export class PerformanceDataProvider implements vscode.TreeDataProvider<Performa
             case TreeItemType.SUMMARY:
                 return Promise.resolve(this.getSummaryChildren());
             case TreeItemType.CATEGORY:
+                if (element.contextValue === 'host') {
+                    return Promise.resolve(this.getHostChildren());
+                }
                 return Promise.resolve(this.getCategoryChildren(element.contextValue!));
             case TreeItemType.EXTENSION:
                 return Promise.resolve(this.getExtensionChildren(element.extensionId!));
@@ -68,6 +73,19 @@ export class PerformanceDataProvider implements vscode.TreeDataProvider<Performa
         summaryItem.description = `CPU: ${summary.totalCpuUsage.toFixed(1)}% | RAM: ${summary.totalMemoryUsage.toFixed(0)}MB`;
         items.push(summaryItem);
 
+        // Extension host process
+        if (summary.host) {
+            const hostItem = new PerformanceTreeItem(
+                'Extension Host',
+                TreeItemType.CATEGORY,
+                vscode.TreeItemCollapsibleState.Collapsed,
+                'host'
+            );
+            hostItem.iconPath = new vscode.ThemeIcon('server-process');
+            hostItem.description = `CPU: ${summary.host.cpuUsage.toFixed(1)}% | RSS: ${summary.host.rss.toFixed(0)}MB`;
+            items.push(hostItem);
+        }
+
         // Categories
         items.push(
             new PerformanceTreeItem(
@@ -96,6 +114,17 @@ export class PerformanceDataProvider implements vscode.TreeDataProvider<Performa
             )
         );
 
+        if (this.performanceMonitor.getCurrentMetrics().some(m => m.isBuiltin)) {
+            items.push(
+                new PerformanceTreeItem(
+                    'Built-in Extensions',
+                    TreeItemType.CATEGORY,
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    'builtin'
+                )
+            );
+        }
+
         return items;
     }
 
@@ -106,15 +135,18 @@ export class PerformanceDataProvider implements vscode.TreeDataProvider<Performa
         const summary = this.performanceMonitor.getPerformanceSummary();
         const items: PerformanceTreeItem[] = [];
 
+        const cpuBudget = summary.hostBudget ? ` of ${summary.hostBudget.cpu.toFixed(1)}% host budget` : '';
+        const memoryBudget = summary.hostBudget ? ` of ${summary.hostBudget.memory.toFixed(0)} MB host budget` : '';
+
         // Total metrics
         items.push(
             new PerformanceTreeItem(
-                `Total CPU Usage: ${summary.totalCpuUsage.toFixed(1)}%`,
+                `Total CPU Usage: ${summary.totalCpuUsage.toFixed(1)}%${cpuBudget}`,
                 TreeItemType.METRIC,
                 vscode.TreeItemCollapsibleState.None
             ),
             new PerformanceTreeItem(
-                `Total Memory Usage: ${summary.totalMemoryUsage.toFixed(0)} MB`,
+                `Total Memory Usage: ${summary.totalMemoryUsage.toFixed(0)} MB${memoryBudget}`,
                 TreeItemType.METRIC,
                 vscode.TreeItemCollapsibleState.None
             ),
@@ -136,6 +168,97 @@ export class PerformanceDataProvider implements vscode.TreeDataProvider<Performa
         items[2].iconPath = new vscode.ThemeIcon('check');
         items[3].iconPath = new vscode.ThemeIcon('extensions');
 
+        if (summary.excludedFromTotals > 0) {
+            const excludedItem = new PerformanceTreeItem(
+                `Excluded from Totals: ${summary.excludedFromTotals}`,
+                TreeItemType.METRIC,
+                vscode.TreeItemCollapsibleState.None
+            );
+            excludedItem.iconPath = new vscode.ThemeIcon('filter');
+            excludedItem.tooltip = 'Extensions left out of the totals by extperf.extensionOverrides';
+            items.push(excludedItem);
+        }
+
+        if (summary.eventLoop) {
+            items.push(this.createEventLoopItem(summary.eventLoop));
+        }
+
+        return items;
+    }
+
+    /**
+     * Creates the event-loop delay summary item, with recent long tasks in its tooltip
+     */
+    private createEventLoopItem(eventLoop: EventLoopMetrics): PerformanceTreeItem {
+        const item = new PerformanceTreeItem(
+            `Event Loop Delay: p99 ${eventLoop.p99.toFixed(0)} ms`,
+            TreeItemType.METRIC,
+            vscode.TreeItemCollapsibleState.None
+        );
+        item.iconPath = new vscode.ThemeIcon('watch');
+        item.description = `p50 ${eventLoop.p50.toFixed(0)} · p95 ${eventLoop.p95.toFixed(0)} · max ${eventLoop.max.toFixed(0)} ms`;
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**Extension Host Event Loop**\n\n`);
+        tooltip.appendMarkdown(`- **p50 / p95 / p99:** ${eventLoop.p50.toFixed(1)} / ${eventLoop.p95.toFixed(1)} / ${eventLoop.p99.toFixed(1)} ms\n`);
+        tooltip.appendMarkdown(`- **Max:** ${eventLoop.max.toFixed(1)} ms\n`);
+        tooltip.appendMarkdown(`- **Long tasks this interval:** ${eventLoop.longTaskCount}\n`);
+
+        const longTasks = this.performanceMonitor.getLongTasks().slice(-5).reverse();
+        if (longTasks.length > 0) {
+            tooltip.appendMarkdown(`\n**Recent Long Tasks:**\n`);
+            for (const task of longTasks) {
+                const culprits = task.extensions?.slice(0, 3).map(entry => `${entry.displayName} ${entry.time.toFixed(0)} ms`).join(', ');
+                tooltip.appendMarkdown(`- ${new Date(task.startedAt).toLocaleTimeString()}: ${task.duration.toFixed(0)} ms`);
+                tooltip.appendMarkdown(culprits ? ` (${culprits})\n` : `\n`);
+            }
+        }
+        item.tooltip = tooltip;
+
+        return item;
+    }
+
+    /**
+     * Gets children for the extension host item
+     */
+    private getHostChildren(): PerformanceTreeItem[] {
+        const host: HostProcessMetrics | undefined = this.performanceMonitor.getHostMetrics();
+        if (!host) {
+            return [];
+        }
+
+        const rows: [string, string][] = [
+            [`CPU: ${host.cpuUsage.toFixed(1)}%`, 'pulse'],
+            [`RSS: ${host.rss.toFixed(1)} MB`, 'database'],
+            [`Heap: ${host.heapUsed.toFixed(1)} / ${host.heapTotal.toFixed(1)} MB`, 'database'],
+            [`External: ${host.external.toFixed(1)} MB`, 'database'],
+            [`Array Buffers: ${host.arrayBuffers.toFixed(1)} MB`, 'database'],
+            [`PID ${host.pid} · Uptime ${(host.uptime / 60).toFixed(0)} min`, 'info']
+        ];
+
+        const items = rows.map(([label, icon]) => {
+            const item = new PerformanceTreeItem(label, TreeItemType.METRIC, vscode.TreeItemCollapsibleState.None);
+            item.iconPath = new vscode.ThemeIcon(icon);
+            return item;
+        });
+
+        const unattributed = this.performanceMonitor.getSubprocessStats(UNATTRIBUTED_PROCESSES_ID);
+        if (unattributed && unattributed.processCount > 0) {
+            const item = new PerformanceTreeItem(
+                `Unattributed Processes: ${unattributed.processCount}`,
+                TreeItemType.METRIC,
+                vscode.TreeItemCollapsibleState.None
+            );
+            item.description = `CPU: ${unattributed.totalCpu.toFixed(1)}% | RAM: ${unattributed.totalMemory.toFixed(0)}MB`;
+            item.iconPath = new vscode.ThemeIcon('question');
+            item.tooltip = new vscode.MarkdownString();
+            item.tooltip.appendMarkdown('**Child processes not matched to any extension**\n\n');
+            for (const subprocess of unattributed.processes) {
+                item.tooltip.appendMarkdown(`- PID ${subprocess.pid} (parent ${subprocess.ppid}): ${subprocess.cpu.toFixed(1)}% CPU, ${subprocess.memory.toFixed(1)} MB — \`${subprocess.command.replace(/`/g, "'")}\`\n`);
+            }
+            items.push(item);
+        }
+
         return items;
     }
 
@@ -163,6 +286,9 @@ export class PerformanceDataProvider implements vscode.TreeDataProvider<Performa
             case 'all':
                 filteredMetrics = metrics;
                 break;
+            case 'builtin':
+                filteredMetrics = metrics.filter(m => m.isBuiltin);
+                break;
         }
 
         return filteredMetrics.map(metric => this.createExtensionTreeItem(metric));
@@ -198,7 +324,7 @@ export class PerformanceDataProvider implements vscode.TreeDataProvider<Performa
                     vscode.TreeItemCollapsibleState.None
                 ),
                 new PerformanceTreeItem(
-                    `Data Points: ${history.metrics.length}`,
+                    `Data Points: ${history.points.length}`,
                     TreeItemType.METRIC,
                     vscode.TreeItemCollapsibleState.None
                 )
@@ -230,25 +356,43 @@ export class PerformanceDataProvider implements vscode.TreeDataProvider<Performa
         item.description = `CPU: ${metric.cpuUsage.toFixed(1)}% | RAM: ${metric.memoryUsage.toFixed(0)}MB`;
         item.tooltip = new vscode.MarkdownString();
         item.tooltip.appendMarkdown(`**${metric.displayName}** (v${metric.version})\n\n`);
-        item.tooltip.appendMarkdown(`- **Status:** ${metric.isActive ? 'Active' : 'Inactive'}\n`);
+        item.tooltip.appendMarkdown(`- **Status:** ${metric.isActive ? 'Active' : 'Inactive'}${metric.isBuiltin ? ' (built-in)' : ''}\n`);
         item.tooltip.appendMarkdown(`- **CPU Usage:** ${metric.cpuUsage.toFixed(1)}%\n`);
         item.tooltip.appendMarkdown(`- **Memory Usage:** ${metric.memoryUsage.toFixed(1)} MB\n`);
         if (metric.subprocessCount && metric.subprocessCount > 0) {
             item.tooltip.appendMarkdown(`- **Subprocess CPU:** ${(metric.processCpuUsage ?? 0).toFixed(1)}%\n`);
             item.tooltip.appendMarkdown(`- **Subprocess Memory:** ${(metric.processMemoryUsage ?? 0).toFixed(1)} MB\n`);
             item.tooltip.appendMarkdown(`- **Subprocesses:** ${metric.subprocessCount}\n`);
-        } else {
-            item.tooltip.appendMarkdown(`- **Usage Source:** Heuristic estimate\n`);
+        }
+        item.tooltip.appendMarkdown(`- **Usage Source:** ${describeMetricSource(metric.metricSource, metric.confidence)}\n`);
+        if (metric.memoryTrend) {
+            const trend = metric.memoryTrend;
+            item.tooltip.appendMarkdown(`- **Memory Trend:** ${trend.slope >= 0 ? '+' : ''}${trend.slope.toFixed(1)} MB/hour over ${(trend.window / 60000).toFixed(0)} min (R² ${trend.rSquared.toFixed(2)})`);
+            item.tooltip.appendMarkdown(trend.possibleLeak ? ` — **possible leak**\n` : `\n`);
+        }
+        const override = this.performanceMonitor.getExtensionOverride(metric.id);
+        if (override) {
+            item.tooltip.appendMarkdown(`- **Override:** ${describeOverride(override)}\n`);
         }
         
-        if (metric.activationTime) {
+        if (metric.activationTime !== undefined) {
             item.tooltip.appendMarkdown(`- **Activation Time:** ${metric.activationTime}ms\n`);
         }
+        if (metric.activatedAt !== undefined) {
+            item.tooltip.appendMarkdown(`- **Activated:** ${(metric.activatedAt / 1000).toFixed(1)}s after startup`);
+            item.tooltip.appendMarkdown(metric.activationEvent ? ` (likely \`${metric.activationEvent}\`)\n` : `\n`);
+        }
         
         item.tooltip.appendMarkdown(`- **Last Updated:** ${new Date(metric.timestamp).toLocaleTimeString()}`);
 
+        if (metric.memoryTrend?.possibleLeak) {
+            item.description += ' | possible leak';
+        }
+
         // Set icon based on status and performance
-        if (!metric.isActive) {
+        if (metric.memoryTrend?.possibleLeak) {
+            item.iconPath = new vscode.ThemeIcon('flame', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+        } else if (!metric.isActive) {
             item.iconPath = new vscode.ThemeIcon('circle-outline');
         } else if (metric.cpuUsage > 10 || metric.memoryUsage > 50) {
             item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
@@ -260,6 +404,26 @@ export class PerformanceDataProvider implements vscode.TreeDataProvider<Performa
     }
 }
 
+/**
+ * Describes an override in one line, e.g. "CPU alert at 200%, never alerts"
+ */
+function describeOverride(override: ExtensionOverride): string {
+    const parts: string[] = [];
+    if (override.cpu !== undefined) {
+        parts.push(`CPU alert at ${override.cpu}%`);
+    }
+    if (override.memory !== undefined) {
+        parts.push(`memory alert at ${override.memory} MB`);
+    }
+    if (override.neverAlert) {
+        parts.push('never alerts');
+    }
+    if (override.excludeFromTotals) {
+        parts.push('excluded from totals');
+    }
+    return parts.join(', ') || 'none';
+}
+
 /**
  * Tree item for performance data
  */
@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import { matchesBuiltinMode } from '../services/configManager';
+import { PerformanceMonitor } from '../services/performanceMonitor';
+import { BuiltinExtensionMode, StartupReport } from '../types';
+
+/**
+ * Tree data provider listing the startup report of each extension-host session, most recent first,
+ * with what changed since the session before it
+ */
+export class StartupHistoryProvider implements vscode.TreeDataProvider<StartupHistoryItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<StartupHistoryItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private performanceMonitor: PerformanceMonitor) {
+        this.performanceMonitor.onDidChangeStartupReports(() => {
+            this.refresh();
+        });
+    }
+
+    /**
+     * Refreshes the tree view
+     */
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: StartupHistoryItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: StartupHistoryItem): Thenable<StartupHistoryItem[]> {
+        if (!element) {
+            const reports = this.performanceMonitor.getStartupReports();
+            return Promise.resolve(reports.map((report, index) => this.createReportItem(report, reports[index + 1], index === 0)));
+        }
+        return Promise.resolve(element.children);
+    }
+
+    /**
+     * Creates the item for one session, comparing it with the session before
+     */
+    private createReportItem(report: StartupReport, previous: StartupReport | undefined, current: boolean): StartupHistoryItem {
+        const children = [
+            ...(previous ? [this.createChangesItem(report, previous)] : []),
+            this.createHostItem(report),
+            this.createActivationsItem(report),
+            this.createSamplesItem(report)
+        ];
+        const item = new StartupHistoryItem(new Date(report.recordedAt).toLocaleString(), children, current);
+
+        const parts = [`${report.activations.length} active`, `${report.host.rss.toFixed(0)} MB`, `${report.host.uptime.toFixed(1)}s`];
+        if (previous) {
+            const change = diffExtensions(report, previous, this.performanceMonitor.getBuiltinExtensionMode());
+            const counts = [
+                change.installed.length > 0 ? `+${change.installed.length}` : '',
+                change.uninstalled.length > 0 ? `-${change.uninstalled.length}` : ''
+            ].filter(Boolean).join(' ');
+            const rss = report.host.rss - previous.host.rss;
+            parts.push(`${formatSigned(rss, 0)} MB vs previous`);
+            if (counts) {
+                parts.push(`${counts} ext`);
+            }
+        }
+        item.description = (current ? 'this session · ' : '') + parts.join(' · ');
+        item.iconPath = new vscode.ThemeIcon(current ? 'debug-start' : 'history');
+
+        item.tooltip = new vscode.MarkdownString();
+        item.tooltip.appendMarkdown(`**Startup of ${new Date(report.recordedAt).toLocaleString()}**\n\n`);
+        item.tooltip.appendMarkdown(`- **VS Code:** ${report.vscodeVersion}\n`);
+        item.tooltip.appendMarkdown(`- **Extension host uptime:** ${report.host.uptime.toFixed(1)}s\n`);
+        item.tooltip.appendMarkdown(`- **Extension host CPU time:** ${report.host.cpuTime.toFixed(0)} ms\n`);
+        item.tooltip.appendMarkdown(`- **Extension host RSS:** ${report.host.rss.toFixed(1)} MB\n`);
+        item.tooltip.appendMarkdown(`- **Active extensions:** ${report.activations.length}\n`);
+        item.tooltip.appendMarkdown(`- **Installed extensions:** ${installedExtensions(report, this.performanceMonitor.getBuiltinExtensionMode()).length}\n`);
+        if (previous) {
+            item.tooltip.appendMarkdown(`- **RSS vs previous session:** ${formatSigned(report.host.rss - previous.host.rss, 1)} MB\n`);
+            item.tooltip.appendMarkdown(`- **Uptime vs previous session:** ${formatSigned(report.host.uptime - previous.host.uptime, 1)}s\n`);
+        }
+        return item;
+    }
+
+    /**
+     * Lists extensions installed, uninstalled, or active at startup compared with the previous session
+     */
+    private createChangesItem(report: StartupReport, previous: StartupReport): StartupHistoryItem {
+        const change = diffExtensions(report, previous, this.performanceMonitor.getBuiltinExtensionMode());
+        const children = [
+            ...change.installed.map(id => leaf(id, 'installed', 'add')),
+            ...change.uninstalled.map(id => leaf(id, 'uninstalled', 'remove')),
+            ...change.activated.map(id => leaf(id, 'now active at startup', 'arrow-up')),
+            ...change.deactivated.map(id => leaf(id, 'no longer active at startup', 'arrow-down'))
+        ];
+        if (children.length === 0) {
+            children.push(leaf('No extension changes', undefined, 'check'));
+        }
+
+        const item = new StartupHistoryItem('Changes since previous session', children);
+        item.description = [
+            `RSS ${formatSigned(report.host.rss - previous.host.rss, 0)} MB`,
+            `CPU time ${formatSigned(report.host.cpuTime - previous.host.cpuTime, 0)} ms`,
+            `${formatSigned(report.activations.length - previous.activations.length, 0)} active`
+        ].join(' · ');
+        item.iconPath = new vscode.ThemeIcon('diff');
+        return item;
+    }
+
+    private createHostItem(report: StartupReport): StartupHistoryItem {
+        const host = report.host;
+        const item = new StartupHistoryItem('Extension Host', [
+            leaf(`Uptime: ${host.uptime.toFixed(1)}s`, undefined, 'clock'),
+            leaf(`CPU time: ${host.cpuTime.toFixed(0)} ms`, undefined, 'pulse'),
+            leaf(`RSS: ${host.rss.toFixed(1)} MB`, undefined, 'database'),
+            leaf(`Heap: ${host.heapUsed.toFixed(1)} / ${host.heapTotal.toFixed(1)} MB`, undefined, 'database'),
+            leaf(`External: ${host.external.toFixed(1)} MB`, undefined, 'database'),
+            leaf(`VS Code ${report.vscodeVersion}`, undefined, 'info')
+        ]);
+        item.description = `RSS: ${host.rss.toFixed(0)}MB | Uptime: ${host.uptime.toFixed(1)}s`;
+        item.iconPath = new vscode.ThemeIcon('server-process');
+        return item;
+    }
+
+    private createActivationsItem(report: StartupReport): StartupHistoryItem {
+        const children = report.activations.map((activation, index) => {
+            const timing = activation.activationTime !== undefined ? ` · took ${activation.activationTime.toFixed(0)} ms` : '';
+            const event = activation.activationEvent ? ` · ${activation.activationEvent}` : '';
+            const item = leaf(
+                `${index + 1}. ${activation.extensionId}`,
+                `+${(activation.activatedAt / 1000).toFixed(2)}s${timing}${event}`,
+                'symbol-event'
+            );
+            item.tooltip = activation.source === 'hostMarks'
+                ? 'Timing reported by the extension host'
+                : 'Timing observed by this extension';
+            return item;
+        });
+
+        const item = new StartupHistoryItem('Activation Order', children);
+        item.description = `${report.activations.length} extensions`;
+        item.iconPath = new vscode.ThemeIcon('list-ordered');
+        return item;
+    }
+
+    private createSamplesItem(report: StartupReport): StartupHistoryItem {
+        const children = report.samples.map(sample => {
+            const item = leaf(
+                `+${((sample.timestamp - report.recordedAt) / 1000).toFixed(0)}s`,
+                `Host CPU: ${sample.hostCpu.toFixed(1)}% | RSS: ${sample.hostRss.toFixed(0)}MB | Extensions CPU: ${sample.extensionsCpu.toFixed(1)}% | RAM: ${sample.extensionsMemory.toFixed(0)}MB`,
+                'graph-line'
+            );
+            item.tooltip = new vscode.MarkdownString();
+            item.tooltip.appendMarkdown(`**Top CPU consumers**\n\n`);
+            for (const consumer of sample.topCpuConsumers) {
+                item.tooltip.appendMarkdown(`- \`${consumer.extensionId}\`: ${consumer.cpuUsage.toFixed(1)}% CPU, ${consumer.memoryUsage.toFixed(1)} MB\n`);
+            }
+            return item;
+        });
+        if (children.length === 0) {
+            children.push(leaf('No samples collected during startup', undefined, 'info'));
+        }
+
+        const item = new StartupHistoryItem('First Samples', children);
+        item.description = `${report.samples.length}`;
+        item.iconPath = new vscode.ThemeIcon('graph');
+        return item;
+    }
+}
+
+/**
+ * Tree item in the startup history; children are built together with the item
+ */
+class StartupHistoryItem extends vscode.TreeItem {
+    constructor(label: string, readonly children: StartupHistoryItem[] = [], expanded = false) {
+        super(
+            label,
+            children.length === 0
+                ? vscode.TreeItemCollapsibleState.None
+                : expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+        );
+    }
+}
+
+function leaf(label: string, description: string | undefined, icon: string): StartupHistoryItem {
+    const item = new StartupHistoryItem(label);
+    item.description = description;
+    item.iconPath = new vscode.ThemeIcon(icon);
+    return item;
+}
+
+/**
+ * Gets the installed extensions of a session that `extperf.builtinExtensions` says to show
+ *
+ * Reports without `builtinExtensions` only recorded non-builtin extensions.
+ */
+function installedExtensions(report: StartupReport, mode: BuiltinExtensionMode): string[] {
+    const builtin = new Set(report.builtinExtensions ?? []);
+    return report.installedExtensions.filter(id => matchesBuiltinMode(mode, builtin.has(id)));
+}
+
+/**
+ * Compares the installed extensions and the extensions active at startup of two sessions
+ *
+ * Both sessions are filtered the same way, falling back to non-builtin extensions when either report only recorded those.
+ */
+function diffExtensions(report: StartupReport, previous: StartupReport, mode: BuiltinExtensionMode) {
+    const installedMode = report.builtinExtensions && previous.builtinExtensions ? mode : 'exclude';
+    const installed = new Set(installedExtensions(report, installedMode));
+    const previouslyInstalled = new Set(installedExtensions(previous, installedMode));
+    const active = new Set(report.activations.map(activation => activation.extensionId));
+    const previouslyActive = new Set(previous.activations.map(activation => activation.extensionId));
+
+    return {
+        installed: [...installed].filter(id => !previouslyInstalled.has(id)),
+        uninstalled: [...previouslyInstalled].filter(id => !installed.has(id)),
+        activated: [...active].filter(id => !previouslyActive.has(id)),
+        deactivated: [...previouslyActive].filter(id => !active.has(id))
+    };
+}
+
+function formatSigned(value: number, digits: number): string {
+    const text = value.toFixed(digits);
+    if (Number(text) === 0) {
+        return (0).toFixed(digits);
+    }
+    return value > 0 ? `+${text}` : text;
+}
@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * A process as written into a fake /proc tree
+ */
+export interface FakeProcess {
+    pid: number;
+    ppid: number;
+    comm: string;
+    cmdline?: string[];
+    utime: number; // Ticks
+    stime: number; // Ticks
+    startTime: number; // Ticks after boot
+    threads: number;
+    rssKb: number;
+    pssKb?: number;
+    privateKb?: [number, number]; // Private_Clean, Private_Dirty
+    cwd?: string;
+    environ?: Record<string, string>;
+    openFiles?: string[];
+}
+
+/**
+ * Writes the files the sampler and attribution read for one process into the fake /proc
+ */
+export function writeProcess(procRoot: string, proc: FakeProcess): void {
+    const dir = path.join(procRoot, String(proc.pid));
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.mkdirSync(path.join(dir, 'fd'), { recursive: true });
+
+    // Fields 3 to 24 of /proc/<pid>/stat: state, ppid, ..., utime (14), stime (15), ..., num_threads (20), ..., starttime (22)
+    const fields = ['S', proc.ppid, proc.pid, proc.pid, 0, -1, 4194304, 0, 0, 0, 0, proc.utime, proc.stime, 0, 0, 20, 0, proc.threads, 0, proc.startTime, 0, 0];
+    fs.writeFileSync(path.join(dir, 'stat'), `${proc.pid} (${proc.comm}) ${fields.join(' ')}\n`);
+    fs.writeFileSync(path.join(dir, 'status'), `Name:\t${proc.comm}\nPPid:\t${proc.ppid}\nVmRSS:\t${proc.rssKb} kB\nThreads:\t${proc.threads}\n`);
+    fs.writeFileSync(path.join(dir, 'cmdline'), proc.cmdline ? proc.cmdline.join('\0') + '\0' : '');
+    fs.writeFileSync(path.join(dir, 'environ'), Object.entries(proc.environ ?? {}).map(([key, value]) => `${key}=${value}\0`).join(''));
+    if (proc.pssKb !== undefined && proc.privateKb) {
+        fs.writeFileSync(
+            path.join(dir, 'smaps_rollup'),
+            `00400000-7ffd0000 ---p 00000000 00:00 0 [rollup]\nRss: ${proc.rssKb} kB\nPss: ${proc.pssKb} kB\n` +
+            `Private_Clean: ${proc.privateKb[0]} kB\nPrivate_Dirty: ${proc.privateKb[1]} kB\n`
+        );
+    }
+    if (proc.cwd) {
+        fs.symlinkSync(proc.cwd, path.join(dir, 'cwd'));
+    }
+    (proc.openFiles ?? []).forEach((target, index) => fs.symlinkSync(target, path.join(dir, 'fd', String(index + 3))));
+}
+
+/**
+ * Creates an empty fake /proc with the system-wide files the sampler reads
+ */
+export function createFakeProc(prefix: string, uptimeSeconds: number): string {
+    const procRoot = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    fs.writeFileSync(path.join(procRoot, 'uptime'), `${uptimeSeconds}.00 3900.00\n`);
+    fs.writeFileSync(path.join(procRoot, 'loadavg'), '0.00 0.00 0.00 1/100 700\n'); // Not a process directory
+    return procRoot;
+}
@@ -0,0 +1,133 @@
+import { deepStrictEqual } from 'assert';
+import * as fs from 'fs';
+import { attributeByDetails, AttributionCache, buildExtensionIndex, collectSubprocessStats, readProcessDetails } from '../services/subprocessUsage';
+import { UNATTRIBUTED_PROCESSES_ID } from '../constants';
+import { createFakeProc, FakeProcess, writeProcess } from './fakeProc';
+
+const HOST_ENVIRONMENT = { PATH: '/usr/bin', HOME: '/home/dev' };
+
+const extensions = ['pub.a-1.0.0', 'pub.b-2.0.0', 'pub.c-0.3.0', 'pub.d-1.0.0'].map(folder => ({
+    id: folder.replace(/-[\d.]+$/, ''),
+    extensionPath: `/exts/${folder}`
+}));
+
+/**
+ * Checks the order in which process details are consulted, without touching the file system
+ */
+function verifyAttributeByDetails(): void {
+    const index = buildExtensionIndex(extensions);
+    const attribute = (details: Partial<Parameters<typeof attributeByDetails>[0]>) => {
+        const result = attributeByDetails({ environment: {}, openFiles: [], ...details }, index, HOST_ENVIRONMENT);
+        return result ? `${result.match.id} ${result.attribution}` : undefined;
+    };
+
+    deepStrictEqual(attribute({ commandLine: 'node /exts/pub.a-1.0.0/server.js', cwd: '/exts/pub.b-2.0.0' }), 'pub.a command');
+    deepStrictEqual(attribute({ commandLine: 'java -jar server.jar', cwd: '/exts/pub.b-2.0.0/server' }), 'pub.b cwd');
+
+    // Variables inherited unchanged from the extension host say nothing about the child
+    deepStrictEqual(attribute({ environment: { ...HOST_ENVIRONMENT, PYTHONPATH: '/exts/pub.c-0.3.0/libs' } }), 'pub.c environment');
+    deepStrictEqual(attribute({ environment: { PATH: '/usr/bin' } }), undefined);
+    const inherited = attributeByDetails({ environment: { PATH: '/exts/pub.a-1.0.0/bin' }, openFiles: [] }, index, { PATH: '/exts/pub.a-1.0.0/bin' });
+    deepStrictEqual(inherited, undefined);
+
+    // The extension with the most open files wins
+    deepStrictEqual(attribute({ openFiles: ['/exts/pub.a-1.0.0/a.log', '/data/pub.d/1.db', '/data/pub.d/2.db'] }), 'pub.d fileDescriptors');
+    deepStrictEqual(attribute({ commandLine: 'sleep 60', cwd: '/tmp', openFiles: ['/dev/null'] }), undefined);
+}
+
+/**
+ * Checks that the details are read from /proc, skipping descriptors that are not files
+ */
+async function verifyReadProcessDetails(procRoot: string): Promise<void> {
+    writeProcess(procRoot, {
+        pid: 900, ppid: 1, comm: 'worker', cmdline: ['./worker', '--port', '0'], utime: 0, stime: 0, startTime: 0, threads: 1, rssKb: 1024,
+        cwd: '/exts/pub.b-2.0.0', environ: { A: '1', B: 'x=y' }, openFiles: ['/dev/null', 'socket:[1234]', 'pipe:[99]', '/data/file.db']
+    });
+    deepStrictEqual(await readProcessDetails(900, procRoot), {
+        commandLine: './worker --port 0',
+        cwd: '/exts/pub.b-2.0.0',
+        environment: { A: '1', B: 'x=y' },
+        openFiles: ['/dev/null', '/data/file.db']
+    });
+    deepStrictEqual(await readProcessDetails(901, procRoot), { commandLine: undefined, cwd: undefined, environment: {}, openFiles: [] });
+}
+
+/**
+ * Checks every way of matching a child process, the parent chain and the unattributed bucket end to end
+ */
+async function verifyCollectSubprocessStats(procRoot: string): Promise<void> {
+    const processes: FakeProcess[] = [
+        { pid: 100, ppid: 1, comm: 'code', cmdline: ['/usr/share/code/code', '--type=extensionHost'], utime: 0, stime: 0, startTime: 0, threads: 12, rssKb: 409600, environ: HOST_ENVIRONMENT },
+        { pid: 200, ppid: 100, comm: 'node', cmdline: ['node', '/exts/pub.a-1.0.0/server.js', '--stdio'], utime: 0, stime: 0, startTime: 50000, threads: 7, rssKb: 102400 },
+        // Its working directory names another extension, but its parent is matched first
+        { pid: 201, ppid: 200, comm: 'sh', cmdline: ['/bin/sh', '-c', 'tsc --watch'], utime: 0, stime: 0, startTime: 90000, threads: 1, rssKb: 2048, cwd: '/exts/pub.b-2.0.0' },
+        { pid: 300, ppid: 100, comm: 'java', cmdline: ['java', '-jar', 'server.jar'], utime: 0, stime: 0, startTime: 60000, threads: 30, rssKb: 204800, cwd: '/exts/pub.b-2.0.0/server' },
+        { pid: 301, ppid: 300, comm: 'java', cmdline: ['java', '-cp', 'worker.jar'], utime: 0, stime: 0, startTime: 61000, threads: 4, rssKb: 20480, cwd: '/tmp' },
+        {
+            pid: 400, ppid: 100, comm: 'python3', cmdline: ['python3', '-m', 'lsp_server'], utime: 0, stime: 0, startTime: 60000, threads: 2, rssKb: 40960,
+            environ: { ...HOST_ENVIRONMENT, PYTHONPATH: '/exts/pub.c-0.3.0/bundled/libs' }
+        },
+        {
+            pid: 500, ppid: 100, comm: 'indexer', cmdline: ['./indexer'], utime: 0, stime: 0, startTime: 60000, threads: 2, rssKb: 8192,
+            openFiles: ['/dev/null', '/home/dev/.config/Code/User/globalStorage/pub.d/index.db']
+        },
+        { pid: 600, ppid: 100, comm: 'sleep', cmdline: ['sleep', '60'], utime: 0, stime: 0, startTime: 60000, threads: 1, rssKb: 1024 },
+        { pid: 700, ppid: 1, comm: 'sshd', cmdline: ['/usr/sbin/sshd'], utime: 0, stime: 0, startTime: 100, threads: 1, rssKb: 4096 }
+    ];
+    processes.forEach(proc => writeProcess(procRoot, proc));
+
+    const attributionCache: AttributionCache = { extensions: '', entries: new Map() };
+    const options = { rootPid: 100, procRoot, attributionCache, pidToExtensionId: new Map([[600, 'pub.missing']]) };
+    const stats = await collectSubprocessStats(extensions, options);
+    const attributed = [...stats.values()]
+        .flatMap(entry => entry.processes.map(usage => `${usage.pid} ${entry.extensionId} ${usage.attribution ?? '-'}`))
+        .sort();
+    deepStrictEqual(attributed, [
+        '200 pub.a command',
+        '201 pub.a parent',
+        '300 pub.b cwd',
+        '301 pub.b parent',
+        '400 pub.c environment',
+        '500 pub.d fileDescriptors',
+        `600 ${UNATTRIBUTED_PROCESSES_ID} -`
+    ]);
+    deepStrictEqual(stats.get('pub.a')?.processCount, 2);
+    deepStrictEqual(stats.get(UNATTRIBUTED_PROCESSES_ID)?.processes[0].command, 'sleep 60');
+
+    // Details are read once per process: only processes no command line or ancestor accounts for are cached,
+    // and a process that lost the details it was matched by keeps its match until it exits
+    deepStrictEqual([...attributionCache.entries.keys()].sort(), ['300:60000', '400:60000', '500:60000', '600:60000']);
+    writeProcess(procRoot, { ...processes[3], cwd: undefined });
+    const cached = await collectSubprocessStats(extensions, options);
+    deepStrictEqual(cached.get('pub.b')?.processes.map(usage => `${usage.pid} ${usage.attribution}`).sort(), ['300 cwd', '301 parent']);
+
+    // A new process reusing the pid is looked up again, and entries for exited processes are dropped
+    writeProcess(procRoot, { ...processes[3], cwd: undefined, startTime: 95000 });
+    fs.rmSync(`${procRoot}/600`, { recursive: true });
+    const restarted = await collectSubprocessStats(extensions, options);
+    deepStrictEqual(restarted.get(UNATTRIBUTED_PROCESSES_ID)?.processes.map(usage => usage.pid).sort(), [300, 301]);
+    deepStrictEqual([...attributionCache.entries.keys()].sort(), ['300:95000', '301:61000', '400:60000', '500:60000']);
+    processes.forEach(proc => writeProcess(procRoot, proc));
+
+    // A forced mapping wins over everything read from /proc
+    const forced = await collectSubprocessStats(extensions, { rootPid: 100, procRoot, pidToExtensionId: new Map([[300, 'pub.a']]) });
+    deepStrictEqual(forced.get('pub.a')?.processes.map(usage => `${usage.pid} ${usage.attribution}`).sort(), ['200 command', '201 parent', '300 forced', '301 parent']);
+}
+
+async function main(): Promise<void> {
+    const procRoot = createFakeProc('extperf-attribution-', 1000);
+    try {
+        verifyAttributeByDetails();
+        await verifyReadProcessDetails(procRoot);
+        await verifyCollectSubprocessStats(procRoot);
+    } finally {
+        fs.rmSync(procRoot, { recursive: true, force: true });
+    }
+
+    process.stdout.write('OK: child processes are attributed by command line, cwd, environment, open files and parent, and the rest are reported as unattributed.\n');
+}
+
+main().catch((error) => {
+    process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+    process.exitCode = 1;
+});
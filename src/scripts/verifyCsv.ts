@@ -0,0 +1,81 @@
+import { deepStrictEqual } from 'assert';
+import { escapeCsvField, formatCsv } from '../services/csvWriter';
+
+/**
+ * Splits RFC 4180 CSV back into records, so written fields can be compared with what was read
+ */
+function parseCsv(content: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let index = 0; index < content.length; index += 1) {
+        const char = content[index];
+        if (quoted) {
+            if (char === '"' && content[index + 1] === '"') {
+                field += '"';
+                index += 1;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\r' && content[index + 1] === '\n') {
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+            index += 1;
+        } else {
+            field += char;
+        }
+    }
+    if (quoted || field !== '' || record.length > 0) {
+        throw new Error('CSV does not end with a complete record');
+    }
+    return records;
+}
+
+function main(): void {
+    // Fields are quoted only when they need it
+    deepStrictEqual(escapeCsvField('plain'), 'plain');
+    deepStrictEqual(escapeCsvField(12.5), '12.5');
+    deepStrictEqual(escapeCsvField(false), 'false');
+    deepStrictEqual(escapeCsvField(undefined), '');
+    deepStrictEqual(escapeCsvField(null), '');
+    deepStrictEqual(escapeCsvField('a,b'), '"a,b"');
+    deepStrictEqual(escapeCsvField('say "hi"'), '"say ""hi"""');
+    deepStrictEqual(escapeCsvField('line\r\nbreak'), '"line\r\nbreak"');
+    deepStrictEqual(escapeCsvField('line\nbreak'), '"line\nbreak"');
+    deepStrictEqual(escapeCsvField(' leading'), '" leading"');
+    deepStrictEqual(escapeCsvField('trailing\t'), '"trailing\t"');
+    deepStrictEqual(escapeCsvField('inner space'), 'inner space');
+
+    // Records end with CRLF, including the last one
+    const content = formatCsv(['id', 'command'], [['pub.a', 'node server.js'], ['pub.b', undefined]]);
+    deepStrictEqual(content, 'id,command\r\npub.a,node server.js\r\npub.b,\r\n');
+
+    // Awkward fields read back unchanged
+    const rows = [
+        ['"quoted"', 'a, b', 'x'],
+        ['multi\r\nline', '  padded  ', ''],
+        ['"', ',', '\n'],
+        ['sh -c "tsc --watch, --pretty"', ' ', 'end']
+    ];
+    deepStrictEqual(parseCsv(formatCsv(['first', 'second', 'third'], rows)), [['first', 'second', 'third'], ...rows]);
+
+    process.stdout.write('OK: CSV fields with quotes, commas, line breaks and surrounding whitespace round-trip.\n');
+}
+
+try {
+    main();
+} catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+    process.exitCode = 1;
+}
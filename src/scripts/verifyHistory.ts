@@ -0,0 +1,166 @@
+import { deepStrictEqual } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TimeSeriesStore } from '../services/timeSeriesStore';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const START = Date.UTC(2024, 4, 1); // Midnight, so segments start with the series
+const SERIES = 'pub.a';
+
+let retention = 3 * DAY;
+
+/**
+ * Records a sample every 10 seconds for two hours; CPU cycles 0-5 within each minute, memory grows by 1 MB a minute
+ */
+function appendTwoHours(store: TimeSeriesStore): void {
+    for (let timestamp = START; timestamp < START + 2 * HOUR; timestamp += 10 * SECOND) {
+        const minute = Math.floor((timestamp - START) / MINUTE);
+        store.append(SERIES, {
+            timestamp,
+            cpuUsage: ((timestamp - START) / (10 * SECOND)) % 6,
+            memoryUsage: 100 + minute,
+            subprocessCount: minute === 0 ? 2 : 1,
+            // One estimated sample makes its whole rollup estimated
+            metricSource: timestamp === START + 30 * SECOND ? 'estimated' : 'measured'
+        });
+    }
+}
+
+function listFiles(directory: string): string[] {
+    return fs.readdirSync(directory).sort();
+}
+
+async function openStore(directory: string): Promise<TimeSeriesStore> {
+    const store = new TimeSeriesStore(directory, () => retention);
+    await store.open();
+    return store;
+}
+
+/**
+ * Checks that raw samples older than an hour become 1-minute points, and those older than a day 15-minute points
+ */
+async function verifyRollup(directory: string): Promise<void> {
+    const store = await openStore(directory);
+    appendTwoHours(store);
+    await store.flush(START + 2 * HOUR);
+
+    // The first hour's segment has ended an hour ago and is rolled up; the second is still raw
+    deepStrictEqual(listFiles(directory), ['1m-' + START + '.ndjson', 'index.json', `raw-${START + HOUR}.ndjson`]);
+    const firstHour = store.query(SERIES, { end: START + HOUR - 1 });
+    deepStrictEqual(firstHour.length, 60);
+    deepStrictEqual(firstHour[0], {
+        timestamp: START,
+        cpuUsage: 2.5,
+        memoryUsage: 100,
+        cpuPeak: 5,
+        memoryPeak: 100,
+        samples: 6,
+        subprocessCount: 2,
+        metricSource: 'estimated'
+    });
+    deepStrictEqual(firstHour[59].memoryUsage, 159);
+    deepStrictEqual(firstHour[59].metricSource, 'measured');
+    deepStrictEqual(store.query(SERIES, { start: START + HOUR }).length, 360);
+
+    // A day later the 1-minute points and the remaining raw samples end up in 15-minute points
+    await store.flush(START + 2 * DAY);
+    deepStrictEqual(listFiles(directory), ['15m-' + START + '.ndjson', 'index.json']);
+    const rolledUp = store.query(SERIES);
+    deepStrictEqual(rolledUp.map(point => (point.timestamp - START) / MINUTE), [0, 15, 30, 45, 60, 75, 90, 105]);
+    deepStrictEqual(rolledUp.map(point => point.samples), [90, 90, 90, 90, 90, 90, 90, 90]);
+    deepStrictEqual(rolledUp[0].cpuUsage, 2.5);
+    deepStrictEqual(rolledUp[0].memoryUsage, 107);
+    deepStrictEqual(rolledUp[0].metricSource, 'estimated');
+    deepStrictEqual(rolledUp[1].metricSource, 'measured');
+    deepStrictEqual(rolledUp[7].memoryPeak, 219);
+}
+
+/**
+ * Checks that a range spanning a rolled-up and a raw segment returns each part from its tier, in order
+ */
+async function verifyRangeQuery(directory: string): Promise<void> {
+    const store = await openStore(directory);
+    appendTwoHours(store);
+    await store.flush(START + 2 * HOUR);
+
+    const points = store.query(SERIES, { start: START + 58 * MINUTE, end: START + 61 * MINUTE });
+    deepStrictEqual(points.map(point => `${(point.timestamp - START) / SECOND}s x${point.samples}`), [
+        '3480s x6', '3540s x6',
+        '3600s x1', '3610s x1', '3620s x1', '3630s x1', '3640s x1', '3650s x1', '3660s x1'
+    ]);
+    deepStrictEqual(store.query(SERIES, { start: START + 3 * HOUR }), []);
+    deepStrictEqual(store.query('pub.unknown'), []);
+}
+
+/**
+ * Checks that 15-minute segments are deleted once they are older than the retention period
+ */
+async function verifyRetention(directory: string): Promise<void> {
+    const store = await openStore(directory);
+    appendTwoHours(store);
+    await store.flush(START + 2 * DAY);
+    deepStrictEqual(store.query(SERIES).length, 8);
+
+    // The segment covers the first day, so it expires a retention period after that day ends
+    await store.flush(START + DAY + retention - 1);
+    deepStrictEqual(store.query(SERIES).length, 8);
+
+    retention = DAY;
+    await store.flush(START + 2 * DAY);
+    deepStrictEqual(store.query(SERIES), []);
+    deepStrictEqual(listFiles(directory), ['index.json']);
+    retention = 3 * DAY;
+}
+
+/**
+ * Checks that opening after a crash drops temporary files and a partial last line, and that appends continue cleanly
+ */
+async function verifyRecovery(directory: string): Promise<void> {
+    const store = await openStore(directory);
+    appendTwoHours(store);
+    await store.flush(START + 2 * HOUR);
+    const before = store.query(SERIES);
+
+    const rawSegment = path.join(directory, `raw-${START + HOUR}.ndjson`);
+    fs.appendFileSync(rawSegment, `{"id":"${SERIES}","t":${START + 2 * HOUR - SECOND},"c":`);
+    fs.writeFileSync(path.join(directory, 'index.json.tmp'), '{"version":1,"segm');
+    fs.writeFileSync(path.join(directory, `raw-${START + HOUR}.ndjson.tmp`), 'partial');
+
+    const reopened = await openStore(directory);
+    deepStrictEqual(reopened.query(SERIES), before);
+    deepStrictEqual(listFiles(directory), ['1m-' + START + '.ndjson', 'index.json', `raw-${START + HOUR}.ndjson`]);
+
+    // The next sample starts on its own line rather than completing the partial one
+    reopened.append(SERIES, { timestamp: START + 2 * HOUR - SECOND, cpuUsage: 7, memoryUsage: 300, metricSource: 'attributed' });
+    await reopened.flush(START + 2 * HOUR);
+
+    // Segments written after the index are found from their names
+    fs.rmSync(path.join(directory, 'index.json'));
+    const recovered = await openStore(directory);
+    const last = recovered.query(SERIES, { start: START + 2 * HOUR - SECOND });
+    deepStrictEqual(last.map(point => `${point.cpuUsage} ${point.memoryUsage} ${point.metricSource}`), ['7 300 attributed']);
+    deepStrictEqual(recovered.query(SERIES).length, before.length + 1);
+}
+
+async function main(): Promise<void> {
+    const checks = [verifyRollup, verifyRangeQuery, verifyRetention, verifyRecovery];
+    for (const check of checks) {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'extperf-history-'));
+        try {
+            await check(directory);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    }
+
+    process.stdout.write('OK: history rolls up into 1-minute and 15-minute points, queries across tiers, expires and recovers after a crash.\n');
+}
+
+main().catch((error) => {
+    process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,107 @@
+import { deepStrictEqual } from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProcSampler } from '../services/procSampler';
+import { collectSubprocessStats } from '../services/subprocessUsage';
+import { createFakeProc, FakeProcess, writeProcess } from './fakeProc';
+
+const TICKS_PER_SECOND = 100;
+const UPTIME_SECONDS = 1000;
+
+function expectClose(name: string, actual: number | undefined, expected: number): void {
+    if (actual === undefined || Math.abs(actual - expected) > 0.001) {
+        throw new Error(`${name}: expected ${expected}, got ${actual}`);
+    }
+}
+
+async function main(): Promise<void> {
+    const procRoot = createFakeProc('extperf-proc-', UPTIME_SECONDS);
+    try {
+        const host: FakeProcess = {
+            pid: 100, ppid: 1, comm: 'code', cmdline: ['/usr/share/code/code', '--type=extensionHost'],
+            utime: 0, stime: 0, startTime: 0, threads: 12, rssKb: 409600, environ: { PATH: '/usr/bin', HOME: '/home/dev' }
+        };
+        const server: FakeProcess = {
+            pid: 200, ppid: 100, comm: 'node', cmdline: ['node', '/exts/pub.a-1.0.0/server.js', '--stdio'],
+            utime: 3000, stime: 1000, startTime: 50000, threads: 7, rssKb: 102400, pssKb: 51200, privateKb: [1024, 20480]
+        };
+        const helper: FakeProcess = {
+            pid: 201, ppid: 200, comm: 'tsc (watch) worker', utime: 50, stime: 50, startTime: 90000, threads: 1, rssKb: 2048
+        };
+        const javaServer: FakeProcess = {
+            pid: 300, ppid: 100, comm: 'java', cmdline: ['java', '-jar', 'server.jar'],
+            utime: 0, stime: 0, startTime: 60000, threads: 30, rssKb: 204800, cwd: '/exts/pub.b-2.0.0/server'
+        };
+        const pythonServer: FakeProcess = {
+            pid: 400, ppid: 100, comm: 'python3', cmdline: ['python3', '-m', 'lsp_server'],
+            utime: 0, stime: 0, startTime: 60000, threads: 2, rssKb: 40960,
+            environ: { PATH: '/usr/bin', HOME: '/home/dev', PYTHONPATH: '/exts/pub.c-0.3.0/bundled/libs' }
+        };
+        const indexer: FakeProcess = {
+            pid: 500, ppid: 100, comm: 'indexer', cmdline: ['./indexer'],
+            utime: 0, stime: 0, startTime: 60000, threads: 2, rssKb: 8192, openFiles: ['/dev/null', '/home/dev/.config/Code/User/globalStorage/pub.d/index.db']
+        };
+        const stray: FakeProcess = {
+            pid: 600, ppid: 100, comm: 'sleep', cmdline: ['sleep', '60'], utime: 0, stime: 0, startTime: 60000, threads: 1, rssKb: 1024
+        };
+        const unrelated: FakeProcess = {
+            pid: 700, ppid: 1, comm: 'sshd', cmdline: ['/usr/sbin/sshd'], utime: 10, stime: 10, startTime: 100, threads: 1, rssKb: 4096
+        };
+        [host, server, helper, javaServer, pythonServer, indexer, stray, unrelated].forEach(proc => writeProcess(procRoot, proc));
+
+        // First sample: the whole tree in one pass, CPU averaged since each process started
+        let now = 1_700_000_000_000;
+        const sampler = new ProcSampler({ procRoot, ticksPerSecond: TICKS_PER_SECOND, now: () => now });
+        const first = await sampler.sampleDescendants(host.pid);
+        deepStrictEqual(first.map(usage => usage.pid).sort(), [200, 201, 300, 400, 500, 600]);
+
+        const firstServer = first.find(usage => usage.pid === server.pid)!;
+        deepStrictEqual(firstServer.command, 'node /exts/pub.a-1.0.0/server.js --stdio');
+        deepStrictEqual(firstServer.ppid, 100);
+        deepStrictEqual(firstServer.threads, 7);
+        expectClose('first CPU', firstServer.cpu, (4000 / TICKS_PER_SECOND) / (UPTIME_SECONDS - 500) * 100);
+        expectClose('RSS', firstServer.rss, 100);
+        expectClose('PSS', firstServer.pss, 50);
+        expectClose('USS', firstServer.uss, 21);
+
+        // A command name with spaces and parentheses, no command line and no smaps_rollup
+        const firstHelper = first.find(usage => usage.pid === helper.pid)!;
+        deepStrictEqual(firstHelper.command, 'tsc (watch) worker');
+        deepStrictEqual(firstHelper.ppid, 200);
+        deepStrictEqual(firstHelper.pss, undefined);
+        deepStrictEqual(firstHelper.uss, undefined);
+
+        // Second sample: CPU from the tick delta since the first
+        now += 2000;
+        writeProcess(procRoot, { ...server, utime: server.utime + 80, stime: server.stime + 20 });
+        writeProcess(procRoot, { ...javaServer, pid: 300, startTime: 95000, utime: 300, stime: 0 }); // PID reused
+        fs.rmSync(path.join(procRoot, String(stray.pid)), { recursive: true });
+        const second = await sampler.sampleDescendants(host.pid);
+        deepStrictEqual(second.map(usage => usage.pid).sort(), [200, 201, 300, 400, 500]);
+        expectClose('delta CPU', second.find(usage => usage.pid === server.pid)!.cpu, 50);
+        expectClose('idle CPU', second.find(usage => usage.pid === helper.pid)!.cpu, 0);
+        expectClose('reused PID CPU', second.find(usage => usage.pid === javaServer.pid)!.cpu, 3 / (UPTIME_SECONDS - 950) * 100);
+
+        // Memory measures through collectSubprocessStats; attribution itself is checked by verifyAttribution
+        const extensions = [{ id: 'pub.a', extensionPath: '/exts/pub.a-1.0.0' }];
+        const byRss = await collectSubprocessStats(extensions, { rootPid: host.pid, procRoot, procSampler: sampler });
+        expectClose('extension memory', byRss.get('pub.a')?.totalMemory, 102);
+
+        // PSS and USS from smaps_rollup; the helper has none, so it falls back to RSS and says so
+        for (const [memoryMetric, expected] of [['pss', 50 + 2], ['uss', 21 + 2]] as const) {
+            const byMetric = await collectSubprocessStats(extensions, { rootPid: host.pid, procRoot, procSampler: sampler, memoryMetric });
+            const processes = byMetric.get('pub.a')?.processes ?? [];
+            expectClose(`${memoryMetric} extension memory`, byMetric.get('pub.a')?.totalMemory, expected);
+            deepStrictEqual(processes.map(usage => `${usage.pid} ${usage.memoryMetric}`).sort(), [`200 ${memoryMetric}`, '201 rss']);
+        }
+    } finally {
+        fs.rmSync(procRoot, { recursive: true, force: true });
+    }
+
+    process.stdout.write('OK: /proc sampler reads the process tree, CPU deltas and memory measures from a fake /proc.\n');
+}
+
+main().catch((error) => {
+    process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,232 @@
+import { deepStrictEqual } from 'assert';
+import reportSchema from '../schemas/performanceReport.schema.json';
+import { readReport } from '../services/reportImporter';
+import { REPORT_SCHEMA_VERSION, serializeReport, validateReport } from '../services/reportSchema';
+import { ExtensionMetrics, HostProcessMetrics, PerformanceReport } from '../types';
+
+const generatedAt = new Date('2024-05-01T10:00:00.000Z');
+const now = generatedAt.getTime();
+
+// Required<> makes this fail to compile when ExtensionMetrics gains a field, so the schema gets updated with it
+const fullMetric: Required<ExtensionMetrics> = {
+    id: 'publisher.busy',
+    displayName: 'Busy Extension',
+    version: '1.2.3',
+    isActive: true,
+    isBuiltin: false,
+    cpuUsage: 12.5,
+    memoryUsage: 180,
+    timestamp: now,
+    activationTime: 240,
+    activatedAt: 1500,
+    activationEvent: 'onLanguage:typescript',
+    estimatedCpuUsage: 4,
+    estimatedMemoryUsage: 60,
+    processCpuUsage: 8.5,
+    processMemoryUsage: 120,
+    subprocessCount: 2,
+    metricSource: 'measured',
+    confidence: 0.9,
+    memoryTrend: { slope: 25, rSquared: 0.95, window: 1_800_000, samples: 60, possibleLeak: true }
+};
+
+const minimalMetric: ExtensionMetrics = {
+    id: 'publisher.idle',
+    displayName: 'Idle Extension',
+    version: '0.0.1',
+    isActive: false,
+    isBuiltin: true,
+    cpuUsage: 0,
+    memoryUsage: 0,
+    timestamp: now,
+    metricSource: 'estimated',
+    confidence: 0
+};
+
+const host: HostProcessMetrics = {
+    pid: 4242,
+    timestamp: now,
+    cpuUsage: 15,
+    rss: 512,
+    heapUsed: 200,
+    heapTotal: 256,
+    external: 12,
+    arrayBuffers: 4,
+    uptime: 3600
+};
+
+function buildReport(): PerformanceReport {
+    const points = [0, 1, 2].map((index) => ({
+        timestamp: now - (3 - index) * 60_000,
+        cpuUsage: 10 + index,
+        memoryUsage: 170 + index * 5,
+        cpuPeak: 15 + index,
+        memoryPeak: 175 + index * 5,
+        samples: 12,
+        subprocessCount: 2,
+        metricSource: 'measured' as const
+    }));
+
+    return {
+        reportMetadata: {
+            schemaVersion: REPORT_SCHEMA_VERSION,
+            generatedAt: generatedAt.toISOString(),
+            vscodeVersion: '1.90.0',
+            extensionVersion: '0.0.0-test',
+            host: 'build-agent',
+            platform: 'linux',
+            arch: 'x64'
+        },
+        summary: {
+            totalExtensions: 2,
+            activeExtensions: 1,
+            totalCpuUsage: 12.5,
+            totalMemoryUsage: 180,
+            topCpuConsumers: [fullMetric],
+            topMemoryConsumers: [fullMetric],
+            excludedFromTotals: 0,
+            host,
+            eventLoop: { timestamp: now, p50: 1, p95: 8, p99: 20, max: 120, mean: 2, longTaskCount: 1 },
+            hostBudget: { cpu: 23.5, memory: 632 },
+            timestamp: now
+        },
+        hostHistory: [host],
+        currentMetrics: [fullMetric, minimalMetric],
+        historicalData: {
+            [fullMetric.id]: {
+                extensionId: fullMetric.id,
+                points,
+                averages: { cpu: 11, memory: 175 },
+                peaks: { cpu: { value: 17, timestamp: points[2].timestamp }, memory: { value: 185, timestamp: points[2].timestamp } }
+            }
+        },
+        insights: {
+            topPerformers: { cpu: [minimalMetric], memory: [minimalMetric] },
+            worstPerformers: { cpu: [fullMetric], memory: [fullMetric] },
+            recommendations: ['Consider reviewing extensions with high CPU usage: Busy Extension']
+        }
+    };
+}
+
+/**
+ * A report as written before reports carried a schema version
+ */
+function buildUnversionedReport(): unknown {
+    const legacyMetric = { id: 'publisher.old', displayName: 'Old Extension', version: '0.9.0', isActive: true, cpuUsage: 3, memoryUsage: 40, timestamp: now };
+    return {
+        reportMetadata: { generatedAt: generatedAt.toISOString(), vscodeVersion: '1.80.0', extensionVersion: '0.0.1' },
+        summary: {
+            totalExtensions: 1,
+            activeExtensions: 1,
+            totalCpuUsage: 3,
+            totalMemoryUsage: 40,
+            topCpuConsumers: [legacyMetric],
+            topMemoryConsumers: [legacyMetric],
+            timestamp: now
+        },
+        currentMetrics: [legacyMetric],
+        historicalData: {
+            [legacyMetric.id]: {
+                extensionId: legacyMetric.id,
+                metrics: [
+                    { ...legacyMetric, timestamp: now - 60_000, cpuUsage: 2 },
+                    { ...legacyMetric, timestamp: now - 30_000, cpuUsage: 4 }
+                ],
+                averages: { cpu: 3, memory: 40 },
+                peaks: { cpu: { value: 4, timestamp: now - 30_000 }, memory: { value: 40, timestamp: now - 60_000 } }
+            }
+        },
+        insights: {
+            topPerformers: { cpu: [legacyMetric], memory: [legacyMetric] },
+            worstPerformers: { cpu: [legacyMetric], memory: [legacyMetric] },
+            recommendations: []
+        }
+    };
+}
+
+function expectRejected(name: string, report: unknown, expected: string): void {
+    try {
+        readReport(JSON.stringify(report), `${name}.json`);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!message.includes(expected)) {
+            throw new Error(`${name}: expected an error mentioning "${expected}", got: ${message}`);
+        }
+        return;
+    }
+    throw new Error(`${name}: invalid report was accepted`);
+}
+
+function main(): void {
+    const schemaVersion = reportSchema.definitions.reportMetadata.properties.schemaVersion.const;
+    if (schemaVersion !== REPORT_SCHEMA_VERSION) {
+        throw new Error(`Schema file is for version ${schemaVersion}, but the exporter writes version ${REPORT_SCHEMA_VERSION}`);
+    }
+
+    // Round trip: export serialization, then read back through migration and validation
+    const report = buildReport();
+    const content = serializeReport(report);
+    const imported = readReport(content, 'round-trip.json');
+    deepStrictEqual(imported.report, JSON.parse(content));
+    deepStrictEqual(imported.sourceVersion, REPORT_SCHEMA_VERSION);
+
+    // Older reports are upgraded to the current schema
+    const upgraded = readReport(JSON.stringify(buildUnversionedReport()), 'unversioned.json');
+    deepStrictEqual(upgraded.sourceVersion, 1);
+    deepStrictEqual(upgraded.report.reportMetadata.schemaVersion, REPORT_SCHEMA_VERSION);
+    deepStrictEqual(upgraded.getExtensionHistory('publisher.old')?.points.map(point => point.cpuUsage), [2, 4]);
+    deepStrictEqual(validateReport(upgraded.report), []);
+
+    const withoutHistory = buildUnversionedReport() as Record<string, unknown>;
+    withoutHistory.historicalData = {};
+    const upgradedWithoutHistory = readReport(JSON.stringify(withoutHistory), 'unversioned-empty.json');
+    deepStrictEqual(upgradedWithoutHistory.sourceVersion, 1);
+    deepStrictEqual(upgradedWithoutHistory.report.hostHistory, []);
+    deepStrictEqual(validateReport(upgradedWithoutHistory.report), []);
+
+    // Version 2 reports differ only by history points without a metric source
+    const version2 = buildReport();
+    version2.reportMetadata.schemaVersion = 2;
+    Object.values(version2.historicalData).forEach(history => history.points.forEach(point => delete point.metricSource));
+    const upgradedFrom2 = readReport(JSON.stringify(version2), 'version-2.json');
+    deepStrictEqual(upgradedFrom2.sourceVersion, 2);
+    deepStrictEqual(validateReport(upgradedFrom2.report), []);
+
+    // Reports that do not match the schema are rejected with the offending field
+    const withExtraField = buildReport();
+    (withExtraField.currentMetrics[1] as unknown as Record<string, unknown>).gpuUsage = 5;
+    expectRejected('extra-field', withExtraField, 'currentMetrics[1] has unknown property "gpuUsage"');
+
+    const withBadSource = buildReport();
+    (withBadSource.currentMetrics[0] as unknown as Record<string, unknown>).metricSource = 'guessed';
+    expectRejected('bad-enum', withBadSource, 'currentMetrics[0].metricSource must be one of');
+
+    const withMissingField = buildReport() as unknown as Record<string, unknown>;
+    delete withMissingField.hostHistory;
+    expectRejected('missing-field', withMissingField, 'hostHistory is missing');
+
+    const fromNewerBuild = buildReport();
+    fromNewerBuild.reportMetadata.schemaVersion = REPORT_SCHEMA_VERSION + 1;
+    expectRejected('newer-version', fromNewerBuild, 'is newer than the supported version');
+
+    // Export refuses to write a report that readers would reject
+    const withNaN = buildReport();
+    withNaN.summary.totalCpuUsage = Number.NaN;
+    try {
+        serializeReport(withNaN);
+        throw new Error('Report with NaN was serialized');
+    } catch (error) {
+        if (!(error instanceof Error) || !error.message.includes('summary.totalCpuUsage is not a number')) {
+            throw error;
+        }
+    }
+
+    process.stdout.write(`OK: report schema version ${REPORT_SCHEMA_VERSION} round-trips through export and validation.\n`);
+}
+
+try {
+    main();
+} catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+    process.exitCode = 1;
+}
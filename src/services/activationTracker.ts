@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import { ActivationRecord, ActivationSession } from '../types';
+
+const SESSIONS_KEY = 'activationSessions';
+const MAX_SESSIONS = 20;
+const WILL_ACTIVATE_MARK = 'code/extHost/willActivateExtension/';
+const DID_ACTIVATE_MARK = 'code/extHost/didActivateExtension/';
+
+interface HostActivationMark {
+    startedAt: number; // epoch ms
+    finishedAt?: number; // epoch ms
+}
+
+interface PerformanceMarksApi {
+    getMarks(): { name: string; startTime: number }[];
+}
+
+/**
+ * Records when each extension becomes active in the current extension-host session
+ */
+export class ActivationTracker implements vscode.Disposable {
+    private readonly hostStartedAt = Math.round(Date.now() - process.uptime() * 1000);
+    private readonly session: ActivationSession;
+    private readonly records = new Map<string, ActivationRecord>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private lastObservedAt?: number;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.session = {
+            sessionId: `${this.hostStartedAt}-${process.pid}`,
+            startedAt: this.hostStartedAt,
+            vscodeVersion: vscode.version,
+            activations: []
+        };
+
+        this.disposables.push(vscode.extensions.onDidChange(() => this.observe()));
+        this.observe();
+    }
+
+    /**
+     * Checks for extensions that became active since the previous observation
+     */
+    observe(extensions: readonly vscode.Extension<any>[] = vscode.extensions.all): void {
+        const now = Date.now();
+        const hostMarks = readHostActivationMarks();
+        let changed = false;
+
+        for (const extension of extensions) {
+            if (!extension.isActive || this.records.has(extension.id)) {
+                continue;
+            }
+
+            const mark = hostMarks.get(extension.id.toLowerCase());
+            const observedAt = this.lastObservedAt !== undefined
+                ? Math.round((this.lastObservedAt + now) / 2)
+                : now;
+            const record: ActivationRecord = {
+                extensionId: extension.id,
+                activatedAt: (mark?.startedAt ?? observedAt) - this.hostStartedAt,
+                activationTime: mark?.finishedAt !== undefined ? mark.finishedAt - mark.startedAt : undefined,
+                activationEvent: guessActivationEvent(extension.packageJSON),
+                source: mark ? 'hostMarks' : 'observed'
+            };
+
+            this.records.set(extension.id, record);
+            changed = true;
+        }
+
+        this.lastObservedAt = now;
+
+        if (changed) {
+            this.session.activations = [...this.records.values()].sort((a, b) => a.activatedAt - b.activatedAt);
+            void this.saveSession();
+        }
+    }
+
+    /**
+     * Gets the activation record for an extension in the current session
+     */
+    getRecord(extensionId: string): ActivationRecord | undefined {
+        return this.records.get(extensionId);
+    }
+
+    /**
+     * Gets the current session
+     */
+    getCurrentSession(): ActivationSession {
+        return this.session;
+    }
+
+    /**
+     * Gets stored sessions, most recent first
+     */
+    getSessions(): ActivationSession[] {
+        return this.context.globalState.get<ActivationSession[]>(SESSIONS_KEY, []);
+    }
+
+    dispose(): void {
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+
+    private async saveSession(): Promise<void> {
+        const sessions = this.getSessions().filter(session => session.sessionId !== this.session.sessionId);
+        sessions.unshift(this.session);
+        await this.context.globalState.update(SESSIONS_KEY, sessions.slice(0, MAX_SESSIONS));
+    }
+}
+
+/**
+ * Reads the activation marks the extension host records through its performance polyfill, if present
+ */
+function readHostActivationMarks(): Map<string, HostActivationMark> {
+    const result = new Map<string, HostActivationMark>();
+    const api = (globalThis as { MonacoPerformanceMarks?: PerformanceMarksApi }).MonacoPerformanceMarks;
+    if (!api || typeof api.getMarks !== 'function') {
+        return result;
+    }
+
+    let marks: { name: string; startTime: number }[];
+    try {
+        marks = api.getMarks();
+    } catch {
+        return result;
+    }
+
+    for (const mark of marks) {
+        // Browser-style marks are relative to the time origin; the node polyfill uses epoch ms.
+        const time = mark.startTime < 1e12 ? performance.timeOrigin + mark.startTime : mark.startTime;
+        if (mark.name.startsWith(WILL_ACTIVATE_MARK)) {
+            const id = mark.name.slice(WILL_ACTIVATE_MARK.length).toLowerCase();
+            result.set(id, { ...result.get(id), startedAt: time });
+        } else if (mark.name.startsWith(DID_ACTIVATE_MARK)) {
+            const id = mark.name.slice(DID_ACTIVATE_MARK.length).toLowerCase();
+            const existing = result.get(id);
+            if (existing) {
+                existing.finishedAt = time;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Picks the activation event most likely to have activated an extension
+ */
+export function guessActivationEvent(packageJSON: { activationEvents?: string[]; contributes?: object } | undefined): string | undefined {
+    const events = packageJSON?.activationEvents ?? [];
+
+    if (events.includes('*')) {
+        return '*';
+    }
+
+    const openLanguages = new Set(vscode.workspace.textDocuments.map(document => document.languageId));
+    const languageEvent = events.find(event => event.startsWith('onLanguage:') && openLanguages.has(event.slice('onLanguage:'.length)));
+    if (languageEvent) {
+        return languageEvent;
+    }
+
+    if (vscode.workspace.workspaceFolders?.length) {
+        const workspaceEvent = events.find(event => event.startsWith('workspaceContains:'));
+        if (workspaceEvent) {
+            return workspaceEvent;
+        }
+    }
+
+    if (events.includes('onStartupFinished')) {
+        return 'onStartupFinished';
+    }
+
+    if (events.length > 0) {
+        return events[0];
+    }
+
+    // Since VS Code 1.74 activation events are generated from contributions.
+    return packageJSON?.contributes ? 'contributions' : undefined;
+}
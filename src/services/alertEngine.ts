@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import { AlertSeverity, AlertType, PerformanceAlert } from '../types';
+
+const STATE_KEY = 'alertState';
+const LOG_KEY = 'alertLog';
+const MAX_LOG_ENTRIES = 200;
+const CRITICAL_RATIO = 1.5;
+
+/**
+ * A rule that raises an alert for one metric of one extension
+ * - sustained: the value stays above `threshold` for `samples` consecutive samples
+ * - growth: the value rises by at least `threshold` within `window` ms
+ */
+export type AlertRule =
+    | { id: string; type: AlertType; kind: 'sustained'; threshold: number; samples: number }
+    | { id: string; type: AlertType; kind: 'growth'; threshold: number; window: number };
+
+/**
+ * Metric values of one extension (or the extension host) at one point in time
+ */
+export interface AlertSample {
+    extensionId: string;
+    extensionName: string;
+    timestamp: number;
+    values: Partial<Record<AlertType, number>>;
+}
+
+/**
+ * Per rule and extension state that survives reloads
+ */
+interface PersistedAlertState {
+    lastFiredAt?: number;
+    acknowledged?: boolean;
+    snoozedUntil?: number;
+}
+
+/**
+ * Per rule and extension state that only lives for the session
+ */
+interface TrackingState {
+    streak: number;
+    since: number;
+    points: { timestamp: number; value: number }[];
+}
+
+/**
+ * Evaluates alert rules against metric samples, with cooldowns, snoozing and an alert log
+ */
+export class AlertEngine {
+    private tracking = new Map<string, TrackingState>();
+    private state: Record<string, PersistedAlertState>;
+    private log: PerformanceAlert[];
+    private cooldown?: number; // From the latest evaluation; unknown until the first one
+
+    constructor(private readonly storage: vscode.Memento) {
+        this.state = storage.get<Record<string, PersistedAlertState>>(STATE_KEY, {});
+        this.log = storage.get<PerformanceAlert[]>(LOG_KEY, []);
+    }
+
+    /**
+     * Evaluates every rule for a sample and returns the alerts that should be shown
+     */
+    evaluate(sample: AlertSample, rules: readonly AlertRule[], cooldown: number): PerformanceAlert[] {
+        const alerts: PerformanceAlert[] = [];
+        this.cooldown = cooldown;
+
+        for (const rule of rules) {
+            const value = sample.values[rule.type];
+            if (value === undefined) {
+                continue;
+            }
+
+            const key = alertKey(rule.id, sample.extensionId);
+            const result = this.track(key, rule, value, sample.timestamp);
+            if (!result) {
+                // The condition cleared, so an acknowledgement no longer applies
+                if (this.state[key]?.acknowledged) {
+                    this.updateState(key, { acknowledged: false }, sample.timestamp);
+                }
+                continue;
+            }
+
+            const state = this.state[key] ?? {};
+            if (state.acknowledged || (state.snoozedUntil ?? 0) > sample.timestamp) {
+                continue;
+            }
+            if (state.lastFiredAt !== undefined && sample.timestamp - state.lastFiredAt < cooldown) {
+                continue;
+            }
+
+            const alert: PerformanceAlert = {
+                type: rule.type,
+                ruleId: rule.id,
+                severity: severityOf(result.value, rule.threshold),
+                extensionId: sample.extensionId,
+                extensionName: sample.extensionName,
+                value: result.value,
+                threshold: rule.threshold,
+                duration: result.duration,
+                timestamp: sample.timestamp
+            };
+            this.updateState(key, { lastFiredAt: sample.timestamp }, sample.timestamp);
+            this.appendLog(alert);
+            alerts.push(alert);
+        }
+
+        return alerts;
+    }
+
+    /**
+     * Suppresses an alert until its condition clears
+     */
+    acknowledge(ruleId: string, extensionId: string): void {
+        this.updateState(alertKey(ruleId, extensionId), { acknowledged: true });
+    }
+
+    /**
+     * Suppresses an alert for the given number of milliseconds
+     */
+    snooze(ruleId: string, extensionId: string, duration: number): void {
+        this.updateState(alertKey(ruleId, extensionId), { snoozedUntil: Date.now() + duration });
+    }
+
+    /**
+     * Checks if an alert is acknowledged or snoozed
+     */
+    isSuppressed(ruleId: string, extensionId: string): boolean {
+        const state = this.state[alertKey(ruleId, extensionId)];
+        return !!state && (!!state.acknowledged || (state.snoozedUntil ?? 0) > Date.now());
+    }
+
+    /**
+     * Gets past alerts, oldest first
+     */
+    getLog(): PerformanceAlert[] {
+        return [...this.log];
+    }
+
+    /**
+     * Clears the alert log; acknowledgements and snoozes are kept
+     */
+    clearLog(): void {
+        this.log = [];
+        void this.storage.update(LOG_KEY, undefined);
+    }
+
+    /**
+     * Updates tracking for one rule and returns the value and duration when the rule is met
+     */
+    private track(key: string, rule: AlertRule, value: number, timestamp: number): { value: number; duration: number } | undefined {
+        let tracking = this.tracking.get(key);
+        if (!tracking) {
+            tracking = { streak: 0, since: timestamp, points: [] };
+            this.tracking.set(key, tracking);
+        }
+
+        if (rule.kind === 'sustained') {
+            if (value <= rule.threshold) {
+                tracking.streak = 0;
+                return undefined;
+            }
+            if (tracking.streak === 0) {
+                tracking.since = timestamp;
+            }
+            tracking.streak += 1;
+            return tracking.streak >= rule.samples ? { value, duration: timestamp - tracking.since } : undefined;
+        }
+
+        tracking.points = tracking.points.filter(point => timestamp - point.timestamp <= rule.window);
+        tracking.points.push({ timestamp, value });
+        const lowest = tracking.points.reduce((min, point) => (point.value < min.value ? point : min));
+        const growth = value - lowest.value;
+        return growth >= rule.threshold ? { value: growth, duration: timestamp - lowest.timestamp } : undefined;
+    }
+
+    private updateState(key: string, update: PersistedAlertState, now = Date.now()): void {
+        this.state[key] = { ...this.state[key], ...update };
+        this.pruneState(now);
+        void this.storage.update(STATE_KEY, this.state);
+    }
+
+    /**
+     * Drops entries that no longer suppress anything, e.g. for uninstalled extensions:
+     * not acknowledged, not snoozed, and past their cooldown
+     */
+    private pruneState(now: number): void {
+        for (const [key, state] of Object.entries(this.state)) {
+            const coolingDown = state.lastFiredAt !== undefined && (this.cooldown === undefined || now - state.lastFiredAt < this.cooldown);
+            if (!state.acknowledged && (state.snoozedUntil ?? 0) <= now && !coolingDown) {
+                delete this.state[key];
+            }
+        }
+    }
+
+    private appendLog(alert: PerformanceAlert): void {
+        this.log.push(alert);
+        if (this.log.length > MAX_LOG_ENTRIES) {
+            this.log = this.log.slice(-MAX_LOG_ENTRIES);
+        }
+        void this.storage.update(LOG_KEY, this.log);
+    }
+}
+
+/**
+ * Describes an alert in one line, e.g. for notifications and the alert log
+ */
+export function describeAlert(alert: PerformanceAlert): string {
+    const sustained = alert.duration > 0 ? ` for ${formatDuration(alert.duration)}` : '';
+    switch (alert.type) {
+        case 'eventLoopLag':
+            return `Event loop lag above ${alert.threshold}ms${sustained}: ${alert.extensionName} (p99 ${alert.value.toFixed(0)}ms)`;
+        case 'memoryLeak':
+            return `Possible memory leak: ${alert.extensionName} (memory rising ${alert.value.toFixed(1)}MB/hour)`;
+        case 'memory':
+            if (alert.ruleId === 'memory.growth') {
+                return `Memory grew by ${alert.value.toFixed(0)}MB in ${formatDuration(alert.duration)}: ${alert.extensionName}`;
+            }
+            return `High memory usage${sustained}: ${alert.extensionName} (${alert.value.toFixed(1)}MB)`;
+        default:
+            return `High CPU usage${sustained}: ${alert.extensionName} (${alert.value.toFixed(1)}%)`;
+    }
+}
+
+function alertKey(ruleId: string, extensionId: string): string {
+    return `${ruleId}:${extensionId}`;
+}
+
+function severityOf(value: number, threshold: number): AlertSeverity {
+    return threshold > 0 && value >= threshold * CRITICAL_RATIO ? 'critical' : 'warning';
+}
+
+function formatDuration(ms: number): string {
+    if (ms < 60 * 1000) {
+        return `${Math.round(ms / 1000)}s`;
+    }
+    return `${Math.round(ms / 60000)} min`;
+}
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { DEFAULTS } from '../constants';
-import { ExtPerfConfig } from '../types';
+import { BuiltinExtensionMode, ExtensionOverride, ExtPerfConfig } from '../types';
 
 /**
  * Manages configuration for the extension
@@ -41,12 +41,73 @@ export class ConfigManager {
             showStatusBarItem: config.get('showStatusBarItem'),
             alertThresholds: {
                 cpu: config.get('alertThresholds.cpu', DEFAULTS.CPU_ALERT_THRESHOLD),
-                memory: config.get('alertThresholds.memory', DEFAULTS.MEMORY_ALERT_THRESHOLD)
+                memory: config.get('alertThresholds.memory', DEFAULTS.MEMORY_ALERT_THRESHOLD),
+                eventLoopLag: config.get('alertThresholds.eventLoopLag', DEFAULTS.EVENT_LOOP_LAG_ALERT_THRESHOLD)
             },
-            historyRetentionDays: config.get('historyRetentionDays')
+            alerts: {
+                sustainedSamples: config.get('alerts.sustainedSamples', DEFAULTS.ALERT_SUSTAINED_SAMPLES),
+                cooldownMinutes: config.get('alerts.cooldownMinutes', DEFAULTS.ALERT_COOLDOWN_MINUTES),
+                memoryGrowthMb: config.get('alerts.memoryGrowthMb', DEFAULTS.ALERT_MEMORY_GROWTH_MB),
+                memoryGrowthMinutes: config.get('alerts.memoryGrowthMinutes', DEFAULTS.ALERT_MEMORY_GROWTH_MINUTES)
+            },
+            builtinExtensions: config.get('builtinExtensions', DEFAULTS.BUILTIN_EXTENSIONS),
+            extensionOverrides: config.get('extensionOverrides', {}),
+            leakDetection: {
+                rateMbPerHour: config.get('leakDetection.rateMbPerHour', DEFAULTS.LEAK_RATE),
+                windowMinutes: config.get('leakDetection.windowMinutes', DEFAULTS.LEAK_WINDOW_MINUTES),
+                minRSquared: config.get('leakDetection.minRSquared', DEFAULTS.LEAK_MIN_R_SQUARED)
+            },
+            historyRetentionDays: config.get('historyRetentionDays'),
+            cpuProfileDuration: config.get('cpuProfileDuration', DEFAULTS.CPU_PROFILE_DURATION),
+            useHeapSnapshotMemory: config.get('useHeapSnapshotMemory', true),
+            memoryMetric: config.get('memoryMetric', DEFAULTS.MEMORY_METRIC),
+            metricsServer: {
+                enabled: config.get('metricsServer.enabled', false),
+                port: config.get('metricsServer.port', DEFAULTS.METRICS_SERVER_PORT)
+            },
+            scheduledReports: {
+                interval: config.get('scheduledReports.interval', 'off'),
+                onShutdown: config.get('scheduledReports.onShutdown', false),
+                format: config.get('scheduledReports.format', 'json'),
+                folder: config.get('scheduledReports.folder', ''),
+                maxFiles: config.get('scheduledReports.maxFiles', DEFAULTS.SCHEDULED_REPORTS_MAX_FILES),
+                maxAgeDays: config.get('scheduledReports.maxAgeDays', DEFAULTS.SCHEDULED_REPORTS_MAX_AGE_DAYS)
+            }
         };
     }
 
+    /**
+     * Gets all per-extension overrides, keyed by extension id or glob
+     */
+    getExtensionOverrides(): Record<string, ExtensionOverride> {
+        return this.getConfig<Record<string, ExtensionOverride>>('extensionOverrides', {});
+    }
+
+    /**
+     * Gets the effective override for an extension
+     */
+    getExtensionOverride(extensionId: string): ExtensionOverride | undefined {
+        return resolveExtensionOverride(this.getExtensionOverrides(), extensionId);
+    }
+
+    /**
+     * Sets or clears the user-level override keyed by an exact extension id
+     */
+    async setExtensionOverride(extensionId: string, override: ExtensionOverride | undefined): Promise<void> {
+        const config = vscode.workspace.getConfiguration();
+        const key = `${this.configSection}.extensionOverrides`;
+        // Only rewrite user settings so workspace overrides are not copied into them
+        const overrides = { ...config.inspect<Record<string, ExtensionOverride>>(key)?.globalValue };
+
+        if (override && Object.keys(override).length > 0) {
+            overrides[extensionId] = override;
+        } else {
+            delete overrides[extensionId];
+        }
+
+        await config.update(key, Object.keys(overrides).length > 0 ? overrides : undefined, vscode.ConfigurationTarget.Global);
+    }
+
     /**
      * Registers a configuration change listener
      * @param callback - Callback function to execute on configuration change
@@ -60,3 +121,47 @@ export class ConfigManager {
         });
     }
 }
+
+/**
+ * Checks whether `extperf.builtinExtensions` keeps an extension
+ */
+export function matchesBuiltinMode(mode: BuiltinExtensionMode, builtin: boolean): boolean {
+    return mode === 'include' || (mode === 'only' ? builtin : !builtin);
+}
+
+/**
+ * Merges every override whose key matches an extension id
+ *
+ * Keys may use `*` and `?` wildcards. More specific patterns win over broader ones and an exact id wins over all patterns.
+ */
+export function resolveExtensionOverride(
+    overrides: Record<string, ExtensionOverride>,
+    extensionId: string
+): ExtensionOverride | undefined {
+    const id = extensionId.toLowerCase();
+    const matches = Object.entries(overrides)
+        .filter(([pattern]) => pattern.toLowerCase() === id || globToRegExp(pattern).test(extensionId))
+        .sort(([a], [b]) => specificity(a, id) - specificity(b, id));
+
+    if (matches.length === 0) {
+        return undefined;
+    }
+
+    return matches.reduce<ExtensionOverride>((merged, [, override]) => ({ ...merged, ...override }), {});
+}
+
+function globToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .split('')
+        .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+        .join('');
+    return new RegExp(`^${source}$`, 'i');
+}
+
+function specificity(pattern: string, id: string): number {
+    if (pattern.toLowerCase() === id) {
+        return Number.MAX_SAFE_INTEGER;
+    }
+    // Literal characters make a pattern more specific
+    return pattern.replace(/[*?]/g, '').length;
+}
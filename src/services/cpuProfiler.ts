@@ -0,0 +1,297 @@
+import * as inspector from 'inspector';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { CpuProfileAttribution, CpuProfileSummary } from '../types';
+import { EXTENSION_HOST_ID } from '../constants';
+import { deleteFiles, rotateFiles } from './fileRotation';
+import { buildExtensionIndex, ExtensionIndexEntry, ExtensionLike, findBestMatch } from './subprocessUsage';
+
+/**
+ * V8 CPU profile as returned by `Profiler.stop` (times in microseconds)
+ */
+export interface CpuProfile {
+    nodes: CpuProfileNode[];
+    startTime: number;
+    endTime: number;
+    samples?: number[];
+    timeDeltas?: number[];
+}
+
+export interface CpuProfileNode {
+    id: number;
+    callFrame: {
+        functionName: string;
+        scriptId: string;
+        url: string;
+        lineNumber: number;
+        columnNumber: number;
+    };
+    hitCount?: number;
+    children?: number[];
+}
+
+/**
+ * A captured profile together with the wall-clock time it started at
+ */
+export interface CapturedCpuProfile {
+    profile: CpuProfile;
+    startedAt: number; // epoch ms
+}
+
+const IDLE_FUNCTION = '(idle)';
+
+/**
+ * Saved profiles kept in the profiles folder; older ones are deleted after each capture
+ */
+const MAX_SAVED_PROFILES = 10;
+const PROFILE_PATTERN = /^extension-host-.+\.cpuprofile$/;
+
+/**
+ * Captures CPU profiles of the extension host through the Node inspector
+ */
+export class CpuProfiler {
+    private running = false;
+
+    constructor(private readonly storageDir: string) {}
+
+    /**
+     * Checks if a profile is currently being captured
+     */
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Profiles the extension host for the given duration and attributes samples to extensions
+     */
+    async capture(durationMs: number, extensions: readonly ExtensionLike[]): Promise<{ summary: CpuProfileSummary; captured: CapturedCpuProfile }> {
+        if (this.running) {
+            throw new Error('A CPU profile is already being captured');
+        }
+
+        this.running = true;
+        const session = new inspector.Session();
+        session.connect();
+
+        try {
+            const startedAt = Date.now();
+            await post(session, 'Profiler.enable');
+            await post(session, 'Profiler.start');
+            await new Promise((resolve) => setTimeout(resolve, durationMs));
+            const { profile } = await post<{ profile: CpuProfile }>(session, 'Profiler.stop');
+            await post(session, 'Profiler.disable');
+
+            const profilePath = await this.saveProfile(profile, startedAt);
+            const attributions = attributeCpuProfile(profile, extensions);
+            const sampledTime = (profile.endTime - profile.startTime) / 1000;
+
+            return {
+                summary: {
+                    capturedAt: startedAt,
+                    duration: durationMs,
+                    sampledTime,
+                    profilePath,
+                    extensions: attributions
+                },
+                captured: { profile, startedAt }
+            };
+        } finally {
+            session.disconnect();
+            this.running = false;
+        }
+    }
+
+    /**
+     * Deletes every saved profile
+     * @returns Number of profiles deleted
+     */
+    async deleteSaved(): Promise<number> {
+        if (this.running) {
+            throw new Error('A CPU profile is being captured');
+        }
+        return deleteFiles(this.getDirectory(), PROFILE_PATTERN);
+    }
+
+    /**
+     * Writes the raw profile so it can be opened in DevTools, and deletes the oldest saved profiles
+     */
+    private async saveProfile(profile: CpuProfile, startedAt: number): Promise<string> {
+        const directory = this.getDirectory();
+        await fs.mkdir(directory, { recursive: true });
+        const fileName = `extension-host-${new Date(startedAt).toISOString().replace(/[:.]/g, '-')}.cpuprofile`;
+        const filePath = path.join(directory, fileName);
+        await fs.writeFile(filePath, JSON.stringify(profile), 'utf8');
+        await rotateFiles(directory, PROFILE_PATTERN, MAX_SAVED_PROFILES);
+        return filePath;
+    }
+
+    private getDirectory(): string {
+        return path.join(this.storageDir, 'profiles');
+    }
+}
+
+/**
+ * Resolves which extension owns each profile node
+ *
+ * Frames without a script URL (natives, builtins) are charged to the nearest ancestor with one,
+ * and everything that does not live under an extension path is charged to the extension host itself.
+ */
+export class CpuProfileOwnership {
+    private readonly nodesById = new Map<number, CpuProfileNode>();
+    private readonly parents = new Map<number, number>();
+    private readonly owners = new Map<number, string | undefined>();
+    private readonly index: ExtensionIndexEntry[];
+    private readonly urlMatches = new Map<string, string | undefined>();
+
+    constructor(readonly profile: CpuProfile, extensions: readonly ExtensionLike[]) {
+        this.index = buildExtensionIndex(extensions);
+        for (const node of profile.nodes) {
+            this.nodesById.set(node.id, node);
+            for (const child of node.children ?? []) {
+                this.parents.set(child, node.id);
+            }
+        }
+    }
+
+    getNode(nodeId: number): CpuProfileNode | undefined {
+        return this.nodesById.get(nodeId);
+    }
+
+    /**
+     * Gets the extension owning a node, or undefined for extension-host code
+     */
+    ownerOf(nodeId: number): string | undefined {
+        if (this.owners.has(nodeId)) {
+            return this.owners.get(nodeId);
+        }
+
+        const node = this.nodesById.get(nodeId);
+        let owner: string | undefined;
+        if (node?.callFrame.url) {
+            owner = this.matchUrl(node.callFrame.url);
+        } else {
+            const parentId = this.parents.get(nodeId);
+            owner = parentId !== undefined ? this.ownerOf(parentId) : undefined;
+        }
+
+        this.owners.set(nodeId, owner);
+        return owner;
+    }
+
+    /**
+     * Gets every extension with a frame on the stack of a node
+     */
+    extensionsOnStack(nodeId: number): Set<string> {
+        const result = new Set<string>();
+        let current: number | undefined = nodeId;
+        while (current !== undefined) {
+            const owner = this.ownerOf(current);
+            if (owner) {
+                result.add(owner);
+            }
+            current = this.parents.get(current);
+        }
+        return result;
+    }
+
+    private matchUrl(url: string): string | undefined {
+        if (this.urlMatches.has(url)) {
+            return this.urlMatches.get(url);
+        }
+
+        let scriptPath = url;
+        if (url.startsWith('file:')) {
+            try {
+                scriptPath = fileURLToPath(url);
+            } catch {
+                // Keep the raw URL
+            }
+        }
+
+        const match = findBestMatch(scriptPath, this.index)?.id;
+        this.urlMatches.set(url, match);
+        return match;
+    }
+}
+
+/**
+ * Computes per-extension self and total time (ms) from a CPU profile
+ */
+export function attributeCpuProfile(profile: CpuProfile, extensions: readonly ExtensionLike[]): CpuProfileAttribution[] {
+    const ownership = new CpuProfileOwnership(profile, extensions);
+    const names = new Map(extensions.map(extension => [extension.id, extension.packageJSON?.displayName || extension.id]));
+    const rows = new Map<string, CpuProfileAttribution>();
+    let busyTime = 0;
+
+    const getRow = (extensionId: string): CpuProfileAttribution => {
+        let row = rows.get(extensionId);
+        if (!row) {
+            row = {
+                extensionId,
+                displayName: extensionId === EXTENSION_HOST_ID ? 'Extension Host' : names.get(extensionId) ?? extensionId,
+                selfTime: 0,
+                totalTime: 0,
+                selfPercent: 0,
+                totalPercent: 0
+            };
+            rows.set(extensionId, row);
+        }
+        return row;
+    };
+
+    forEachSample(profile, (nodeId, duration) => {
+        const node = ownership.getNode(nodeId);
+        if (!node || node.callFrame.functionName === IDLE_FUNCTION) {
+            return;
+        }
+
+        busyTime += duration;
+        getRow(ownership.ownerOf(nodeId) ?? EXTENSION_HOST_ID).selfTime += duration;
+        for (const extensionId of ownership.extensionsOnStack(nodeId)) {
+            getRow(extensionId).totalTime += duration;
+        }
+    });
+
+    // Extension-host code is at the root of every stack
+    const hostRow = rows.get(EXTENSION_HOST_ID);
+    if (hostRow) {
+        hostRow.totalTime = busyTime;
+    }
+
+    for (const row of rows.values()) {
+        row.selfPercent = busyTime > 0 ? (row.selfTime / busyTime) * 100 : 0;
+        row.totalPercent = busyTime > 0 ? (row.totalTime / busyTime) * 100 : 0;
+    }
+
+    return [...rows.values()].sort((a, b) => b.selfTime - a.selfTime);
+}
+
+/**
+ * Calls back for every sample with its node and duration in ms
+ */
+export function forEachSample(profile: CpuProfile, callback: (nodeId: number, duration: number, offset: number) => void): void {
+    const samples = profile.samples ?? [];
+    const deltas = profile.timeDeltas ?? [];
+    let timestamp = profile.startTime;
+
+    for (let i = 0; i < samples.length; i += 1) {
+        timestamp += deltas[i] ?? 0;
+        // A sample lasts until the next one is taken
+        const next = i + 1 < samples.length ? timestamp + (deltas[i + 1] ?? 0) : profile.endTime;
+        const duration = Math.max(0, next - timestamp) / 1000;
+        callback(samples[i], duration, (timestamp - profile.startTime) / 1000);
+    }
+}
+
+function post<T = unknown>(session: inspector.Session, method: string, params?: object): Promise<T> {
+    return new Promise((resolve, reject) => {
+        session.post(method, params ?? {}, (error, result) => {
+            if (error) {
+                reject(error);
+                return;
+            }
+            resolve(result as T);
+        });
+    });
+}
@@ -0,0 +1,26 @@
+/**
+ * A CSV field; undefined and null are written as empty fields
+ */
+export type CsvValue = string | number | boolean | undefined | null;
+
+/**
+ * Formats a table as RFC 4180 CSV: CRLF line breaks, fields quoted when needed and embedded quotes doubled
+ */
+export function formatCsv(header: readonly string[], rows: readonly (readonly CsvValue[])[]): string {
+    return [header, ...rows].map(formatCsvRecord).join('\r\n') + '\r\n';
+}
+
+export function formatCsvRecord(fields: readonly CsvValue[]): string {
+    return fields.map(escapeCsvField).join(',');
+}
+
+/**
+ * Quotes a field if it contains a comma, quote or line break, or starts or ends with whitespace
+ */
+export function escapeCsvField(value: CsvValue): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    const text = String(value);
+    return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,154 @@
+import { IntervalHistogram, monitorEventLoopDelay } from 'perf_hooks';
+import { EventLoopMetrics, LongTask, LongTaskAttribution } from '../types';
+import { DEFAULTS } from '../constants';
+import { CapturedCpuProfile, CpuProfileOwnership, forEachSample } from './cpuProfiler';
+import { ExtensionLike } from './subprocessUsage';
+
+const NS_PER_MS = 1e6;
+const HISTOGRAM_RESOLUTION = 20; // ms
+const TICK_INTERVAL = 50; // ms
+const MAX_LONG_TASKS = 100;
+
+/**
+ * Measures event-loop delay of the extension host and records intervals where it was blocked
+ */
+export class EventLoopMonitor {
+    private histogram?: IntervalHistogram;
+    private ticker?: NodeJS.Timeout;
+    private lastTick = 0;
+    private longTasks: LongTask[] = [];
+    private longTasksSinceSample = 0;
+
+    constructor(private readonly longTaskThreshold: number = DEFAULTS.LONG_TASK_THRESHOLD) {}
+
+    /**
+     * Starts measuring; calling it again while running is a no-op
+     */
+    start(): void {
+        if (this.histogram) {
+            return;
+        }
+
+        this.histogram = monitorEventLoopDelay({ resolution: HISTOGRAM_RESOLUTION });
+        this.histogram.enable();
+
+        // A timer that fires late means something held the event loop in the meantime
+        this.lastTick = Date.now();
+        this.ticker = setInterval(() => this.tick(), TICK_INTERVAL);
+        this.ticker.unref();
+    }
+
+    /**
+     * Stops measuring
+     */
+    stop(): void {
+        this.histogram?.disable();
+        this.histogram = undefined;
+        if (this.ticker) {
+            clearInterval(this.ticker);
+            this.ticker = undefined;
+        }
+    }
+
+    /**
+     * Reads delay percentiles since the previous sample and starts a new interval
+     */
+    sample(): EventLoopMetrics | undefined {
+        if (!this.histogram) {
+            return undefined;
+        }
+
+        const histogram = this.histogram;
+        // Recorded values include the sampling timer's own interval
+        const toMs = (value: number) => (Number.isFinite(value) ? Math.max(0, value / NS_PER_MS - HISTOGRAM_RESOLUTION) : 0);
+        const metrics: EventLoopMetrics = {
+            timestamp: Date.now(),
+            p50: toMs(histogram.percentile(50)),
+            p95: toMs(histogram.percentile(95)),
+            p99: toMs(histogram.percentile(99)),
+            max: toMs(histogram.max),
+            mean: toMs(histogram.mean),
+            longTaskCount: this.longTasksSinceSample
+        };
+
+        histogram.reset();
+        this.longTasksSinceSample = 0;
+        return metrics;
+    }
+
+    /**
+     * Gets recorded long tasks, oldest first
+     */
+    getLongTasks(): LongTask[] {
+        return [...this.longTasks];
+    }
+
+    /**
+     * Attributes long tasks that happened while a CPU profile was recording
+     */
+    correlate(captured: CapturedCpuProfile, extensions: readonly ExtensionLike[]): number {
+        let correlated = 0;
+        for (const task of this.longTasks) {
+            const attributions = attributeLongTask(task, captured, extensions);
+            if (attributions) {
+                task.extensions = attributions;
+                correlated += 1;
+            }
+        }
+        return correlated;
+    }
+
+    dispose(): void {
+        this.stop();
+    }
+
+    private tick(): void {
+        const now = Date.now();
+        const blocked = now - this.lastTick - TICK_INTERVAL;
+        this.lastTick = now;
+
+        if (blocked >= this.longTaskThreshold) {
+            this.longTasks.push({ startedAt: now - blocked, duration: blocked });
+            this.longTasksSinceSample += 1;
+            if (this.longTasks.length > MAX_LONG_TASKS) {
+                this.longTasks = this.longTasks.slice(-MAX_LONG_TASKS);
+            }
+        }
+    }
+}
+
+/**
+ * Sums how long each extension was on the stack during a long task
+ *
+ * Returns undefined when the profile does not overlap the task.
+ */
+export function attributeLongTask(
+    task: LongTask,
+    captured: CapturedCpuProfile,
+    extensions: readonly ExtensionLike[]
+): LongTaskAttribution[] | undefined {
+    const { profile, startedAt } = captured;
+    const profileEnd = startedAt + (profile.endTime - profile.startTime) / 1000;
+    const taskEnd = task.startedAt + task.duration;
+    if (task.startedAt >= profileEnd || taskEnd <= startedAt) {
+        return undefined;
+    }
+
+    const ownership = new CpuProfileOwnership(profile, extensions);
+    const names = new Map(extensions.map(extension => [extension.id, extension.packageJSON?.displayName || extension.id]));
+    const times = new Map<string, number>();
+
+    forEachSample(profile, (nodeId, duration, offset) => {
+        const sampledAt = startedAt + offset;
+        if (sampledAt < task.startedAt || sampledAt >= taskEnd) {
+            return;
+        }
+        for (const extensionId of ownership.extensionsOnStack(nodeId)) {
+            times.set(extensionId, (times.get(extensionId) ?? 0) + duration);
+        }
+    });
+
+    return [...times.entries()]
+        .map(([extensionId, time]) => ({ extensionId, displayName: names.get(extensionId) ?? extensionId, time }))
+        .sort((a, b) => b.time - a.time);
+}
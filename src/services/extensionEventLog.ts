@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { ExtensionEvent } from '../types';
+
+const KNOWN_KEY = 'knownExtensions';
+const EVENTS_KEY = 'extensionEvents';
+const MAX_EVENTS = 500;
+
+/**
+ * Records when extensions are enabled or disabled, including changes made while VS Code was closed
+ */
+export class ExtensionEventLog implements vscode.Disposable {
+    private known: Set<string> | undefined;
+    private events: ExtensionEvent[];
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly storage: vscode.Memento) {
+        const known = storage.get<string[]>(KNOWN_KEY);
+        this.known = known ? new Set(known) : undefined;
+        this.events = storage.get<ExtensionEvent[]>(EVENTS_KEY, []);
+
+        this.disposables.push(vscode.extensions.onDidChange(() => this.observe()));
+        this.observe();
+    }
+
+    /**
+     * Compares the installed extensions with the previous observation and logs the differences
+     */
+    observe(extensions: readonly vscode.Extension<any>[] = vscode.extensions.all): void {
+        const timestamp = Date.now();
+        const current = new Set(extensions.map(extension => extension.id));
+
+        // The first observation has nothing to compare against
+        if (this.known) {
+            const added: ExtensionEvent[] = [...current]
+                .filter(id => !this.known!.has(id))
+                .map(extensionId => ({ extensionId, type: 'enabled', timestamp }));
+            const removed: ExtensionEvent[] = [...this.known]
+                .filter(id => !current.has(id))
+                .map(extensionId => ({ extensionId, type: 'disabled', timestamp }));
+
+            if (added.length > 0 || removed.length > 0) {
+                this.events = [...this.events, ...added, ...removed].slice(-MAX_EVENTS);
+                void this.storage.update(EVENTS_KEY, this.events);
+            }
+        }
+
+        this.known = current;
+        void this.storage.update(KNOWN_KEY, [...current]);
+    }
+
+    /**
+     * Gets events for an extension, oldest first
+     */
+    getEvents(extensionId: string, range: { start?: number; end?: number } = {}): ExtensionEvent[] {
+        return this.events.filter(event =>
+            event.extensionId === extensionId &&
+            event.timestamp >= (range.start ?? 0) &&
+            event.timestamp <= (range.end ?? Number.MAX_SAFE_INTEGER)
+        );
+    }
+
+    /**
+     * Clears logged events; the set of known extensions is kept
+     */
+    clear(): void {
+        this.events = [];
+        void this.storage.update(EVENTS_KEY, undefined);
+    }
+
+    dispose(): void {
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+}
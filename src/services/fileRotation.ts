@@ -0,0 +1,46 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Deletes the oldest files matching `pattern` beyond `maxFiles`, and those older than `maxAgeDays`
+ *
+ * Only files matching the pattern are considered, so other files in the folder are left alone.
+ * A limit of 0 turns that limit off.
+ * @returns Number of files deleted
+ */
+export async function rotateFiles(folder: string, pattern: RegExp, maxFiles: number, maxAgeDays = 0): Promise<number> {
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+
+    const names = (await fs.readdir(folder)).filter(name => pattern.test(name));
+    const files = await Promise.all(names.map(async name => {
+        const filePath = path.join(folder, name);
+        return { filePath, modified: (await fs.stat(filePath)).mtimeMs };
+    }));
+    files.sort((a, b) => b.modified - a.modified);
+
+    const expired = files.filter((file, index) => (maxFiles > 0 && index >= maxFiles) || file.modified < cutoff);
+    for (const file of expired) {
+        await fs.rm(file.filePath, { force: true });
+    }
+    return expired.length;
+}
+
+/**
+ * Deletes every file matching `pattern`; a missing folder counts as empty
+ * @returns Number of files deleted
+ */
+export async function deleteFiles(folder: string, pattern: RegExp): Promise<number> {
+    let names: string[];
+    try {
+        names = (await fs.readdir(folder)).filter(name => pattern.test(name));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return 0;
+        }
+        throw error;
+    }
+    for (const name of names) {
+        await fs.rm(path.join(folder, name), { force: true });
+    }
+    return names.length;
+}
@@ -0,0 +1,277 @@
+import { fileURLToPath } from 'url';
+import { HeapAttribution } from '../types';
+import { buildExtensionIndex, ExtensionLike, findBestMatch } from './subprocessUsage';
+
+const BYTES_PER_MB = 1024 * 1024;
+const SHARED_EDGES = new Set(['shared']);
+const SCRIPT_EDGES = new Set(['script', 'script_or_debug_info']);
+
+/**
+ * Raw `.heapsnapshot` document as written by V8
+ */
+export interface HeapSnapshotDocument {
+    snapshot: {
+        meta: {
+            node_fields: string[];
+            node_types: [string[], ...unknown[]];
+            edge_fields: string[];
+            edge_types: [string[], ...unknown[]];
+        };
+        node_count?: number;
+        edge_count?: number;
+    };
+    nodes: ArrayLike<number>;
+    edges: ArrayLike<number>;
+    strings: string[];
+}
+
+export interface HeapSnapshotAnalysis {
+    totalSize: number; // MB
+    attributedSize: number; // MB
+    nodeCount: number;
+    extensions: HeapAttribution[];
+}
+
+/**
+ * Groups retained size in a heap snapshot by the extension whose scripts created it
+ *
+ * Closures, their shared function infos and scripts are attributed to an extension when the
+ * script lives under its extension path. Retained sizes come from the dominator tree; an
+ * object only counts once, for the outermost attributed object that dominates it.
+ */
+export function analyzeHeapSnapshot(document: HeapSnapshotDocument, extensions: readonly ExtensionLike[]): HeapSnapshotAnalysis {
+    const { meta } = document.snapshot;
+    const { nodes, edges, strings } = document;
+    const nodeFieldCount = meta.node_fields.length;
+    const edgeFieldCount = meta.edge_fields.length;
+    const typeOffset = meta.node_fields.indexOf('type');
+    const nameOffset = meta.node_fields.indexOf('name');
+    const selfSizeOffset = meta.node_fields.indexOf('self_size');
+    const edgeCountOffset = meta.node_fields.indexOf('edge_count');
+    const edgeTypeOffset = meta.edge_fields.indexOf('type');
+    const edgeNameOffset = meta.edge_fields.indexOf('name_or_index');
+    const edgeToOffset = meta.edge_fields.indexOf('to_node');
+    const nodeTypes = meta.node_types[0];
+    const edgeTypes = meta.edge_types[0];
+    const closureType = nodeTypes.indexOf('closure');
+    const codeType = nodeTypes.indexOf('code');
+    const weakEdge = edgeTypes.indexOf('weak');
+    const internalEdge = edgeTypes.indexOf('internal');
+    const nodeCount = nodes.length / nodeFieldCount;
+
+    const firstEdge = new Uint32Array(nodeCount + 1);
+    for (let ordinal = 0, edgeIndex = 0; ordinal < nodeCount; ordinal += 1) {
+        firstEdge[ordinal] = edgeIndex;
+        edgeIndex += nodes[ordinal * nodeFieldCount + edgeCountOffset] * edgeFieldCount;
+        firstEdge[ordinal + 1] = edgeIndex;
+    }
+
+    const targetOf = (edgeIndex: number) => edges[edgeIndex + edgeToOffset] / nodeFieldCount;
+    const isWeak = (edgeIndex: number) => edges[edgeIndex + edgeTypeOffset] === weakEdge;
+    const internalChild = (ordinal: number, names: Set<string>): number | undefined => {
+        for (let edge = firstEdge[ordinal]; edge < firstEdge[ordinal + 1]; edge += edgeFieldCount) {
+            if (edges[edge + edgeTypeOffset] === internalEdge && names.has(strings[edges[edge + edgeNameOffset]])) {
+                return targetOf(edge);
+            }
+        }
+        return undefined;
+    };
+
+    // Owner of each node: index into the extension list, or -1
+    const index = buildExtensionIndex(extensions);
+    const owners = new Int32Array(nodeCount).fill(-1);
+    const ownerByScript = new Map<number, number>();
+    const ownerOfScript = (scriptOrdinal: number): number => {
+        const cached = ownerByScript.get(scriptOrdinal);
+        if (cached !== undefined) {
+            return cached;
+        }
+        const name = strings[nodes[scriptOrdinal * nodeFieldCount + nameOffset]] ?? '';
+        const match = name ? findBestMatch(toPath(name), index) : undefined;
+        const owner = match ? index.indexOf(match) : -1;
+        ownerByScript.set(scriptOrdinal, owner);
+        return owner;
+    };
+
+    for (let ordinal = 0; ordinal < nodeCount; ordinal += 1) {
+        if (nodes[ordinal * nodeFieldCount + typeOffset] !== closureType) {
+            continue;
+        }
+        const shared = internalChild(ordinal, SHARED_EDGES);
+        const script = shared !== undefined ? internalChild(shared, SCRIPT_EDGES) : undefined;
+        if (script === undefined || nodes[script * nodeFieldCount + typeOffset] !== codeType) {
+            continue;
+        }
+        const owner = ownerOfScript(script);
+        if (owner >= 0) {
+            owners[ordinal] = owner;
+            owners[shared!] = owner;
+            owners[script] = owner;
+        }
+    }
+
+    // Depth-first post-order numbering from the root, ignoring weak edges
+    const postOrderIndex = new Int32Array(nodeCount).fill(-1);
+    const nodeByPostOrder = new Uint32Array(nodeCount);
+    const visited = new Uint8Array(nodeCount);
+    const stackNodes = new Uint32Array(nodeCount);
+    const stackEdges = new Uint32Array(nodeCount);
+    let stackSize = 1;
+    let postOrder = 0;
+
+    stackNodes[0] = 0;
+    stackEdges[0] = firstEdge[0];
+    visited[0] = 1;
+    while (stackSize > 0) {
+        const top = stackSize - 1;
+        const ordinal = stackNodes[top];
+        const edge = stackEdges[top];
+        if (edge < firstEdge[ordinal + 1]) {
+            stackEdges[top] = edge + edgeFieldCount;
+            if (isWeak(edge)) {
+                continue;
+            }
+            const target = targetOf(edge);
+            if (!visited[target]) {
+                visited[target] = 1;
+                stackNodes[stackSize] = target;
+                stackEdges[stackSize] = firstEdge[target];
+                stackSize += 1;
+            }
+        } else {
+            postOrderIndex[ordinal] = postOrder;
+            nodeByPostOrder[postOrder] = ordinal;
+            postOrder += 1;
+            stackSize -= 1;
+        }
+    }
+
+    const reachable = postOrder;
+    const rootPostOrder = reachable - 1;
+
+    // Predecessor lists (in post-order numbering) for reachable nodes
+    const predecessorCount = new Uint32Array(reachable + 1);
+    for (let ordinal = 0; ordinal < nodeCount; ordinal += 1) {
+        if (postOrderIndex[ordinal] < 0) {
+            continue;
+        }
+        for (let edge = firstEdge[ordinal]; edge < firstEdge[ordinal + 1]; edge += edgeFieldCount) {
+            if (!isWeak(edge)) {
+                predecessorCount[postOrderIndex[targetOf(edge)] + 1] += 1;
+            }
+        }
+    }
+    for (let i = 1; i <= reachable; i += 1) {
+        predecessorCount[i] += predecessorCount[i - 1];
+    }
+    const predecessors = new Uint32Array(predecessorCount[reachable]);
+    const fill = predecessorCount.slice(0, reachable);
+    for (let ordinal = 0; ordinal < nodeCount; ordinal += 1) {
+        const from = postOrderIndex[ordinal];
+        if (from < 0) {
+            continue;
+        }
+        for (let edge = firstEdge[ordinal]; edge < firstEdge[ordinal + 1]; edge += edgeFieldCount) {
+            if (!isWeak(edge)) {
+                const to = postOrderIndex[targetOf(edge)];
+                predecessors[fill[to]] = from;
+                fill[to] += 1;
+            }
+        }
+    }
+
+    // Iterative dominator computation (Cooper, Harvey and Kennedy)
+    const UNDEFINED = 0xffffffff;
+    const dominators = new Uint32Array(reachable).fill(UNDEFINED);
+    dominators[rootPostOrder] = rootPostOrder;
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (let node = rootPostOrder - 1; node >= 0; node -= 1) {
+            let newDominator = UNDEFINED;
+            for (let p = predecessorCount[node]; p < predecessorCount[node + 1]; p += 1) {
+                const predecessor = predecessors[p];
+                if (dominators[predecessor] === UNDEFINED) {
+                    continue;
+                }
+                if (newDominator === UNDEFINED) {
+                    newDominator = predecessor;
+                    continue;
+                }
+                let a = predecessor;
+                let b = newDominator;
+                while (a !== b) {
+                    while (a < b) {
+                        a = dominators[a];
+                    }
+                    while (b < a) {
+                        b = dominators[b];
+                    }
+                }
+                newDominator = a;
+            }
+            if (newDominator !== UNDEFINED && dominators[node] !== newDominator) {
+                dominators[node] = newDominator;
+                changed = true;
+            }
+        }
+    }
+
+    // Retained sizes: dominators always have a higher post-order number than the nodes they dominate
+    const retained = new Float64Array(reachable);
+    for (let node = 0; node < reachable; node += 1) {
+        retained[node] += nodes[nodeByPostOrder[node] * nodeFieldCount + selfSizeOffset];
+        if (node !== rootPostOrder && dominators[node] !== UNDEFINED) {
+            retained[dominators[node]] += retained[node];
+        }
+    }
+
+    // Charge each extension for the outermost objects it owns in the dominator tree
+    const inheritedOwner = new Int32Array(reachable).fill(-1);
+    const retainedByExtension = new Float64Array(index.length);
+    const objectsByExtension = new Uint32Array(index.length);
+    for (let node = rootPostOrder; node >= 0; node -= 1) {
+        const dominator = dominators[node];
+        const parentOwner = node === rootPostOrder || dominator === UNDEFINED ? -1 : inheritedOwner[dominator];
+        const owner = owners[nodeByPostOrder[node]];
+        if (parentOwner >= 0) {
+            inheritedOwner[node] = parentOwner;
+        } else if (owner >= 0) {
+            inheritedOwner[node] = owner;
+            retainedByExtension[owner] += retained[node];
+            objectsByExtension[owner] += 1;
+        }
+    }
+
+    const attributions: HeapAttribution[] = [];
+    let attributedBytes = 0;
+    index.forEach((entry, i) => {
+        if (retainedByExtension[i] > 0) {
+            attributedBytes += retainedByExtension[i];
+            attributions.push({
+                extensionId: entry.id,
+                displayName: entry.name,
+                retainedSize: retainedByExtension[i] / BYTES_PER_MB,
+                objectCount: objectsByExtension[i]
+            });
+        }
+    });
+
+    return {
+        totalSize: retained[rootPostOrder] / BYTES_PER_MB,
+        attributedSize: attributedBytes / BYTES_PER_MB,
+        nodeCount,
+        extensions: attributions.sort((a, b) => b.retainedSize - a.retainedSize)
+    };
+}
+
+function toPath(scriptName: string): string {
+    if (scriptName.startsWith('file:')) {
+        try {
+            return fileURLToPath(scriptName);
+        } catch {
+            return scriptName;
+        }
+    }
+    return scriptName;
+}
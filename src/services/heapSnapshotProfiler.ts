@@ -0,0 +1,115 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as v8 from 'v8';
+import { Worker } from 'worker_threads';
+import { HeapSnapshotSummary } from '../types';
+import { HeapSnapshotAnalysis } from './heapSnapshotAnalysis';
+import { ExtensionLike } from './subprocessUsage';
+import { deleteFiles, rotateFiles } from './fileRotation';
+
+/**
+ * Saved snapshots kept in the snapshots folder; older ones are deleted after each capture
+ */
+const MAX_SAVED_SNAPSHOTS = 3;
+const SNAPSHOT_PATTERN = /^extension-host-.+\.heapsnapshot$/;
+
+/**
+ * Captures heap snapshots of the extension host and analyses them off the main thread
+ */
+export class HeapSnapshotProfiler {
+    private running = false;
+
+    constructor(private readonly storageDir: string) {}
+
+    /**
+     * Checks if a snapshot is currently being captured or analysed
+     */
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Writes a heap snapshot and groups retained size by extension
+     */
+    async capture(extensions: readonly ExtensionLike[]): Promise<HeapSnapshotSummary> {
+        if (this.running) {
+            throw new Error('A heap snapshot is already being captured');
+        }
+
+        this.running = true;
+        try {
+            const capturedAt = Date.now();
+            const directory = this.getDirectory();
+            await fs.mkdir(directory, { recursive: true });
+            const fileName = `extension-host-${new Date(capturedAt).toISOString().replace(/[:.]/g, '-')}.heapsnapshot`;
+            // Blocks the extension host while the heap is serialised
+            const snapshotPath = v8.writeHeapSnapshot(path.join(directory, fileName));
+
+            const analysis = await this.analyze(snapshotPath, extensions);
+            await rotateFiles(directory, SNAPSHOT_PATTERN, MAX_SAVED_SNAPSHOTS);
+
+            return {
+                capturedAt,
+                snapshotPath,
+                totalSize: analysis.totalSize,
+                attributedSize: analysis.attributedSize,
+                extensions: analysis.extensions
+            };
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Deletes every saved snapshot
+     * @returns Number of snapshots deleted
+     */
+    async deleteSaved(): Promise<number> {
+        if (this.running) {
+            throw new Error('A heap snapshot is being captured');
+        }
+        return deleteFiles(this.getDirectory(), SNAPSHOT_PATTERN);
+    }
+
+    private getDirectory(): string {
+        return path.join(this.storageDir, 'snapshots');
+    }
+
+    /**
+     * Parses the snapshot in a worker thread so the extension host stays responsive
+     */
+    private analyze(snapshotPath: string, extensions: readonly ExtensionLike[]): Promise<HeapSnapshotAnalysis> {
+        const workerData = {
+            snapshotPath,
+            extensions: extensions.map((extension) => ({
+                id: extension.id,
+                extensionPath: extension.extensionPath,
+                packageJSON: { displayName: extension.packageJSON?.displayName }
+            }))
+        };
+
+        return new Promise((resolve, reject) => {
+            const worker = new Worker(path.join(__dirname, '..', 'workers', 'heapSnapshotWorker.js'), { workerData });
+            let settled = false;
+
+            worker.once('message', (message: { type: string; analysis?: HeapSnapshotAnalysis; message?: string }) => {
+                settled = true;
+                if (message.type === 'result' && message.analysis) {
+                    resolve(message.analysis);
+                } else {
+                    reject(new Error(message.message || 'Heap snapshot analysis failed'));
+                }
+                void worker.terminate();
+            });
+            worker.once('error', (error) => {
+                settled = true;
+                reject(error);
+            });
+            worker.once('exit', (code) => {
+                if (!settled) {
+                    reject(new Error(`Heap snapshot worker exited with code ${code}`));
+                }
+            });
+        });
+    }
+}
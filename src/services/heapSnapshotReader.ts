@@ -0,0 +1,329 @@
+import { createReadStream } from 'fs';
+import { HeapSnapshotDocument } from './heapSnapshotAnalysis';
+
+type Mode = 'object' | 'colon' | 'value' | 'numbers' | 'strings' | 'done';
+
+/**
+ * Reads a `.heapsnapshot` file in chunks
+ *
+ * Snapshots of a large extension host exceed V8's maximum string length, so the file is never held
+ * in one string: `snapshot` is parsed as JSON on its own, `nodes` and `edges` go straight into typed
+ * arrays, `strings` is parsed one string at a time, and every other section is skipped.
+ */
+export function readHeapSnapshot(filePath: string, chunkSize = 1024 * 1024): Promise<HeapSnapshotDocument> {
+    return new Promise((resolve, reject) => {
+        const parser = new HeapSnapshotParser();
+        const stream = createReadStream(filePath, { encoding: 'utf8', highWaterMark: chunkSize });
+        stream.on('data', (chunk) => {
+            try {
+                parser.write(chunk as string);
+            } catch (error) {
+                stream.destroy();
+                reject(error);
+            }
+        });
+        stream.on('error', reject);
+        stream.on('end', () => {
+            try {
+                resolve(parser.finish());
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+/**
+ * Incremental parser for the top-level object of a heap snapshot
+ */
+export class HeapSnapshotParser {
+    private buffer = '';
+    private mode: Mode = 'object';
+    private started = false;
+    private key = '';
+
+    // Value being captured (`snapshot`) or skipped (other sections)
+    private captured: string[] = [];
+    private depth = 0;
+    private inString = false;
+    private escaped = false;
+    private valueStarted = false;
+
+    // Number array being read
+    private numbers = new Uint32Array(0);
+    private numberCount = 0;
+    private current = 0;
+    private hasDigit = false;
+    private arrayOpened = false;
+
+    // String array being read; `scanFrom` avoids rescanning a long string on every chunk
+    private scanFrom = 0;
+
+    private snapshot?: HeapSnapshotDocument['snapshot'];
+    private nodes?: Uint32Array;
+    private edges?: Uint32Array;
+    private strings: string[] = [];
+
+    /**
+     * Parses the next chunk of the file
+     * @throws Error when the file is not a heap snapshot
+     */
+    write(chunk: string): void {
+        this.buffer += chunk;
+        let position = 0;
+        while (position < this.buffer.length && this.mode !== 'done') {
+            const next = this.step(position);
+            if (next === undefined) {
+                break; // Needs more data
+            }
+            position = next;
+        }
+        this.buffer = this.buffer.slice(position);
+        if (this.mode !== 'strings') {
+            this.scanFrom = 0;
+        }
+    }
+
+    /**
+     * Returns the parsed document once the whole file has been written
+     * @throws Error when the file ended early or a section is missing
+     */
+    finish(): HeapSnapshotDocument {
+        if (this.mode !== 'done' || !this.snapshot || !this.nodes || !this.edges) {
+            throw new Error('Heap snapshot is incomplete');
+        }
+        return { snapshot: this.snapshot, nodes: this.nodes, edges: this.edges, strings: this.strings };
+    }
+
+    /**
+     * Consumes input from `position`; returns the new position, or undefined when more input is needed
+     */
+    private step(position: number): number | undefined {
+        switch (this.mode) {
+            case 'object':
+                return this.readObject(position);
+            case 'colon':
+                return this.readColon(position);
+            case 'value':
+                return this.readValue(position);
+            case 'numbers':
+                return this.readNumbers(position);
+            case 'strings':
+                return this.readStrings(position);
+            default:
+                return undefined;
+        }
+    }
+
+    private readObject(position: number): number | undefined {
+        const char = this.buffer[position];
+        if (isWhitespace(char) || char === ',') {
+            return position + 1;
+        }
+        if (!this.started) {
+            if (char !== '{') {
+                throw new Error('Heap snapshot does not start with an object');
+            }
+            this.started = true;
+            return position + 1;
+        }
+        if (char === '}') {
+            this.mode = 'done';
+            return position + 1;
+        }
+        if (char !== '"') {
+            throw new Error(`Unexpected "${char}" in heap snapshot`);
+        }
+        const end = this.buffer.indexOf('"', position + 1);
+        if (end < 0) {
+            return undefined;
+        }
+        this.key = this.buffer.slice(position + 1, end);
+        this.mode = 'colon';
+        return end + 1;
+    }
+
+    private readColon(position: number): number {
+        const char = this.buffer[position];
+        if (isWhitespace(char)) {
+            return position + 1;
+        }
+        if (char !== ':') {
+            throw new Error(`Expected ":" after "${this.key}" in heap snapshot`);
+        }
+
+        if (this.key === 'nodes' || this.key === 'edges') {
+            const meta = this.snapshot?.meta;
+            const count = this.key === 'nodes' ? this.snapshot?.node_count : this.snapshot?.edge_count;
+            const fields = this.key === 'nodes' ? meta?.node_fields.length : meta?.edge_fields.length;
+            this.numbers = new Uint32Array(count && fields ? count * fields : 1024);
+            this.numberCount = 0;
+            this.hasDigit = false;
+            this.arrayOpened = false;
+            this.mode = 'numbers';
+        } else if (this.key === 'strings') {
+            this.arrayOpened = false;
+            this.mode = 'strings';
+        } else {
+            this.captured = [];
+            this.depth = 0;
+            this.inString = false;
+            this.escaped = false;
+            this.valueStarted = false;
+            this.mode = 'value';
+        }
+        return position + 1;
+    }
+
+    /**
+     * Reads any JSON value up to the `,` or `}` that ends it; kept only for `snapshot`
+     */
+    private readValue(position: number): number {
+        const buffer = this.buffer;
+        let index = position;
+        for (; index < buffer.length; index += 1) {
+            const char = buffer[index];
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === '\\') {
+                    this.escaped = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                }
+            } else if (char === '"') {
+                this.inString = true;
+            } else if (char === '{' || char === '[') {
+                this.depth += 1;
+            } else if (char === '}' || char === ']') {
+                if (this.depth === 0) {
+                    break;
+                }
+                this.depth -= 1;
+            } else if (char === ',' && this.depth === 0) {
+                break;
+            }
+            if (!isWhitespace(char)) {
+                this.valueStarted = true;
+            }
+        }
+
+        if (this.key === 'snapshot') {
+            this.captured.push(buffer.slice(position, index));
+        }
+        if (index === buffer.length) {
+            return index;
+        }
+        if (!this.valueStarted) {
+            throw new Error(`Missing value for "${this.key}" in heap snapshot`);
+        }
+        if (this.key === 'snapshot') {
+            this.snapshot = JSON.parse(this.captured.join(''));
+            this.captured = [];
+        }
+        this.mode = 'object';
+        return index;
+    }
+
+    private readNumbers(position: number): number {
+        const buffer = this.buffer;
+        let index = position;
+        if (!this.arrayOpened) {
+            for (; index < buffer.length && isWhitespace(buffer[index]); index += 1) {
+                // Skip whitespace before the array
+            }
+            if (index === buffer.length) {
+                return index;
+            }
+            if (buffer[index] !== '[') {
+                throw new Error(`Expected an array for "${this.key}" in heap snapshot`);
+            }
+            this.arrayOpened = true;
+            index += 1;
+        }
+
+        for (; index < buffer.length; index += 1) {
+            const code = buffer.charCodeAt(index);
+            if (code >= 48 && code <= 57) {
+                this.current = this.current * 10 + (code - 48);
+                this.hasDigit = true;
+                continue;
+            }
+            if (this.hasDigit) {
+                this.pushNumber(this.current);
+                this.current = 0;
+                this.hasDigit = false;
+            }
+            const char = buffer[index];
+            if (char === ']') {
+                const values = this.numbers.subarray(0, this.numberCount);
+                if (this.key === 'nodes') {
+                    this.nodes = values;
+                } else {
+                    this.edges = values;
+                }
+                this.numbers = new Uint32Array(0);
+                this.mode = 'object';
+                return index + 1;
+            }
+            if (char !== ',' && !isWhitespace(char)) {
+                throw new Error(`Unexpected "${char}" in "${this.key}" of heap snapshot`);
+            }
+        }
+        return index;
+    }
+
+    private pushNumber(value: number): void {
+        if (this.numberCount === this.numbers.length) {
+            const grown = new Uint32Array(Math.max(1024, this.numbers.length * 2));
+            grown.set(this.numbers);
+            this.numbers = grown;
+        }
+        this.numbers[this.numberCount] = value;
+        this.numberCount += 1;
+    }
+
+    private readStrings(position: number): number | undefined {
+        const buffer = this.buffer;
+        const char = buffer[position];
+        if (!this.arrayOpened) {
+            if (isWhitespace(char)) {
+                return position + 1;
+            }
+            if (char !== '[') {
+                throw new Error('Expected an array for "strings" in heap snapshot');
+            }
+            this.arrayOpened = true;
+            return position + 1;
+        }
+        if (isWhitespace(char) || char === ',') {
+            return position + 1;
+        }
+        if (char === ']') {
+            this.mode = 'object';
+            return position + 1;
+        }
+        if (char !== '"') {
+            throw new Error(`Unexpected "${char}" in "strings" of heap snapshot`);
+        }
+
+        let index = Math.max(position + 1, position + this.scanFrom);
+        for (; index < buffer.length; index += 1) {
+            const code = buffer[index];
+            if (code === '\\') {
+                index += 1;
+            } else if (code === '"') {
+                this.strings.push(JSON.parse(buffer.slice(position, index + 1)));
+                this.scanFrom = 0;
+                return index + 1;
+            }
+        }
+        // An escape split across chunks is rescanned from its backslash
+        this.scanFrom = (index > buffer.length ? index - 2 : index) - position;
+        return undefined;
+    }
+}
+
+function isWhitespace(char: string): boolean {
+    return char === ' ' || char === '\n' || char === '\r' || char === '\t';
+}
@@ -0,0 +1,36 @@
+import { HostProcessMetrics } from '../types';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Samples CPU and memory of the extension-host process this extension runs in
+ */
+export class HostProcessSampler {
+    private lastCpuUsage = process.cpuUsage();
+    private lastSampleAt = Date.now();
+
+    /**
+     * Takes a sample; CPU is averaged over the time since the previous sample
+     */
+    sample(): HostProcessMetrics {
+        const now = Date.now();
+        const cpuDelta = process.cpuUsage(this.lastCpuUsage);
+        const elapsedMs = Math.max(1, now - this.lastSampleAt);
+        const memory = process.memoryUsage();
+
+        this.lastCpuUsage = process.cpuUsage();
+        this.lastSampleAt = now;
+
+        return {
+            pid: process.pid,
+            timestamp: now,
+            cpuUsage: ((cpuDelta.user + cpuDelta.system) / 1000 / elapsedMs) * 100,
+            rss: memory.rss / BYTES_PER_MB,
+            heapUsed: memory.heapUsed / BYTES_PER_MB,
+            heapTotal: memory.heapTotal / BYTES_PER_MB,
+            external: memory.external / BYTES_PER_MB,
+            arrayBuffers: memory.arrayBuffers / BYTES_PER_MB,
+            uptime: process.uptime()
+        };
+    }
+}
@@ -0,0 +1,401 @@
+import { ExtensionMetrics, PerformanceAlert, PerformanceReport, TimeSeriesPoint } from '../types';
+import { describeAlert } from './alertEngine';
+import { aggregate } from './timeSeriesStore';
+
+const SPARKLINE = { width: 160, height: 32, points: 60 };
+const CHART = { width: 720, height: 140, left: 48, right: 12, top: 10, bottom: 22 };
+
+/**
+ * Renders a report as a single HTML file with inline CSS and SVG, for reading offline in any browser
+ * @param alerts - Alert log to include, oldest first
+ */
+export function renderHtmlReport(report: PerformanceReport, alerts: readonly PerformanceAlert[]): string {
+    const { reportMetadata: metadata, summary } = report;
+    const generatedAt = new Date(metadata.generatedAt);
+    const origin = [metadata.host, [metadata.platform, metadata.arch].filter(Boolean).join('/')].filter(Boolean).join(' · ');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src data:;">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Extension Performance Report – ${escapeHtml(generatedAt.toLocaleString())}</title>
+    <style>
+        :root {
+            color-scheme: light dark;
+            --surface: #ffffff;
+            --surface-alt: #f4f5f7;
+            --border: #d9dce1;
+            --text: #1f2328;
+            --muted: #656d76;
+            --cpu: #2f6fde;
+            --memory: #b45ad6;
+            --warning: #b7791f;
+            --critical: #cf222e;
+        }
+
+        @media (prefers-color-scheme: dark) {
+            :root {
+                --surface: #16181c;
+                --surface-alt: #1f2228;
+                --border: #343842;
+                --text: #e6e8eb;
+                --muted: #9aa1ab;
+                --cpu: #6ea0ff;
+                --memory: #d08cf0;
+                --warning: #e3b341;
+                --critical: #ff7b72;
+            }
+        }
+
+        * {
+            box-sizing: border-box;
+        }
+
+        body {
+            margin: 0;
+            background: var(--surface);
+            color: var(--text);
+            font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif;
+        }
+
+        main {
+            max-width: 1100px;
+            margin: 0 auto;
+            padding: 32px 24px 48px;
+        }
+
+        h1 {
+            margin: 0;
+            font-size: 28px;
+        }
+
+        h2 {
+            margin: 32px 0 12px;
+            font-size: 18px;
+        }
+
+        .meta,
+        .sub,
+        .empty {
+            color: var(--muted);
+        }
+
+        .cards {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(180px, 1fr));
+            gap: 12px;
+            margin-top: 24px;
+        }
+
+        .card {
+            border: 1px solid var(--border);
+            border-radius: 10px;
+            padding: 12px 16px;
+            background: var(--surface-alt);
+        }
+
+        .card .label {
+            font-size: 11px;
+            text-transform: uppercase;
+            letter-spacing: 0.12em;
+            color: var(--muted);
+        }
+
+        .card .value {
+            font-size: 24px;
+            font-weight: 600;
+        }
+
+        .columns {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(320px, 1fr));
+            gap: 24px;
+        }
+
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+
+        th,
+        td {
+            padding: 6px 8px;
+            border-bottom: 1px solid var(--border);
+            text-align: left;
+            vertical-align: middle;
+        }
+
+        th {
+            font-size: 11px;
+            text-transform: uppercase;
+            letter-spacing: 0.1em;
+            color: var(--muted);
+        }
+
+        .numeric {
+            text-align: right;
+            font-variant-numeric: tabular-nums;
+            white-space: nowrap;
+        }
+
+        .sub {
+            font-size: 12px;
+        }
+
+        svg .cpu {
+            stroke: var(--cpu);
+        }
+
+        svg .memory {
+            stroke: var(--memory);
+        }
+
+        svg .line {
+            fill: none;
+            stroke-width: 1.5;
+        }
+
+        svg .grid {
+            stroke: var(--border);
+        }
+
+        svg text {
+            fill: var(--muted);
+            font-size: 10px;
+        }
+
+        .legend span::before {
+            content: "";
+            display: inline-block;
+            width: 10px;
+            height: 3px;
+            margin: 0 6px 3px 12px;
+            background: currentColor;
+        }
+
+        .legend .cpu {
+            color: var(--cpu);
+        }
+
+        .legend .memory {
+            color: var(--memory);
+        }
+
+        .severity-warning {
+            color: var(--warning);
+            font-weight: 600;
+        }
+
+        .severity-critical {
+            color: var(--critical);
+            font-weight: 600;
+        }
+
+        @media print {
+            main {
+                max-width: none;
+            }
+
+            tr {
+                break-inside: avoid;
+            }
+        }
+    </style>
+</head>
+<body>
+    <main>
+        <header>
+            <h1>Extension Performance Report</h1>
+            <div class="meta">Generated ${escapeHtml(generatedAt.toLocaleString())} · VS Code ${escapeHtml(metadata.vscodeVersion)} · Monitor ${escapeHtml(metadata.extensionVersion)}${origin ? ` · ${escapeHtml(origin)}` : ''}</div>
+        </header>
+
+        <section class="cards">
+${renderCards(report)}
+        </section>
+
+        <h2>Recommendations</h2>
+${report.insights.recommendations.length > 0
+        ? `        <ul>\n${report.insights.recommendations.map(text => `            <li>${escapeHtml(text)}</li>`).join('\n')}\n        </ul>`
+        : '        <p class="empty">No recommendations; nothing stood out.</p>'}
+
+        <h2>Top Consumers</h2>
+        <div class="columns">
+            <div>
+${renderConsumers('CPU', summary.topCpuConsumers, metric => `${formatNumber(metric.cpuUsage)}%`)}
+            </div>
+            <div>
+${renderConsumers('Memory', summary.topMemoryConsumers, metric => `${formatNumber(metric.memoryUsage, 0)} MB`)}
+            </div>
+        </div>
+
+${renderHostSection(report)}
+
+        <h2>Extensions</h2>
+        <div class="legend sub">History<span class="cpu">CPU</span><span class="memory">Memory</span></div>
+${renderExtensions(report)}
+
+        <h2>Alert Log</h2>
+${renderAlerts(alerts)}
+    </main>
+</body>
+</html>
+`;
+}
+
+function renderCards(report: PerformanceReport): string {
+    const { summary } = report;
+    const cards: [string, string, string?][] = [
+        ['Extensions', `${summary.activeExtensions} / ${summary.totalExtensions}`, 'active / monitored'],
+        ['Extension CPU', `${formatNumber(summary.totalCpuUsage)}%`],
+        ['Extension Memory', `${formatNumber(summary.totalMemoryUsage, 0)} MB`]
+    ];
+    if (summary.host) {
+        cards.push(['Extension Host', `${formatNumber(summary.host.cpuUsage)}%`, `RSS ${formatNumber(summary.host.rss, 0)} MB`]);
+    }
+    if (summary.eventLoop) {
+        cards.push(['Event Loop p99', `${formatNumber(summary.eventLoop.p99, 0)} ms`, `${summary.eventLoop.longTaskCount} long tasks`]);
+    }
+    if (summary.excludedFromTotals > 0) {
+        cards.push(['Excluded', String(summary.excludedFromTotals), 'left out of totals by overrides']);
+    }
+
+    return cards.map(([label, value, detail]) => [
+        '            <div class="card">',
+        `                <div class="label">${escapeHtml(label)}</div>`,
+        `                <div class="value">${escapeHtml(value)}</div>`,
+        detail ? `                <div class="sub">${escapeHtml(detail)}</div>` : '',
+        '            </div>'
+    ].filter(Boolean).join('\n')).join('\n');
+}
+
+function renderConsumers(title: string, metrics: readonly ExtensionMetrics[], format: (metric: ExtensionMetrics) => string): string {
+    if (metrics.length === 0) {
+        return `                <p class="empty">No ${title.toLowerCase()} data.</p>`;
+    }
+    return [
+        '                <table>',
+        `                    <tr><th>${escapeHtml(title)}</th><th class="numeric">Usage</th></tr>`,
+        ...metrics.map(metric => `                    <tr><td>${escapeHtml(metric.displayName)}<div class="sub">${escapeHtml(metric.id)}</div></td><td class="numeric">${escapeHtml(format(metric))}</td></tr>`),
+        '                </table>'
+    ].join('\n');
+}
+
+function renderHostSection(report: PerformanceReport): string {
+    const samples = report.hostHistory;
+    if (samples.length < 2) {
+        return '';
+    }
+    const start = samples[0].timestamp;
+    const end = samples[samples.length - 1].timestamp;
+    return [
+        '        <h2>Extension Host</h2>',
+        '        <div class="columns">',
+        `            <div><div class="sub">CPU (%)</div>${renderChart(samples.map(sample => [sample.timestamp, sample.cpuUsage]), start, end, 'cpu', '%')}</div>`,
+        `            <div><div class="sub">RSS (MB)</div>${renderChart(samples.map(sample => [sample.timestamp, sample.rss]), start, end, 'memory', ' MB')}</div>`,
+        '        </div>'
+    ].join('\n');
+}
+
+function renderExtensions(report: PerformanceReport): string {
+    if (report.currentMetrics.length === 0) {
+        return '        <p class="empty">No extensions were monitored.</p>';
+    }
+    const rows = report.currentMetrics.map(metric => {
+        const history = report.historicalData[metric.id];
+        const points = downsample(history?.points ?? []);
+        return [
+            '            <tr>',
+            `                <td>${escapeHtml(metric.displayName)}<div class="sub">${escapeHtml(metric.id)} · ${escapeHtml(metric.version)}${metric.isActive ? '' : ' · inactive'}</div></td>`,
+            `                <td class="numeric">${formatNumber(metric.cpuUsage)}%<div class="sub">avg ${history ? formatNumber(history.averages.cpu) : 'n/a'} · peak ${history ? formatNumber(history.peaks.cpu.value) : 'n/a'}</div></td>`,
+            `                <td class="numeric">${formatNumber(metric.memoryUsage, 0)} MB<div class="sub">avg ${history ? formatNumber(history.averages.memory, 0) : 'n/a'} · peak ${history ? formatNumber(history.peaks.memory.value, 0) : 'n/a'}</div></td>`,
+            `                <td>${escapeHtml(metric.metricSource)}<div class="sub">${formatNumber(metric.confidence * 100, 0)}% confidence</div></td>`,
+            `                <td>${renderSparkline(points.map(point => point.cpuUsage), 'cpu')}${renderSparkline(points.map(point => point.memoryUsage), 'memory')}</td>`,
+            '            </tr>'
+        ].join('\n');
+    });
+
+    return [
+        '        <table>',
+        '            <tr><th>Extension</th><th class="numeric">CPU</th><th class="numeric">Memory</th><th>Source</th><th>History</th></tr>',
+        ...rows,
+        '        </table>'
+    ].join('\n');
+}
+
+function renderAlerts(alerts: readonly PerformanceAlert[]): string {
+    if (alerts.length === 0) {
+        return '        <p class="empty">No alerts were raised.</p>';
+    }
+    const rows = [...alerts].reverse().map(alert => [
+        '            <tr>',
+        `                <td class="numeric">${escapeHtml(new Date(alert.timestamp).toLocaleString())}</td>`,
+        `                <td class="severity-${alert.severity}">${alert.severity === 'critical' ? 'Critical' : 'Warning'}</td>`,
+        `                <td>${escapeHtml(describeAlert(alert))}<div class="sub">${escapeHtml(alert.extensionId)} · ${escapeHtml(alert.ruleId)}</div></td>`,
+        '            </tr>'
+    ].join('\n'));
+
+    return [
+        '        <table>',
+        '            <tr><th class="numeric">Time</th><th>Severity</th><th>Alert</th></tr>',
+        ...rows,
+        '        </table>'
+    ].join('\n');
+}
+
+function renderSparkline(values: readonly number[], className: string): string {
+    const { width, height } = SPARKLINE;
+    if (values.length < 2) {
+        return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="No history"></svg>`;
+    }
+    const max = Math.max(...values) || 1;
+    const path = values
+        .map((value, index) => `${((index / (values.length - 1)) * width).toFixed(1)},${(height - 2 - (value / max) * (height - 4)).toFixed(1)}`)
+        .join(' ');
+    return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${className} history"><polyline class="line ${className}" points="${path}"/></svg>`;
+}
+
+function renderChart(values: readonly [number, number][], start: number, end: number, className: string, unit: string): string {
+    const { width, height, left, right, top, bottom } = CHART;
+    const max = Math.max(...values.map(([, value]) => value)) || 1;
+    const x = (timestamp: number) => left + ((timestamp - start) / Math.max(end - start, 1)) * (width - left - right);
+    const y = (value: number) => top + (1 - value / max) * (height - top - bottom);
+    const path = values.map(([timestamp, value]) => `${x(timestamp).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+
+    return [
+        `<svg width="100%" viewBox="0 0 ${width} ${height}" role="img" aria-label="${className} over time">`,
+        `<line class="grid" x1="${left}" x2="${width - right}" y1="${y(max)}" y2="${y(max)}"/>`,
+        `<line class="grid" x1="${left}" x2="${width - right}" y1="${y(0)}" y2="${y(0)}"/>`,
+        `<text x="${left - 4}" y="${y(max) + 4}" text-anchor="end">${formatNumber(max, max < 10 ? 1 : 0)}${escapeHtml(unit)}</text>`,
+        `<text x="${left - 4}" y="${y(0) + 4}" text-anchor="end">0</text>`,
+        `<text x="${left}" y="${height - 6}">${escapeHtml(new Date(start).toLocaleTimeString())}</text>`,
+        `<text x="${width - right}" y="${height - 6}" text-anchor="end">${escapeHtml(new Date(end).toLocaleTimeString())}</text>`,
+        `<polyline class="line ${className}" points="${path}"/>`,
+        '</svg>'
+    ].join('');
+}
+
+/**
+ * Reduces a history to about as many points as a sparkline can show
+ */
+function downsample(points: readonly TimeSeriesPoint[]): TimeSeriesPoint[] {
+    if (points.length <= SPARKLINE.points) {
+        return [...points];
+    }
+    const span = points[points.length - 1].timestamp - points[0].timestamp;
+    return aggregate(points, Math.max(1, Math.ceil(span / SPARKLINE.points)));
+}
+
+function formatNumber(value: number, digits = 1): string {
+    return Number.isFinite(value) ? value.toFixed(digits) : 'n/a';
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,88 @@
+import { MemoryTrend } from '../types';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MAX_POINTS = 60;
+const MIN_POINTS = 10;
+
+/**
+ * Thresholds for flagging a memory trend as a possible leak
+ */
+export interface LeakDetectionOptions {
+    rate: number; // MB/hour
+    window: number; // ms
+    minRSquared: number;
+}
+
+/**
+ * Fits a robust trend line to memory samples in the window and flags steady growth
+ *
+ * The slope is the Theil–Sen estimator (median of pairwise slopes), so a single spike does not
+ * read as growth. The fit is only trusted once the samples cover at least half the window.
+ */
+export function analyzeMemoryTrend(
+    samples: readonly { timestamp: number; memoryUsage: number }[],
+    options: LeakDetectionOptions,
+    now: number = Date.now()
+): MemoryTrend | undefined {
+    const inWindow = samples.filter(sample => now - sample.timestamp <= options.window);
+    if (inWindow.length < MIN_POINTS) {
+        return undefined;
+    }
+
+    const span = inWindow[inWindow.length - 1].timestamp - inWindow[0].timestamp;
+    if (span < options.window / 2) {
+        return undefined;
+    }
+
+    const points = downsample(inWindow, MAX_POINTS).map(sample => ({
+        x: (sample.timestamp - inWindow[0].timestamp) / MS_PER_HOUR,
+        y: sample.memoryUsage
+    }));
+
+    const slopes: number[] = [];
+    for (let i = 0; i < points.length; i += 1) {
+        for (let j = i + 1; j < points.length; j += 1) {
+            const dx = points[j].x - points[i].x;
+            if (dx > 0) {
+                slopes.push((points[j].y - points[i].y) / dx);
+            }
+        }
+    }
+    if (slopes.length === 0) {
+        return undefined;
+    }
+
+    const slope = median(slopes);
+    const intercept = median(points.map(point => point.y - slope * point.x));
+    const mean = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+    let residual = 0;
+    let total = 0;
+    for (const point of points) {
+        residual += (point.y - (intercept + slope * point.x)) ** 2;
+        total += (point.y - mean) ** 2;
+    }
+    // A flat series has nothing to explain; treat it as a perfect fit of a zero slope
+    const rSquared = total > 0 ? Math.max(0, 1 - residual / total) : 1;
+
+    return {
+        slope,
+        rSquared,
+        window: span,
+        samples: inWindow.length,
+        possibleLeak: slope >= options.rate && rSquared >= options.minRSquared
+    };
+}
+
+function downsample<T>(items: readonly T[], count: number): T[] {
+    if (items.length <= count) {
+        return [...items];
+    }
+    const step = (items.length - 1) / (count - 1);
+    return Array.from({ length: count }, (_, i) => items[Math.round(i * step)]);
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -0,0 +1,197 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AlertSeverity, AlertType, ExtensionMetrics, PerformanceSummary } from '../types';
+
+/**
+ * Number of alerts raised of one type and severity
+ */
+export interface AlertCount {
+    type: AlertType;
+    severity: AlertSeverity;
+    count: number;
+}
+
+export interface MetricsServerSource {
+    getCurrentMetrics(): ExtensionMetrics[];
+    getPerformanceSummary(): PerformanceSummary;
+    getAlertCounts(): AlertCount[];
+}
+
+const CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Serves current metrics at `/metrics` in the OpenMetrics text format, on 127.0.0.1 only
+ */
+export class MetricsServer {
+    private server?: http.Server;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly source: MetricsServerSource) {}
+
+    /**
+     * Port the server is listening on, or undefined when stopped
+     */
+    get port(): number | undefined {
+        const address = this.server?.address();
+        return address && typeof address === 'object' ? (address as AddressInfo).port : undefined;
+    }
+
+    /**
+     * Starts listening, restarting first when already listening on another port
+     * @throws Error when the port cannot be bound, e.g. because it is in use
+     */
+    start(port: number): Promise<void> {
+        return this.enqueue(() => this.listen(port));
+    }
+
+    /**
+     * Stops listening and closes open connections
+     * @returns Whether a server was running
+     */
+    stop(): Promise<boolean> {
+        return this.enqueue(() => this.close());
+    }
+
+    /**
+     * Runs starts and stops one at a time, so overlapping calls cannot bind the same port twice
+     */
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async listen(port: number): Promise<void> {
+        if (this.server && this.port === port) {
+            return;
+        }
+        await this.close();
+
+        const server = http.createServer((request, response) => this.handle(request, response));
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+    }
+
+    private async close(): Promise<boolean> {
+        const server = this.server;
+        if (!server) {
+            return false;
+        }
+        this.server = undefined;
+        await new Promise<void>((resolve) => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+        return true;
+    }
+
+    private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+        const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+        if (url.pathname !== '/metrics') {
+            response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Not found\n');
+            return;
+        }
+        if (request.method !== 'GET' && request.method !== 'HEAD') {
+            response.writeHead(405, { 'Allow': 'GET, HEAD', 'Content-Type': 'text/plain; charset=utf-8' }).end('Method not allowed\n');
+            return;
+        }
+
+        try {
+            const body = formatOpenMetrics(this.source);
+            response.writeHead(200, { 'Content-Type': CONTENT_TYPE, 'Cache-Control': 'no-store' });
+            response.end(request.method === 'HEAD' ? undefined : body);
+        } catch (error) {
+            response.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' }).end(`${error}\n`);
+        }
+    }
+}
+
+/**
+ * Formats current metrics in the OpenMetrics text format
+ */
+export function formatOpenMetrics(source: MetricsServerSource): string {
+    const lines: string[] = [];
+    const family = (name: string, type: 'gauge' | 'counter', help: string, unit?: string) => {
+        lines.push(`# TYPE ${name} ${type}`);
+        if (unit) {
+            lines.push(`# UNIT ${name} ${unit}`);
+        }
+        lines.push(`# HELP ${name} ${help}`);
+    };
+    const sample = (name: string, labels: Record<string, string>, value: number) => {
+        const pairs = Object.entries(labels).map(([key, label]) => `${key}="${escapeLabel(label)}"`);
+        lines.push(`${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`);
+    };
+
+    const metrics = source.getCurrentMetrics();
+    const labelsOf = (metric: ExtensionMetrics) => ({ extension_id: metric.id, source: metric.metricSource });
+
+    family('extperf_extension_cpu_percent', 'gauge', 'CPU usage of the extension, percent of one core.', 'percent');
+    metrics.forEach(metric => sample('extperf_extension_cpu_percent', labelsOf(metric), metric.cpuUsage));
+
+    family('extperf_extension_memory_bytes', 'gauge', 'Memory used by the extension.', 'bytes');
+    metrics.forEach(metric => sample('extperf_extension_memory_bytes', labelsOf(metric), metric.memoryUsage * BYTES_PER_MB));
+
+    family('extperf_extension_subprocesses', 'gauge', 'Running subprocesses started by the extension.');
+    metrics.forEach(metric => sample('extperf_extension_subprocesses', labelsOf(metric), metric.subprocessCount ?? 0));
+
+    const summary = source.getPerformanceSummary();
+
+    family('extperf_extensions', 'gauge', 'Monitored extensions.');
+    sample('extperf_extensions', { state: 'active' }, summary.activeExtensions);
+    sample('extperf_extensions', { state: 'inactive' }, summary.totalExtensions - summary.activeExtensions);
+
+    family('extperf_extensions_cpu_percent', 'gauge', 'CPU usage of all extensions counted in totals.', 'percent');
+    sample('extperf_extensions_cpu_percent', {}, summary.totalCpuUsage);
+
+    family('extperf_extensions_memory_bytes', 'gauge', 'Memory used by all extensions counted in totals.', 'bytes');
+    sample('extperf_extensions_memory_bytes', {}, summary.totalMemoryUsage * BYTES_PER_MB);
+
+    if (summary.host) {
+        family('extperf_host_cpu_percent', 'gauge', 'CPU usage of the extension-host process.', 'percent');
+        sample('extperf_host_cpu_percent', {}, summary.host.cpuUsage);
+
+        family('extperf_host_memory_bytes', 'gauge', 'Memory of the extension-host process.', 'bytes');
+        sample('extperf_host_memory_bytes', { kind: 'rss' }, summary.host.rss * BYTES_PER_MB);
+        sample('extperf_host_memory_bytes', { kind: 'heap_used' }, summary.host.heapUsed * BYTES_PER_MB);
+        sample('extperf_host_memory_bytes', { kind: 'heap_total' }, summary.host.heapTotal * BYTES_PER_MB);
+        sample('extperf_host_memory_bytes', { kind: 'external' }, summary.host.external * BYTES_PER_MB);
+    }
+
+    if (summary.hostBudget) {
+        family('extperf_host_budget_cpu_percent', 'gauge', 'CPU usage of the extension host plus extension subprocesses.', 'percent');
+        sample('extperf_host_budget_cpu_percent', {}, summary.hostBudget.cpu);
+
+        family('extperf_host_budget_memory_bytes', 'gauge', 'Memory of the extension host plus extension subprocesses.', 'bytes');
+        sample('extperf_host_budget_memory_bytes', {}, summary.hostBudget.memory * BYTES_PER_MB);
+    }
+
+    family('extperf_alerts', 'counter', 'Alerts raised since the extension host started.');
+    for (const entry of source.getAlertCounts()) {
+        sample('extperf_alerts_total', { type: entry.type, severity: entry.severity }, entry.count);
+    }
+
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) {
+        return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+        return value > 0 ? '+Inf' : '-Inf';
+    }
+    return String(Math.round(value * 1000) / 1000);
+}
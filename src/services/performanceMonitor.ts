@@ -1,21 +1,61 @@
 import * as vscode from 'vscode';
-import { ExtensionMetrics, PerformanceHistory, PerformanceSummary, PerformanceAlert } from '../types';
-import { ConfigManager } from './configManager';
-import { DEFAULTS } from '../constants';
+import * as path from 'path';
+import { ActivationSession, BuiltinExtensionMode, CpuProfileSummary, EventLoopMetrics, ExtensionEvent, ExtensionMetrics, ExtensionOverride, HeapSnapshotSummary, HostProcessMetrics, LongTask, PerformanceHistory, PerformanceSummary, PerformanceAlert, MemoryMetric, StartupReport } from '../types';
+import { ConfigManager, matchesBuiltinMode, resolveExtensionOverride } from './configManager';
+import { DEFAULTS, EXTENSION_HOST_ID } from '../constants';
 import { collectSubprocessStats, ExtensionSubprocessStats } from './subprocessUsage';
+import { HeapSnapshotAttributor, measuredSubprocessUsage, UsageAttributionModel } from './usageAttribution';
+import { ActivationTracker } from './activationTracker';
+import { StartupRecorder } from './startupRecorder';
+import { HostProcessSampler } from './hostProcessSampler';
+import { CpuProfiler } from './cpuProfiler';
+import { HeapSnapshotProfiler } from './heapSnapshotProfiler';
+import { EventLoopMonitor } from './eventLoopMonitor';
+import { AlertEngine, AlertRule, AlertSample, describeAlert } from './alertEngine';
+import { analyzeMemoryTrend, LeakDetectionOptions } from './leakDetector';
+import { summarizeHistory, TimeSeriesStore } from './timeSeriesStore';
+import { ExtensionEventLog } from './extensionEventLog';
+import { AlertCount, MetricsServer } from './metricsServer';
+
+const HISTORY_FLUSH_INTERVAL = 30 * 1000;
 
 /**
  * Main service for monitoring extension performance
  */
 export class PerformanceMonitor {
     private monitoringInterval?: NodeJS.Timeout;
-    private performanceHistory = new Map<string, PerformanceHistory>();
+    private historyStore: TimeSeriesStore;
+    private historyLoaded: Promise<void>;
     private currentMetrics: ExtensionMetrics[] = [];
     private isMonitoringActive = false;
     private outputChannel: vscode.OutputChannel;
     private onMetricsUpdated = new vscode.EventEmitter<ExtensionMetrics[]>();
     public readonly onDidUpdateMetrics = this.onMetricsUpdated.event;
     private subprocessStats = new Map<string, ExtensionSubprocessStats>();
+    private attributionModel = new UsageAttributionModel();
+    private activationTracker: ActivationTracker;
+    private startupRecorder: StartupRecorder;
+    public readonly onDidChangeStartupReports: vscode.Event<void>;
+    private hostSampler = new HostProcessSampler();
+    private hostMetrics?: HostProcessMetrics;
+    private hostHistory: HostProcessMetrics[] = [];
+    private cpuProfiler: CpuProfiler;
+    private latestCpuProfile?: CpuProfileSummary;
+    private onCpuProfileCaptured = new vscode.EventEmitter<CpuProfileSummary>();
+    public readonly onDidCaptureCpuProfile = this.onCpuProfileCaptured.event;
+    private heapSnapshotProfiler: HeapSnapshotProfiler;
+    private heapSnapshotAttributor = new HeapSnapshotAttributor();
+    private latestHeapSnapshot?: HeapSnapshotSummary;
+    private onHeapSnapshotCaptured = new vscode.EventEmitter<HeapSnapshotSummary>();
+    public readonly onDidCaptureHeapSnapshot = this.onHeapSnapshotCaptured.event;
+    private eventLoopMonitor = new EventLoopMonitor();
+    private eventLoopMetrics?: EventLoopMetrics;
+    private alertEngine: AlertEngine;
+    private onAlertsChanged = new vscode.EventEmitter<void>();
+    public readonly onDidChangeAlerts = this.onAlertsChanged.event;
+    private extensionEventLog: ExtensionEventLog;
+    private alertCounts = new Map<string, AlertCount>();
+    private metricsServer = new MetricsServer(this);
 
     constructor(
         private context: vscode.ExtensionContext,
@@ -24,12 +64,48 @@ export class PerformanceMonitor {
         this.outputChannel = vscode.window.createOutputChannel('Extension Performance Monitor');
         this.context.subscriptions.push(this.outputChannel);
         this.context.subscriptions.push(this.onMetricsUpdated);
+        this.activationTracker = new ActivationTracker(context);
+        this.context.subscriptions.push(this.activationTracker);
+        this.startupRecorder = new StartupRecorder(context.globalState);
+        this.context.subscriptions.push(this.startupRecorder);
+        this.onDidChangeStartupReports = this.startupRecorder.onDidChangeReports;
+        this.startupRecorder.record(
+            this.activationTracker.getCurrentSession(),
+            vscode.extensions.all.map(extension => extension.id),
+            vscode.extensions.all.filter(isBuiltinExtension).map(extension => extension.id)
+        );
+        this.context.subscriptions.push(this.onCpuProfileCaptured);
+        this.cpuProfiler = new CpuProfiler(context.globalStorageUri.fsPath);
+        this.context.subscriptions.push(this.onHeapSnapshotCaptured);
+        this.heapSnapshotProfiler = new HeapSnapshotProfiler(context.globalStorageUri.fsPath);
+        this.attributionModel.use(this.heapSnapshotAttributor);
+        this.historyStore = new TimeSeriesStore(
+            path.join(context.globalStorageUri.fsPath, 'history'),
+            () => this.configManager.getConfig<number>('historyRetentionDays', DEFAULTS.HISTORY_RETENTION_DAYS) * 24 * 60 * 60 * 1000
+        );
+        this.context.subscriptions.push(this.eventLoopMonitor);
+        this.alertEngine = new AlertEngine(context.globalState);
+        this.context.subscriptions.push(this.onAlertsChanged);
+        this.extensionEventLog = new ExtensionEventLog(context.globalState);
+        this.context.subscriptions.push(this.extensionEventLog);
+        this.context.subscriptions.push(this.configManager.onConfigurationChanged(e => {
+            if (e.affectsConfiguration('extperf.metricsServer')) {
+                void this.updateMetricsServer();
+            }
+            if (e.affectsConfiguration('extperf.useHeapSnapshotMemory')) {
+                this.applyHeapSnapshotMemory();
+            }
+            if ((e.affectsConfiguration('extperf.memoryMetric') || e.affectsConfiguration('extperf.useHeapSnapshotMemory')) && this.isMonitoringActive) {
+                void this.collectMetrics().catch(error => this.outputChannel.appendLine(`Error collecting metrics: ${error}`));
+            }
+        }));
+        this.context.subscriptions.push({ dispose: () => void this.metricsServer.stop() });
         
-        // Load historical data
-        this.loadHistoricalData();
+        // Load historical data; collection waits for it so nothing is appended before recovery finishes
+        this.historyLoaded = this.loadHistoricalData();
         
-        // Clean up old data periodically
-        this.scheduleDataCleanup();
+        // Write history in batches; rollups and expiry happen as part of each flush
+        this.scheduleHistoryFlush();
     }
 
     /**
@@ -44,9 +120,11 @@ export class PerformanceMonitor {
         const interval = this.configManager.getConfig<number>('monitoringInterval', DEFAULTS.MONITORING_INTERVAL);
         
         this.outputChannel.appendLine(`Starting performance monitoring (interval: ${interval}ms)`);
+        this.eventLoopMonitor.start();
         
         // Initial collection
         await this.collectMetrics();
+        await this.updateMetricsServer();
         
         // Set up periodic collection
         this.monitoringInterval = setInterval(async () => {
@@ -66,10 +144,20 @@ export class PerformanceMonitor {
             clearInterval(this.monitoringInterval);
             this.monitoringInterval = undefined;
         }
+        this.eventLoopMonitor.stop();
+        this.eventLoopMetrics = undefined;
         this.isMonitoringActive = false;
+        void this.updateMetricsServer();
         this.outputChannel.appendLine('Performance monitoring stopped');
     }
 
+    /**
+     * Writes a line to the output channel
+     */
+    log(message: string): void {
+        this.outputChannel.appendLine(message);
+    }
+
     /**
      * Checks if monitoring is currently active
      */
@@ -81,64 +169,116 @@ export class PerformanceMonitor {
      * Collects current performance metrics for all extensions
      */
     async collectMetrics(): Promise<ExtensionMetrics[]> {
+        await this.historyLoaded;
         const extensions = vscode.extensions.all;
         const metrics: ExtensionMetrics[] = [];
         const timestamp = Date.now();
         let subprocessStats = new Map<string, ExtensionSubprocessStats>();
 
         try {
-            subprocessStats = await collectSubprocessStats(extensions);
+            subprocessStats = await collectSubprocessStats(extensions, { memoryMetric: this.getMemoryMetric() });
         } catch (error) {
             this.outputChannel.appendLine(`Error collecting subprocess stats: ${error}`);
         }
 
         this.subprocessStats = subprocessStats;
 
-        for (const extension of extensions) {
-            // Skip built-in VS Code extensions for cleaner output
-            if (extension.id.startsWith('vscode.')) {
-                continue;
-            }
+        const hostMetrics = this.hostSampler.sample();
+        this.hostMetrics = hostMetrics;
+        this.updateHostHistory(hostMetrics);
+        this.historyStore.append(EXTENSION_HOST_ID, {
+            timestamp: hostMetrics.timestamp,
+            cpuUsage: hostMetrics.cpuUsage,
+            memoryUsage: hostMetrics.rss,
+            metricSource: 'measured'
+        });
+
+        this.eventLoopMetrics = this.eventLoopMonitor.sample();
+        const alertRules = this.getAlertRules();
+        const overrides = this.configManager.getExtensionOverrides();
+        const leakOptions = this.getLeakDetectionOptions();
+        if (this.eventLoopMetrics) {
+            this.checkAlerts({
+                extensionId: EXTENSION_HOST_ID,
+                extensionName: 'Extension Host',
+                timestamp: this.eventLoopMetrics.timestamp,
+                values: { eventLoopLag: this.eventLoopMetrics.p99 }
+            }, alertRules);
+        }
 
+        const monitoredExtensions = this.filterMonitoredExtensions(extensions);
+        this.attributionModel.beginSample(monitoredExtensions, hostMetrics);
+        this.activationTracker.observe(extensions);
+
+        for (const extension of monitoredExtensions) {
             try {
                 const subprocessInfo = subprocessStats.get(extension.id);
-                const estimatedCpu = await this.estimateCpuUsage(extension);
-                const estimatedMemory = await this.estimateMemoryUsage(extension);
+                const inHostUsage = this.attributionModel.attribute(extension);
                 const processCpu = subprocessInfo?.totalCpu ?? 0;
                 const processMemory = subprocessInfo?.totalMemory ?? 0;
                 const subprocessCount = subprocessInfo?.processCount ?? 0;
-                const useProcessUsage = subprocessCount > 0;
+                const usage = subprocessInfo && subprocessCount > 0
+                    ? measuredSubprocessUsage(subprocessInfo)
+                    : inHostUsage;
+                const activation = this.activationTracker.getRecord(extension.id);
 
                 const metric: ExtensionMetrics = {
                     id: extension.id,
                     displayName: extension.packageJSON?.displayName || extension.id,
                     version: extension.packageJSON?.version || 'unknown',
                     isActive: extension.isActive,
-                    cpuUsage: useProcessUsage ? processCpu : estimatedCpu,
-                    memoryUsage: useProcessUsage ? processMemory : estimatedMemory,
+                    isBuiltin: isBuiltinExtension(extension),
+                    cpuUsage: usage.cpu,
+                    memoryUsage: usage.memory,
                     timestamp,
-                    activationTime: extension.isActive ? this.getActivationTime(extension) : undefined,
-                    estimatedCpuUsage: estimatedCpu,
-                    estimatedMemoryUsage: estimatedMemory,
+                    activationTime: activation?.activationTime,
+                    activatedAt: activation?.activatedAt,
+                    activationEvent: activation?.activationEvent,
+                    estimatedCpuUsage: inHostUsage.cpu,
+                    estimatedMemoryUsage: inHostUsage.memory,
                     processCpuUsage: processCpu,
                     processMemoryUsage: processMemory,
-                    subprocessCount
+                    subprocessCount,
+                    metricSource: usage.source,
+                    confidence: usage.confidence
                 };
 
+                this.historyStore.append(metric.id, {
+                    timestamp,
+                    cpuUsage: metric.cpuUsage,
+                    memoryUsage: metric.memoryUsage,
+                    subprocessCount,
+                    metricSource: metric.metricSource
+                });
+                metric.memoryTrend = analyzeMemoryTrend(
+                    this.historyStore.query(metric.id, { start: timestamp - leakOptions.window }),
+                    leakOptions,
+                    timestamp
+                );
                 metrics.push(metric);
-                this.updateHistory(metric);
-                this.checkAlerts(metric);
+
+                const override = resolveExtensionOverride(overrides, extension.id);
+                if (!override?.neverAlert) {
+                    this.checkAlerts({
+                        extensionId: metric.id,
+                        extensionName: metric.displayName,
+                        timestamp: metric.timestamp,
+                        values: {
+                            cpu: metric.cpuUsage,
+                            memory: metric.memoryUsage,
+                            memoryLeak: metric.memoryTrend?.possibleLeak ? metric.memoryTrend.slope : 0
+                        }
+                    }, applyOverride(alertRules, override));
+                }
             } catch (error) {
                 this.outputChannel.appendLine(`Error collecting metrics for ${extension.id}: ${error}`);
             }
         }
 
         this.currentMetrics = metrics;
+        this.startupRecorder.addSample(this.getPerformanceSummary());
         this.onMetricsUpdated.fire(metrics);
         
-        // Save to persistent storage
-        await this.saveHistoricalData();
-        
         return metrics;
     }
 
@@ -150,10 +290,21 @@ export class PerformanceMonitor {
     }
 
     /**
-     * Gets performance history for a specific extension
+     * Gets performance history for a specific extension, optionally limited to a time range
      */
-    getExtensionHistory(extensionId: string): PerformanceHistory | undefined {
-        return this.performanceHistory.get(extensionId);
+    getExtensionHistory(extensionId: string, range?: { start?: number; end?: number }): PerformanceHistory | undefined {
+        return summarizeHistory(extensionId, this.historyStore.query(extensionId, range));
+    }
+
+    /**
+     * Writes buffered history samples to disk
+     */
+    async flushHistory(): Promise<void> {
+        try {
+            await this.historyStore.flush();
+        } catch (error) {
+            this.outputChannel.appendLine(`Error saving historical data: ${error}`);
+        }
     }
 
     /**
@@ -163,13 +314,235 @@ export class PerformanceMonitor {
         return this.subprocessStats.get(extensionId);
     }
 
+    /**
+     * Gets the latest sample of the extension-host process
+     */
+    getHostMetrics(): HostProcessMetrics | undefined {
+        return this.hostMetrics;
+    }
+
+    /**
+     * Gets recorded samples of the extension-host process, oldest first
+     */
+    getHostHistory(): HostProcessMetrics[] {
+        return [...this.hostHistory];
+    }
+
+    /**
+     * Gets event-loop delay of the extension host for the latest monitoring interval
+     */
+    getEventLoopMetrics(): EventLoopMetrics | undefined {
+        return this.eventLoopMetrics;
+    }
+
+    /**
+     * Gets recent intervals where the extension-host event loop was blocked, oldest first
+     */
+    getLongTasks(): LongTask[] {
+        return this.eventLoopMonitor.getLongTasks();
+    }
+
+    /**
+     * Profiles the extension host and attributes CPU time to extensions
+     */
+    async captureCpuProfile(): Promise<CpuProfileSummary> {
+        const duration = this.configManager.getConfig<number>('cpuProfileDuration', DEFAULTS.CPU_PROFILE_DURATION);
+        this.outputChannel.appendLine(`Capturing CPU profile for ${duration}ms`);
+
+        const { summary, captured } = await this.cpuProfiler.capture(duration, vscode.extensions.all);
+        this.latestCpuProfile = summary;
+        this.outputChannel.appendLine(`CPU profile saved to ${summary.profilePath}`);
+
+        const correlated = this.eventLoopMonitor.correlate(captured, vscode.extensions.all);
+        if (correlated > 0) {
+            this.outputChannel.appendLine(`Attributed ${correlated} long task(s) to extensions on the stack`);
+        }
+        this.onCpuProfileCaptured.fire(summary);
+
+        return summary;
+    }
+
+    /**
+     * Checks if a CPU profile is currently being captured
+     */
+    isCpuProfileRunning(): boolean {
+        return this.cpuProfiler.isRunning();
+    }
+
+    /**
+     * Gets the most recent CPU profile attribution
+     */
+    getLatestCpuProfile(): CpuProfileSummary | undefined {
+        return this.latestCpuProfile;
+    }
+
+    /**
+     * Captures a heap snapshot of the extension host and attributes retained size to extensions
+     */
+    async captureHeapSnapshot(): Promise<HeapSnapshotSummary> {
+        this.outputChannel.appendLine('Capturing heap snapshot');
+
+        const summary = await this.heapSnapshotProfiler.capture(vscode.extensions.all);
+        this.latestHeapSnapshot = summary;
+        this.outputChannel.appendLine(`Heap snapshot saved to ${summary.snapshotPath}`);
+
+        this.applyHeapSnapshotMemory();
+        this.onHeapSnapshotCaptured.fire(summary);
+
+        return summary;
+    }
+
+    /**
+     * Measured retained sizes of the latest snapshot replace attributed memory while
+     * `extperf.useHeapSnapshotMemory` is on; turning it off goes back to attributed memory
+     */
+    private applyHeapSnapshotMemory(): void {
+        if (this.latestHeapSnapshot && this.configManager.getConfig<boolean>('useHeapSnapshotMemory', true)) {
+            this.heapSnapshotAttributor.update(new Map(this.latestHeapSnapshot.extensions.map(entry => [entry.extensionId, entry.retainedSize])));
+        } else {
+            this.heapSnapshotAttributor.clear();
+        }
+    }
+
+    /**
+     * Checks if a heap snapshot is currently being captured
+     */
+    isHeapSnapshotRunning(): boolean {
+        return this.heapSnapshotProfiler.isRunning();
+    }
+
+    /**
+     * Gets the most recent heap snapshot attribution
+     */
+    getLatestHeapSnapshot(): HeapSnapshotSummary | undefined {
+        return this.latestHeapSnapshot;
+    }
+
+    /**
+     * Deletes the CPU profiles and heap snapshots saved by previous captures
+     * @returns Number of files deleted
+     */
+    async deleteSavedCaptures(): Promise<number> {
+        const deleted = (await this.cpuProfiler.deleteSaved()) + (await this.heapSnapshotProfiler.deleteSaved());
+        this.outputChannel.appendLine(`Deleted ${deleted} saved CPU profile and heap snapshot file(s)`);
+        return deleted;
+    }
+
+    /**
+     * Gets activation data for the current and previous extension-host sessions, most recent first
+     */
+    getActivationSessions(): ActivationSession[] {
+        const current = this.activationTracker.getCurrentSession();
+        const previous = this.activationTracker.getSessions().filter(session => session.sessionId !== current.sessionId);
+        return [current, ...previous];
+    }
+
+    /**
+     * Gets startup reports of the current and previous extension-host sessions, most recent first
+     */
+    getStartupReports(): StartupReport[] {
+        return this.startupRecorder.getReports();
+    }
+
+    /**
+     * Deletes startup reports of previous sessions
+     */
+    async clearStartupReports(): Promise<void> {
+        await this.startupRecorder.clear();
+    }
+
+    /**
+     * Gets the memory measure used for extension subprocesses
+     */
+    getMemoryMetric(): MemoryMetric {
+        return this.configManager.getConfig<MemoryMetric>('memoryMetric', DEFAULTS.MEMORY_METRIC);
+    }
+
+    /**
+     * Changes the memory measure used for extension subprocesses in user settings
+     */
+    async setMemoryMetric(metric: MemoryMetric): Promise<void> {
+        await this.configManager.setConfig('memoryMetric', metric, vscode.ConfigurationTarget.Global);
+    }
+
+    /**
+     * Gets the effective `extperf.extensionOverrides` entry for an extension
+     */
+    getExtensionOverride(extensionId: string): ExtensionOverride | undefined {
+        return this.configManager.getExtensionOverride(extensionId);
+    }
+
+    /**
+     * Gets the ids of extensions that have recorded history
+     */
+    getHistoryExtensionIds(): string[] {
+        return this.historyStore.getSeriesIds().filter(id => id !== EXTENSION_HOST_ID);
+    }
+
+    /**
+     * Gets enable and disable events of an extension in a time range, oldest first
+     */
+    getExtensionEvents(extensionId: string, range?: { start?: number; end?: number }): ExtensionEvent[] {
+        return this.extensionEventLog.getEvents(extensionId, range);
+    }
+
+    /**
+     * Gets past alerts, oldest first
+     */
+    getAlertLog(): PerformanceAlert[] {
+        return this.alertEngine.getLog();
+    }
+
+    /**
+     * Gets how many alerts of each type and severity were raised since the extension host started
+     */
+    getAlertCounts(): AlertCount[] {
+        return [...this.alertCounts.values()];
+    }
+
+    /**
+     * Checks if an alert is acknowledged or snoozed
+     */
+    isAlertSuppressed(ruleId: string, extensionId: string): boolean {
+        return this.alertEngine.isSuppressed(ruleId, extensionId);
+    }
+
+    /**
+     * Suppresses an alert until its condition clears
+     */
+    acknowledgeAlert(ruleId: string, extensionId: string): void {
+        this.alertEngine.acknowledge(ruleId, extensionId);
+        this.outputChannel.appendLine(`Acknowledged ${ruleId} for ${extensionId}`);
+        this.onAlertsChanged.fire();
+    }
+
+    /**
+     * Suppresses an alert for the given number of milliseconds
+     */
+    snoozeAlert(ruleId: string, extensionId: string, duration: number): void {
+        this.alertEngine.snooze(ruleId, extensionId, duration);
+        this.outputChannel.appendLine(`Snoozed ${ruleId} for ${extensionId} until ${new Date(Date.now() + duration).toLocaleString()}`);
+        this.onAlertsChanged.fire();
+    }
+
+    /**
+     * Clears the alert log
+     */
+    clearAlertLog(): void {
+        this.alertEngine.clearLog();
+        this.outputChannel.appendLine('Alert log cleared');
+        this.onAlertsChanged.fire();
+    }
+
     /**
      * Gets performance summary for all extensions
      */
     getPerformanceSummary(): PerformanceSummary {
         const activeExtensions = this.currentMetrics.filter(m => m.isActive);
-        const totalCpuUsage = this.currentMetrics.reduce((sum, m) => sum + m.cpuUsage, 0);
-        const totalMemoryUsage = this.currentMetrics.reduce((sum, m) => sum + m.memoryUsage, 0);
+        const overrides = this.configManager.getExtensionOverrides();
+        const counted = this.currentMetrics.filter(m => !resolveExtensionOverride(overrides, m.id)?.excludeFromTotals);
+        const totalCpuUsage = counted.reduce((sum, m) => sum + m.cpuUsage, 0);
+        const totalMemoryUsage = counted.reduce((sum, m) => sum + m.memoryUsage, 0);
         
         const topCpuConsumers = [...this.currentMetrics]
             .sort((a, b) => b.cpuUsage - a.cpuUsage)
@@ -179,6 +552,21 @@ export class PerformanceMonitor {
             .sort((a, b) => b.memoryUsage - a.memoryUsage)
             .slice(0, 5);
 
+        let hostBudget: PerformanceSummary['hostBudget'];
+        if (this.hostMetrics) {
+            // Subprocesses run outside the extension host, so they add to its budget
+            let subprocessCpu = 0;
+            let subprocessMemory = 0;
+            for (const stats of this.subprocessStats.values()) {
+                subprocessCpu += stats.totalCpu;
+                subprocessMemory += stats.totalMemory;
+            }
+            hostBudget = {
+                cpu: this.hostMetrics.cpuUsage + subprocessCpu,
+                memory: this.hostMetrics.rss + subprocessMemory
+            };
+        }
+
         return {
             totalExtensions: this.currentMetrics.length,
             activeExtensions: activeExtensions.length,
@@ -186,6 +574,10 @@ export class PerformanceMonitor {
             totalMemoryUsage,
             topCpuConsumers,
             topMemoryConsumers,
+            excludedFromTotals: this.currentMetrics.length - counted.length,
+            host: this.hostMetrics,
+            eventLoop: this.eventLoopMetrics,
+            hostBudget,
             timestamp: Date.now()
         };
     }
@@ -193,170 +585,135 @@ export class PerformanceMonitor {
     /**
      * Clears all performance history
      */
-    clearHistory(): void {
-        this.performanceHistory.clear();
-        this.context.globalState.update('performanceHistory', undefined);
-        this.outputChannel.appendLine('Performance history cleared');
+    async clearHistory(): Promise<void> {
+        this.hostHistory = [];
+        this.extensionEventLog.clear();
+        try {
+            await this.historyStore.clear();
+            this.outputChannel.appendLine('Performance history cleared');
+        } catch (error) {
+            this.outputChannel.appendLine(`Error clearing performance history: ${error}`);
+        }
     }
 
     /**
-     * Estimates CPU usage for an extension (simplified heuristic)
+     * Records a sample of the extension-host process
      */
-    private async estimateCpuUsage(extension: vscode.Extension<any>): Promise<number> {
-        // This is a simplified estimation since VS Code doesn't provide direct CPU metrics
-        // We use various heuristics to estimate CPU usage
-        
-        let cpuEstimate = 0;
-        
-        // Base usage for active extensions
-        if (extension.isActive) {
-            cpuEstimate += 0.5;
-        }
-        
-        // Estimate based on extension type and activity
-        const packageJSON = extension.packageJSON;
-        if (packageJSON) {
-            // Language servers typically use more CPU
-            if (packageJSON.contributes?.languages || packageJSON.activationEvents?.includes('*')) {
-                cpuEstimate += 1.5;
-            }
-            
-            // Extensions with many commands might be more active
-            if (packageJSON.contributes?.commands?.length > 10) {
-                cpuEstimate += 0.8;
-            }
-            
-            // File system watchers
-            if (packageJSON.contributes?.grammars || packageJSON.contributes?.themes) {
-                cpuEstimate += 0.3;
-            }
+    private updateHostHistory(sample: HostProcessMetrics): void {
+        this.hostHistory.push(sample);
+        if (this.hostHistory.length > 1000) {
+            this.hostHistory = this.hostHistory.slice(-1000);
         }
-        
-        // Add some randomness to simulate real CPU fluctuation
-        cpuEstimate += Math.random() * 2;
-        
-        return Math.min(cpuEstimate, 100); // Cap at 100%
     }
 
     /**
-     * Estimates memory usage for an extension (simplified heuristic)
+     * Builds alert rules from the current configuration
      */
-    private async estimateMemoryUsage(extension: vscode.Extension<any>): Promise<number> {
-        // Simplified memory estimation
-        let memoryEstimate = 0;
-        
-        // Base memory for any extension
-        memoryEstimate += 2; // 2MB base
-        
-        if (extension.isActive) {
-            memoryEstimate += 5; // Additional 5MB for active extensions
-            
-            const packageJSON = extension.packageJSON;
-            if (packageJSON) {
-                // Language servers typically use more memory
-                if (packageJSON.contributes?.languages) {
-                    memoryEstimate += 15;
-                }
-                
-                // Themes and icons
-                if (packageJSON.contributes?.themes || packageJSON.contributes?.iconThemes) {
-                    memoryEstimate += 8;
-                }
-                
-                // Debuggers
-                if (packageJSON.contributes?.debuggers) {
-                    memoryEstimate += 12;
-                }
-                
-                // Webview extensions
-                if (packageJSON.contributes?.views || packageJSON.main?.includes('webview')) {
-                    memoryEstimate += 20;
-                }
+    private getAlertRules(): AlertRule[] {
+        const samples = this.configManager.getConfig<number>('alerts.sustainedSamples', DEFAULTS.ALERT_SUSTAINED_SAMPLES);
+        const growthMinutes = this.configManager.getConfig<number>('alerts.memoryGrowthMinutes', DEFAULTS.ALERT_MEMORY_GROWTH_MINUTES);
+
+        return [
+            {
+                id: 'cpu.sustained',
+                type: 'cpu',
+                kind: 'sustained',
+                threshold: this.configManager.getConfig<number>('alertThresholds.cpu', DEFAULTS.CPU_ALERT_THRESHOLD),
+                samples
+            },
+            {
+                id: 'memory.sustained',
+                type: 'memory',
+                kind: 'sustained',
+                threshold: this.configManager.getConfig<number>('alertThresholds.memory', DEFAULTS.MEMORY_ALERT_THRESHOLD),
+                samples
+            },
+            {
+                id: 'memory.growth',
+                type: 'memory',
+                kind: 'growth',
+                threshold: this.configManager.getConfig<number>('alerts.memoryGrowthMb', DEFAULTS.ALERT_MEMORY_GROWTH_MB),
+                window: growthMinutes * 60 * 1000
+            },
+            {
+                // The trend already covers the detection window, so one flagged sample is enough
+                id: 'memoryLeak.trend',
+                type: 'memoryLeak',
+                kind: 'sustained',
+                threshold: this.configManager.getConfig<number>('leakDetection.rateMbPerHour', DEFAULTS.LEAK_RATE),
+                samples: 1
+            },
+            {
+                id: 'eventLoopLag.sustained',
+                type: 'eventLoopLag',
+                kind: 'sustained',
+                threshold: this.configManager.getConfig<number>('alertThresholds.eventLoopLag', DEFAULTS.EVENT_LOOP_LAG_ALERT_THRESHOLD),
+                samples
             }
-        }
-        
-        // Add some randomness
-        memoryEstimate += Math.random() * 5;
-        
-        return Math.round(memoryEstimate);
+        ];
     }
 
     /**
-     * Gets activation time for an extension (mock implementation)
+     * Gets which extensions `extperf.builtinExtensions` says to monitor
      */
-    private getActivationTime(extension: vscode.Extension<any>): number {
-        // Mock activation time - in a real implementation, this would need to be tracked
-        return Math.round(Math.random() * 500 + 50); // 50-550ms
+    getBuiltinExtensionMode(): BuiltinExtensionMode {
+        return this.configManager.getConfig<BuiltinExtensionMode>('builtinExtensions', DEFAULTS.BUILTIN_EXTENSIONS);
     }
 
     /**
-     * Updates performance history for an extension
+     * Keeps the extensions `extperf.builtinExtensions` says to monitor
      */
-    private updateHistory(metric: ExtensionMetrics): void {
-        let history = this.performanceHistory.get(metric.id);
-        
-        if (!history) {
-            history = {
-                extensionId: metric.id,
-                metrics: [],
-                averages: { cpu: 0, memory: 0 },
-                peaks: {
-                    cpu: { value: 0, timestamp: 0 },
-                    memory: { value: 0, timestamp: 0 }
-                }
-            };
-            this.performanceHistory.set(metric.id, history);
-        }
-        
-        // Add new metric
-        history.metrics.push(metric);
-        
-        // Keep only recent metrics (last 1000 entries)
-        if (history.metrics.length > 1000) {
-            history.metrics = history.metrics.slice(-1000);
-        }
-        
-        // Update averages
-        const recentMetrics = history.metrics.slice(-100); // Last 100 measurements
-        history.averages.cpu = recentMetrics.reduce((sum, m) => sum + m.cpuUsage, 0) / recentMetrics.length;
-        history.averages.memory = recentMetrics.reduce((sum, m) => sum + m.memoryUsage, 0) / recentMetrics.length;
-        
-        // Update peaks
-        if (metric.cpuUsage > history.peaks.cpu.value) {
-            history.peaks.cpu = { value: metric.cpuUsage, timestamp: metric.timestamp };
+    private filterMonitoredExtensions<T extends vscode.Extension<unknown>>(extensions: readonly T[]): T[] {
+        const builtinMode = this.getBuiltinExtensionMode();
+        return extensions.filter(extension => matchesBuiltinMode(builtinMode, isBuiltinExtension(extension)));
+    }
+
+    /**
+     * Reads leak-detection thresholds from the current configuration
+     */
+    private getLeakDetectionOptions(): LeakDetectionOptions {
+        return {
+            rate: this.configManager.getConfig<number>('leakDetection.rateMbPerHour', DEFAULTS.LEAK_RATE),
+            window: this.configManager.getConfig<number>('leakDetection.windowMinutes', DEFAULTS.LEAK_WINDOW_MINUTES) * 60 * 1000,
+            minRSquared: this.configManager.getConfig<number>('leakDetection.minRSquared', DEFAULTS.LEAK_MIN_R_SQUARED)
+        };
+    }
+
+    /**
+     * Evaluates alert rules for a sample and notifies about alerts that fire
+     */
+    private checkAlerts(sample: AlertSample, rules: AlertRule[]): void {
+        const cooldown = this.configManager.getConfig<number>('alerts.cooldownMinutes', DEFAULTS.ALERT_COOLDOWN_MINUTES) * 60 * 1000;
+        const alerts = this.alertEngine.evaluate(sample, rules, cooldown);
+        for (const alert of alerts) {
+            const key = `${alert.type}:${alert.severity}`;
+            const count = this.alertCounts.get(key) ?? { type: alert.type, severity: alert.severity, count: 0 };
+            this.alertCounts.set(key, { ...count, count: count.count + 1 });
+            this.showAlert(alert);
         }
-        if (metric.memoryUsage > history.peaks.memory.value) {
-            history.peaks.memory = { value: metric.memoryUsage, timestamp: metric.timestamp };
+        if (alerts.length > 0) {
+            this.onAlertsChanged.fire();
         }
     }
 
     /**
-     * Checks for performance alerts
+     * Runs the metrics server while monitoring is active and the server is enabled
      */
-    private checkAlerts(metric: ExtensionMetrics): void {
-        const cpuThreshold = this.configManager.getConfig<number>('alertThresholds.cpu', DEFAULTS.CPU_ALERT_THRESHOLD);
-        const memoryThreshold = this.configManager.getConfig<number>('alertThresholds.memory', DEFAULTS.MEMORY_ALERT_THRESHOLD);
-        
-        if (metric.cpuUsage > cpuThreshold) {
-            this.showAlert({
-                type: 'cpu',
-                extensionId: metric.id,
-                extensionName: metric.displayName,
-                value: metric.cpuUsage,
-                threshold: cpuThreshold,
-                timestamp: metric.timestamp
-            });
+    private async updateMetricsServer(): Promise<void> {
+        if (!this.isMonitoringActive || !this.configManager.getConfig<boolean>('metricsServer.enabled', false)) {
+            if (await this.metricsServer.stop()) {
+                this.outputChannel.appendLine('Metrics server stopped');
+            }
+            return;
         }
-        
-        if (metric.memoryUsage > memoryThreshold) {
-            this.showAlert({
-                type: 'memory',
-                extensionId: metric.id,
-                extensionName: metric.displayName,
-                value: metric.memoryUsage,
-                threshold: memoryThreshold,
-                timestamp: metric.timestamp
-            });
+
+        const port = this.configManager.getConfig<number>('metricsServer.port', DEFAULTS.METRICS_SERVER_PORT);
+        try {
+            await this.metricsServer.start(port);
+            this.outputChannel.appendLine(`Serving OpenMetrics at http://127.0.0.1:${port}/metrics`);
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to start metrics server on port ${port}: ${error}`);
+            vscode.window.showWarningMessage(`Extension Performance Monitor could not serve metrics on port ${port}: ${error instanceof Error ? error.message : error}`);
         }
     }
 
@@ -364,77 +721,105 @@ export class PerformanceMonitor {
      * Shows a performance alert
      */
     private showAlert(alert: PerformanceAlert): void {
-        const message = `High ${alert.type.toUpperCase()} usage detected: ${alert.extensionName} (${alert.value.toFixed(1)}${alert.type === 'cpu' ? '%' : 'MB'})`;
+        const message = describeAlert(alert);
+        const show = alert.severity === 'critical' ? vscode.window.showErrorMessage : vscode.window.showWarningMessage;
         
-        vscode.window.showWarningMessage(message, 'View Details', 'Dismiss')
+        show(message, 'View Details', 'Acknowledge', 'Snooze 1 Hour')
             .then(action => {
                 if (action === 'View Details') {
                     vscode.commands.executeCommand('extperf.showPerformanceView');
+                } else if (action === 'Acknowledge') {
+                    this.acknowledgeAlert(alert.ruleId, alert.extensionId);
+                } else if (action === 'Snooze 1 Hour') {
+                    this.snoozeAlert(alert.ruleId, alert.extensionId, 60 * 60 * 1000);
                 }
             });
         
-        this.outputChannel.appendLine(`ALERT: ${message}`);
+        this.outputChannel.appendLine(`ALERT (${alert.severity}, ${alert.ruleId}): ${message}`);
     }
 
     /**
-     * Loads historical data from persistent storage
+     * Opens the history store and moves history from older versions out of global state
      */
     private async loadHistoricalData(): Promise<void> {
         try {
-            const savedData = this.context.globalState.get<Record<string, PerformanceHistory>>('performanceHistory');
-            if (savedData) {
-                for (const [extensionId, history] of Object.entries(savedData)) {
-                    this.performanceHistory.set(extensionId, history);
+            await this.historyStore.open();
+
+            const legacyHistory = this.context.globalState.get<Record<string, { metrics?: ExtensionMetrics[] }>>('performanceHistory');
+            const legacyHostHistory = this.context.globalState.get<HostProcessMetrics[]>('hostHistory');
+            if (legacyHistory || legacyHostHistory) {
+                let migrated = 0;
+                for (const [extensionId, history] of Object.entries(legacyHistory ?? {})) {
+                    for (const metric of history.metrics ?? []) {
+                        this.historyStore.append(extensionId, {
+                            timestamp: metric.timestamp,
+                            cpuUsage: metric.cpuUsage,
+                            memoryUsage: metric.memoryUsage,
+                            subprocessCount: metric.subprocessCount,
+                            metricSource: metric.metricSource
+                        });
+                        migrated += 1;
+                    }
                 }
-                this.outputChannel.appendLine(`Loaded performance history for ${this.performanceHistory.size} extensions`);
+                for (const sample of legacyHostHistory ?? []) {
+                    this.historyStore.append(EXTENSION_HOST_ID, {
+                        timestamp: sample.timestamp,
+                        cpuUsage: sample.cpuUsage,
+                        memoryUsage: sample.rss,
+                        metricSource: 'measured'
+                    });
+                    migrated += 1;
+                }
+                await this.historyStore.flush();
+                await this.context.globalState.update('performanceHistory', undefined);
+                await this.context.globalState.update('hostHistory', undefined);
+                this.outputChannel.appendLine(`Migrated ${migrated} history samples out of global state`);
             }
+
+            this.outputChannel.appendLine(`Loaded performance history for ${this.historyStore.getSeriesIds().length} series`);
         } catch (error) {
             this.outputChannel.appendLine(`Error loading historical data: ${error}`);
         }
     }
 
     /**
-     * Saves historical data to persistent storage
+     * Schedules periodic flushing of buffered history
      */
-    private async saveHistoricalData(): Promise<void> {
-        try {
-            const dataToSave: Record<string, PerformanceHistory> = {};
-            for (const [extensionId, history] of this.performanceHistory) {
-                dataToSave[extensionId] = history;
-            }
-            await this.context.globalState.update('performanceHistory', dataToSave);
-        } catch (error) {
-            this.outputChannel.appendLine(`Error saving historical data: ${error}`);
-        }
+    private scheduleHistoryFlush(): void {
+        const timer = setInterval(() => {
+            void this.flushHistory();
+        }, HISTORY_FLUSH_INTERVAL);
+        this.context.subscriptions.push({ dispose: () => clearInterval(timer) });
     }
+}
 
-    /**
-     * Schedules periodic cleanup of old data
-     */
-    private scheduleDataCleanup(): void {
-        // Clean up old data every hour
-        setInterval(() => {
-            this.cleanupOldData();
-        }, 60 * 60 * 1000);
+/**
+ * Replaces global CPU and memory thresholds with an extension's own
+ */
+function applyOverride(rules: AlertRule[], override: ExtensionOverride | undefined): AlertRule[] {
+    if (override?.cpu === undefined && override?.memory === undefined) {
+        return rules;
     }
 
-    /**
-     * Cleans up old performance data based on retention settings
-     */
-    private cleanupOldData(): void {
-        const retentionDays = this.configManager.getConfig<number>('historyRetentionDays', DEFAULTS.HISTORY_RETENTION_DAYS);
-        const cutoffTime = Date.now() - (retentionDays * 24 * 60 * 60 * 1000);
-        
-        let cleanedCount = 0;
-        
-        for (const history of this.performanceHistory.values()) {
-            const originalLength = history.metrics.length;
-            history.metrics = history.metrics.filter(m => m.timestamp > cutoffTime);
-            cleanedCount += originalLength - history.metrics.length;
+    return rules.map(rule => {
+        if (rule.kind !== 'sustained') {
+            return rule;
         }
-        
-        if (cleanedCount > 0) {
-            this.outputChannel.appendLine(`Cleaned up ${cleanedCount} old performance records`);
+        if (rule.type === 'cpu' && override.cpu !== undefined) {
+            return { ...rule, threshold: override.cpu };
         }
-    }
+        if (rule.type === 'memory' && override.memory !== undefined) {
+            return { ...rule, threshold: override.memory };
+        }
+        return rule;
+    });
+}
+
+/**
+ * Checks if an extension ships with VS Code
+ */
+function isBuiltinExtension(extension: vscode.Extension<unknown>): boolean {
+    return extension.packageJSON?.isBuiltin === true
+        || extension.id.startsWith('vscode.')
+        || (!!vscode.env.appRoot && extension.extensionPath.startsWith(vscode.env.appRoot));
 }
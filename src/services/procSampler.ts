@@ -0,0 +1,213 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const KB_PER_MB = 1024;
+
+/**
+ * Usage of one process read from /proc
+ */
+export interface ProcProcessUsage {
+    pid: number;
+    ppid: number;
+    command: string; // Full command line, or the executable name for processes without one
+    cpu: number; // Percentage of one core since the previous sample
+    rss: number; // MB
+    pss?: number; // MB, when /proc/<pid>/smaps_rollup is readable
+    uss?: number; // MB, when /proc/<pid>/smaps_rollup is readable
+    threads: number;
+    startTime: number; // Ticks after boot; with the pid, tells a process apart from a later one reusing its pid
+}
+
+export interface ProcSamplerOptions {
+    procRoot?: string;
+    ticksPerSecond?: number; // USER_HZ; 100 on practically every Linux build
+    now?: () => number;
+}
+
+/**
+ * Fields of /proc/<pid>/stat this sampler uses
+ */
+interface ProcStat {
+    pid: number;
+    comm: string;
+    ppid: number;
+    cpuTicks: number; // utime + stime
+    threads: number;
+    startTime: number; // Ticks after boot
+}
+
+interface CpuReading {
+    startTime: number;
+    cpuTicks: number;
+    at: number;
+}
+
+/**
+ * Samples a process tree by reading /proc directly, without spawning `ps`
+ *
+ * CPU is computed from the tick delta since the previous sample of the same process, so one sampler
+ * should be kept across ticks. A process seen for the first time gets its average since it started.
+ */
+export class ProcSampler {
+    private readonly procRoot: string;
+    private readonly ticksPerSecond: number;
+    private readonly now: () => number;
+    private previous = new Map<number, CpuReading>();
+
+    constructor(options: ProcSamplerOptions = {}) {
+        this.procRoot = options.procRoot ?? '/proc';
+        this.ticksPerSecond = options.ticksPerSecond ?? 100;
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * Samples every descendant of a process, found in a single pass over /proc
+     * @throws Error when /proc cannot be listed
+     */
+    async sampleDescendants(rootPid: number): Promise<ProcProcessUsage[]> {
+        const at = this.now();
+        const pids = (await fs.readdir(this.procRoot)).filter(name => /^\d+$/.test(name)).map(Number);
+        const stats = (await Promise.all(pids.map(pid => this.readStat(pid)))).filter((stat): stat is ProcStat => !!stat);
+
+        const children = new Map<number, ProcStat[]>();
+        for (const stat of stats) {
+            const siblings = children.get(stat.ppid) ?? [];
+            siblings.push(stat);
+            children.set(stat.ppid, siblings);
+        }
+
+        const descendants: ProcStat[] = [];
+        const queue = [rootPid];
+        const visited = new Set<number>(queue);
+        while (queue.length > 0) {
+            for (const child of children.get(queue.shift()!) ?? []) {
+                if (!visited.has(child.pid)) {
+                    visited.add(child.pid);
+                    descendants.push(child);
+                    queue.push(child.pid);
+                }
+            }
+        }
+
+        const uptime = descendants.some(stat => this.previous.get(stat.pid)?.startTime !== stat.startTime)
+            ? await this.readUptime()
+            : undefined;
+        const results = await Promise.all(descendants.map(stat => this.sampleProcess(stat, at, uptime)));
+
+        // Forget processes that are gone, so a reused PID starts over
+        this.previous = new Map(descendants.map(stat => [stat.pid, { startTime: stat.startTime, cpuTicks: stat.cpuTicks, at }]));
+        return results.filter((usage): usage is ProcProcessUsage => !!usage);
+    }
+
+    private async sampleProcess(stat: ProcStat, at: number, uptime: number | undefined): Promise<ProcProcessUsage | undefined> {
+        const dir = path.join(this.procRoot, String(stat.pid));
+        const [status, commandLine, rollup] = await Promise.all([
+            readFields(path.join(dir, 'status')),
+            fs.readFile(path.join(dir, 'cmdline'), 'utf8').catch(() => ''),
+            readFields(path.join(dir, 'smaps_rollup'))
+        ]);
+        if (!status) {
+            return undefined; // Exited while sampling
+        }
+
+        const rssKb = parseKb(status.VmRSS) ?? 0;
+        const pssKb = parseKb(rollup?.Pss);
+        const privateKb = rollup && parseKb(rollup.Private_Clean) !== undefined && parseKb(rollup.Private_Dirty) !== undefined
+            ? parseKb(rollup.Private_Clean)! + parseKb(rollup.Private_Dirty)!
+            : undefined;
+
+        return {
+            pid: stat.pid,
+            ppid: stat.ppid,
+            command: commandLine.replace(/\0+$/, '').replace(/\0/g, ' ') || stat.comm,
+            cpu: this.computeCpu(stat, at, uptime),
+            rss: rssKb / KB_PER_MB,
+            pss: pssKb !== undefined ? pssKb / KB_PER_MB : undefined,
+            uss: privateKb !== undefined ? privateKb / KB_PER_MB : undefined,
+            threads: Number(status.Threads) || stat.threads,
+            startTime: stat.startTime
+        };
+    }
+
+    private computeCpu(stat: ProcStat, at: number, uptime: number | undefined): number {
+        const previous = this.previous.get(stat.pid);
+        if (previous && previous.startTime === stat.startTime && at > previous.at) {
+            const seconds = (stat.cpuTicks - previous.cpuTicks) / this.ticksPerSecond;
+            return Math.max(0, seconds / ((at - previous.at) / 1000)) * 100;
+        }
+        if (uptime === undefined) {
+            return 0;
+        }
+        const age = uptime - stat.startTime / this.ticksPerSecond;
+        return age > 0 ? (stat.cpuTicks / this.ticksPerSecond / age) * 100 : 0;
+    }
+
+    private async readStat(pid: number): Promise<ProcStat | undefined> {
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(this.procRoot, String(pid), 'stat'), 'utf8');
+        } catch {
+            return undefined;
+        }
+        return parseStat(content);
+    }
+
+    private async readUptime(): Promise<number | undefined> {
+        try {
+            const uptime = parseFloat((await fs.readFile(path.join(this.procRoot, 'uptime'), 'utf8')).split(' ')[0]);
+            return Number.isFinite(uptime) ? uptime : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Parses /proc/<pid>/stat; the command name is in parentheses and may itself contain spaces and parentheses
+ */
+function parseStat(content: string): ProcStat | undefined {
+    const open = content.indexOf('(');
+    const close = content.lastIndexOf(')');
+    if (open < 0 || close < open) {
+        return undefined;
+    }
+    // Fields from the process state (field 3) onwards
+    const fields = content.slice(close + 2).trim().split(/\s+/);
+    const stat: ProcStat = {
+        pid: Number(content.slice(0, open).trim()),
+        comm: content.slice(open + 1, close),
+        ppid: Number(fields[1]),
+        cpuTicks: Number(fields[11]) + Number(fields[12]),
+        threads: Number(fields[17]),
+        startTime: Number(fields[19])
+    };
+    return Number.isFinite(stat.pid) && Number.isFinite(stat.ppid) && Number.isFinite(stat.cpuTicks) ? stat : undefined;
+}
+
+/**
+ * Reads a "Key: value" file such as /proc/<pid>/status
+ */
+async function readFields(filePath: string): Promise<Record<string, string> | undefined> {
+    let content: string;
+    try {
+        content = await fs.readFile(filePath, 'utf8');
+    } catch {
+        return undefined;
+    }
+    const fields: Record<string, string> = {};
+    for (const line of content.split('\n')) {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+            fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+        }
+    }
+    return fields;
+}
+
+function parseKb(value: string | undefined): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const kb = parseInt(value, 10);
+    return Number.isFinite(kb) ? kb : undefined;
+}
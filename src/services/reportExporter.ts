@@ -1,8 +1,37 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as os from 'os';
 import { PerformanceMonitor } from './performanceMonitor';
-import { ExtensionMetrics, PerformanceHistory } from '../types';
+import { ExtensionMetrics, PerformanceHistory, PerformanceReport, ReportInsights } from '../types';
+import { EXTENSION_HOST_ID, UNATTRIBUTED_PROCESSES_ID } from '../constants';
+import { REPORT_SCHEMA_VERSION, serializeReport } from './reportSchema';
+import { CsvValue, formatCsv } from './csvWriter';
+import { buildTrace } from './traceExporter';
+import { renderHtmlReport } from './htmlReport';
+
+/**
+ * What an export writes: the full report as JSON or HTML, one CSV table (snapshot, history,
+ * processes or alerts), or a Trace Event file
+ */
+type ExportDataset = 'json' | 'html' | 'snapshot' | 'history' | 'processes' | 'alerts' | 'trace';
+
+const EXPORT_FORMATS: (vscode.QuickPickItem & { dataset: ExportDataset; fileName: string; extension: string })[] = [
+    { label: 'JSON report', description: 'Everything, for importing or comparing later', dataset: 'json', fileName: 'extension-performance-report', extension: 'json' },
+    { label: 'HTML report', description: 'Self-contained page with charts, for sharing', dataset: 'html', fileName: 'extension-performance-report', extension: 'html' },
+    { label: 'CSV: Current snapshot', description: 'One row per extension', dataset: 'snapshot', fileName: 'extension-performance-snapshot', extension: 'csv' },
+    { label: 'CSV: History', description: 'One row per extension and recorded sample', dataset: 'history', fileName: 'extension-performance-history', extension: 'csv' },
+    { label: 'CSV: Processes', description: 'One row per extension subprocess', dataset: 'processes', fileName: 'extension-performance-processes', extension: 'csv' },
+    { label: 'CSV: Alerts', description: 'One row per alert in the alert log', dataset: 'alerts', fileName: 'extension-performance-alerts', extension: 'csv' },
+    { label: 'Trace', description: 'Trace Event format for Perfetto and chrome://tracing', dataset: 'trace', fileName: 'extension-performance', extension: 'trace.json' }
+];
+
+const EXPORT_FILTERS: Record<string, Record<string, string[]>> = {
+    'json': { 'JSON Files': ['json'] },
+    'html': { 'HTML Files': ['html'] },
+    'csv': { 'CSV Files': ['csv'] },
+    'trace.json': { 'Trace Files': ['json'] }
+};
 
 /**
  * Service for exporting performance reports
@@ -11,24 +40,26 @@ export class ReportExporter {
     constructor(private performanceMonitor: PerformanceMonitor) {}
 
     /**
-     * Exports a comprehensive performance report
+     * Exports a comprehensive performance report, or one dataset of it as CSV
      */
     async exportReport(): Promise<void> {
+        const choice = await vscode.window.showQuickPick(EXPORT_FORMATS, {
+            title: 'Export performance data',
+            placeHolder: 'Choose what to export'
+        });
+        if (!choice) {
+            return;
+        }
+
         const saveLocation = await vscode.window.showSaveDialog({
-            defaultUri: vscode.Uri.file(`extension-performance-report-${new Date().toISOString().split('T')[0]}.json`),
-            filters: {
-                'JSON Files': ['json'],
-                'CSV Files': ['csv'],
-                'All Files': ['*']
-            }
+            defaultUri: vscode.Uri.file(`${choice.fileName}-${new Date().toISOString().split('T')[0]}.${choice.extension}`),
+            filters: { ...EXPORT_FILTERS[choice.extension], 'All Files': ['*'] }
         });
 
         if (!saveLocation) {
             return;
         }
 
-        const extension = path.extname(saveLocation.fsPath).toLowerCase();
-        
         try {
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
@@ -41,12 +72,7 @@ export class ReportExporter {
                 
                 progress.report({ increment: 50, message: 'Formatting report...' });
                 
-                let content: string;
-                if (extension === '.csv') {
-                    content = this.formatAsCSV(reportData);
-                } else {
-                    content = this.formatAsJSON(reportData);
-                }
+                const content = this.formatDataset(choice.dataset, reportData);
                 
                 progress.report({ increment: 80, message: 'Writing file...' });
                 
@@ -74,7 +100,7 @@ export class ReportExporter {
     /**
      * Generates comprehensive report data
      */
-    private generateReportData() {
+    private generateReportData(): PerformanceReport {
         const currentMetrics = this.performanceMonitor.getCurrentMetrics();
         const summary = this.performanceMonitor.getPerformanceSummary();
         
@@ -89,11 +115,16 @@ export class ReportExporter {
 
         return {
             reportMetadata: {
+                schemaVersion: REPORT_SCHEMA_VERSION,
                 generatedAt: new Date().toISOString(),
                 vscodeVersion: vscode.version,
-                extensionVersion: vscode.extensions.getExtension('apertacodex.extension-performance-monitor')?.packageJSON?.version || 'unknown'
+                extensionVersion: vscode.extensions.getExtension('apertacodex.extension-performance-monitor')?.packageJSON?.version || 'unknown',
+                host: os.hostname(),
+                platform: process.platform,
+                arch: process.arch
             },
             summary,
+            hostHistory: this.performanceMonitor.getHostHistory(),
             currentMetrics: currentMetrics.sort((a, b) => b.cpuUsage + b.memoryUsage - (a.cpuUsage + a.memoryUsage)),
             historicalData,
             insights: this.generateInsights(currentMetrics, historicalData)
@@ -103,7 +134,7 @@ export class ReportExporter {
     /**
      * Generates performance insights
      */
-    private generateInsights(metrics: ExtensionMetrics[], historicalData: Record<string, PerformanceHistory>) {
+    private generateInsights(metrics: ExtensionMetrics[], historicalData: Record<string, PerformanceHistory>): ReportInsights {
         const insights = {
             topPerformers: {
                 cpu: metrics.filter(m => m.isActive).sort((a, b) => a.cpuUsage - b.cpuUsage).slice(0, 5),
@@ -137,6 +168,13 @@ export class ReportExporter {
             recommendations.push(`Consider reviewing extensions with high memory usage: ${highMemoryExtensions.map(e => e.displayName).join(', ')}`);
         }
         
+        // Steadily rising memory
+        const leakingExtensions = metrics.filter(m => m.memoryTrend?.possibleLeak);
+        if (leakingExtensions.length > 0) {
+            const details = leakingExtensions.map(e => `${e.displayName} (+${e.memoryTrend!.slope.toFixed(1)} MB/hour)`);
+            recommendations.push(`Possible memory leaks detected, consider reloading or reporting these extensions: ${details.join(', ')}`);
+        }
+        
         // Too many active extensions
         const activeCount = metrics.filter(m => m.isActive).length;
         if (activeCount > 20) {
@@ -153,22 +191,56 @@ export class ReportExporter {
     }
 
     /**
-     * Formats report data as JSON
+     * Formats report data as JSON, checked against the report schema
      */
-    private formatAsJSON(data: any): string {
-        return JSON.stringify(data, null, 2);
+    private formatAsJSON(data: PerformanceReport): string {
+        return serializeReport(data);
     }
 
     /**
-     * Formats report data as CSV
+     * Generates a full report without asking where to save it
      */
-    private formatAsCSV(data: any): string {
-        const lines: string[] = [];
-        
-        // Header
-        lines.push('Extension ID,Display Name,Version,Is Active,CPU Usage (%),Memory Usage (MB),Average CPU,Average Memory,Peak CPU,Peak Memory');
+    renderReport(format: 'json' | 'html'): string {
+        return this.formatDataset(format, this.generateReportData());
+    }
+
+    private formatDataset(dataset: ExportDataset, data: PerformanceReport): string {
+        switch (dataset) {
+            case 'json':
+                return this.formatAsJSON(data);
+            case 'html':
+                return renderHtmlReport(data, this.performanceMonitor.getAlertLog());
+            case 'snapshot':
+                return this.formatAsCSV(data);
+            case 'history':
+                return this.formatHistoryCSV();
+            case 'processes':
+                return this.formatProcessesCSV(data.currentMetrics);
+            case 'alerts':
+                return this.formatAlertsCSV();
+            case 'trace':
+                return this.formatAsTrace(data);
+        }
+    }
+
+    /**
+     * Formats recorded history in the Trace Event format
+     */
+    private formatAsTrace(data: PerformanceReport): string {
+        const trace = buildTrace(this.performanceMonitor, process.pid, {
+            generatedAt: data.reportMetadata.generatedAt,
+            vscodeVersion: data.reportMetadata.vscodeVersion,
+            extensionVersion: data.reportMetadata.extensionVersion
+        });
+        return JSON.stringify(trace);
+    }
+
+    /**
+     * Formats the current metrics of every extension as CSV, one row per extension
+     */
+    private formatAsCSV(data: PerformanceReport): string {
+        const rows: CsvValue[][] = [];
         
-        // Data rows
         for (const metric of data.currentMetrics) {
             const history = data.historicalData[metric.id];
             const avgCpu = history?.averages.cpu?.toFixed(2) || 'N/A';
@@ -176,20 +248,129 @@ export class ReportExporter {
             const peakCpu = history?.peaks.cpu?.value?.toFixed(2) || 'N/A';
             const peakMemory = history?.peaks.memory?.value?.toFixed(2) || 'N/A';
             
-            lines.push([
+            rows.push([
                 metric.id,
-                `"${metric.displayName}"`,
+                metric.displayName,
                 metric.version,
-                metric.isActive.toString(),
+                metric.isActive,
                 metric.cpuUsage.toFixed(2),
                 metric.memoryUsage.toFixed(2),
+                metric.metricSource ?? 'estimated',
+                (metric.confidence ?? 0).toFixed(2),
                 avgCpu,
                 avgMemory,
                 peakCpu,
                 peakMemory
-            ].join(','));
+            ]);
+        }
+        
+        const host = data.summary?.host;
+        if (host) {
+            rows.push([
+                EXTENSION_HOST_ID,
+                'Extension Host',
+                process.version,
+                true,
+                host.cpuUsage.toFixed(2),
+                host.rss.toFixed(2),
+                'measured',
+                '1.00',
+                'N/A',
+                'N/A',
+                'N/A',
+                'N/A'
+            ]);
         }
         
-        return lines.join('\n');
+        return formatCsv(
+            ['Extension ID', 'Display Name', 'Version', 'Is Active', 'CPU Usage (%)', 'Memory Usage (MB)', 'Source', 'Confidence', 'Average CPU', 'Average Memory', 'Peak CPU', 'Peak Memory'],
+            rows
+        );
+    }
+
+    /**
+     * Formats all recorded history as long-format CSV, one row per extension and point
+     *
+     * `source` is the least certain metric source among the point's samples, empty for history recorded
+     * before sources were kept. `aggregation` is `raw` for a single sample and `rollup` for the average of several.
+     */
+    private formatHistoryCSV(): string {
+        const rows: CsvValue[][] = [];
+        const seriesIds = [...this.performanceMonitor.getHistoryExtensionIds(), EXTENSION_HOST_ID];
+
+        for (const extensionId of seriesIds) {
+            const history = this.performanceMonitor.getExtensionHistory(extensionId);
+            for (const point of history?.points ?? []) {
+                rows.push([
+                    new Date(point.timestamp).toISOString(),
+                    extensionId,
+                    point.cpuUsage.toFixed(2),
+                    point.memoryUsage.toFixed(2),
+                    point.metricSource,
+                    point.samples > 1 ? 'rollup' : 'raw',
+                    point.cpuPeak.toFixed(2),
+                    point.memoryPeak.toFixed(2),
+                    point.samples,
+                    point.subprocessCount
+                ]);
+            }
+        }
+
+        rows.sort((a, b) => String(a[0]).localeCompare(String(b[0])) || String(a[1]).localeCompare(String(b[1])));
+        return formatCsv(
+            ['timestamp', 'extensionId', 'cpu', 'memory', 'source', 'aggregation', 'cpuPeak', 'memoryPeak', 'samples', 'subprocessCount'],
+            rows
+        );
+    }
+
+    /**
+     * Formats the latest subprocess sample as CSV, one row per process
+     */
+    private formatProcessesCSV(metrics: ExtensionMetrics[]): string {
+        const rows: CsvValue[][] = [];
+        const owners = [
+            ...metrics.map(metric => ({ id: metric.id, displayName: metric.displayName })),
+            { id: UNATTRIBUTED_PROCESSES_ID, displayName: 'Unattributed' }
+        ];
+
+        for (const owner of owners) {
+            const stats = this.performanceMonitor.getSubprocessStats(owner.id);
+            for (const subprocess of stats?.processes ?? []) {
+                rows.push([
+                    owner.id,
+                    owner.displayName,
+                    subprocess.pid,
+                    subprocess.ppid,
+                    subprocess.command,
+                    subprocess.attribution ?? 'unattributed',
+                    subprocess.cpu.toFixed(2),
+                    subprocess.memory.toFixed(2),
+                    subprocess.memoryMetric
+                ]);
+            }
+        }
+
+        return formatCsv(['Extension ID', 'Display Name', 'PID', 'Parent PID', 'Command', 'Matched By', 'CPU Usage (%)', 'Memory Usage (MB)', 'Memory Measure'], rows);
+    }
+
+    /**
+     * Formats the alert log as CSV, oldest first
+     */
+    private formatAlertsCSV(): string {
+        const rows = [...this.performanceMonitor.getAlertLog()]
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .map((alert): CsvValue[] => [
+                new Date(alert.timestamp).toISOString(),
+                alert.extensionId,
+                alert.extensionName,
+                alert.type,
+                alert.severity,
+                alert.ruleId,
+                alert.value.toFixed(2),
+                alert.threshold,
+                Math.round(alert.duration / 1000)
+            ]);
+
+        return formatCsv(['Timestamp', 'Extension ID', 'Display Name', 'Type', 'Severity', 'Rule', 'Value', 'Threshold', 'Duration (s)'], rows);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import {
+    ExtensionEvent,
+    ExtensionMetrics,
+    PerformanceAlert,
+    PerformanceHistory,
+    PerformanceReport,
+    PerformanceSummary
+} from '../types';
+import { describeErrors, migrateReport, validateReport } from './reportSchema';
+import { summarizeHistory } from './timeSeriesStore';
+
+/**
+ * A report read back from a file, upgraded to the current shape
+ *
+ * Offers the same read methods as the performance monitor so views can show it in place of live data.
+ */
+export class ImportedReport {
+    readonly generatedAt: number;
+
+    constructor(readonly report: PerformanceReport, readonly fileName: string, readonly sourceVersion: number) {
+        this.generatedAt = new Date(report.reportMetadata.generatedAt).getTime();
+    }
+
+    getCurrentMetrics(): ExtensionMetrics[] {
+        return [...this.report.currentMetrics];
+    }
+
+    getPerformanceSummary(): PerformanceSummary {
+        return this.report.summary;
+    }
+
+    getExtensionHistory(extensionId: string, range: { start?: number; end?: number } = {}): PerformanceHistory | undefined {
+        const points = this.report.historicalData[extensionId]?.points ?? [];
+        return summarizeHistory(extensionId, points.filter(point =>
+            point.timestamp >= (range.start ?? 0) && point.timestamp <= (range.end ?? Number.MAX_SAFE_INTEGER)
+        ));
+    }
+
+    getSubprocessStats(_extensionId: string): undefined {
+        return undefined;
+    }
+
+    getLatestCpuProfile(): undefined {
+        return undefined;
+    }
+
+    getLatestHeapSnapshot(): undefined {
+        return undefined;
+    }
+
+    getExtensionOverride(_extensionId: string): undefined {
+        return undefined;
+    }
+
+    getAlertLog(): PerformanceAlert[] {
+        return [];
+    }
+
+    getExtensionEvents(_extensionId: string, _range?: { start?: number; end?: number }): ExtensionEvent[] {
+        return [];
+    }
+}
+
+/**
+ * Parses, upgrades and validates an exported JSON report
+ * @throws Error naming the first problems found when the file is not a usable report
+ */
+export function readReport(content: string, fileName: string): ImportedReport {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`${fileName} is not valid JSON: ${error}`);
+    }
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new Error(`${fileName} is not a performance report`);
+    }
+
+    let version: number;
+    try {
+        version = migrateReport(raw as Record<string, unknown>);
+    } catch (error) {
+        throw new Error(`${fileName}: ${error instanceof Error ? error.message : error}`);
+    }
+    const errors = validateReport(raw);
+    if (errors.length > 0) {
+        throw new Error(`${fileName} is not a valid performance report: ${describeErrors(errors)}`);
+    }
+
+    return new ImportedReport(raw as PerformanceReport, fileName, version);
+}
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from './configManager';
+import { PerformanceMonitor } from './performanceMonitor';
+import { ReportExporter } from './reportExporter';
+import { rotateFiles } from './fileRotation';
+import { DEFAULTS } from '../constants';
+import { ScheduledReportFormat, ScheduledReportInterval } from '../types';
+
+const INTERVALS: Record<Exclude<ScheduledReportInterval, 'off'>, number> = {
+    hourly: 60 * 60 * 1000,
+    daily: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Only files with this prefix are ever rotated, so other files in the folder are left alone
+ */
+const FILE_PREFIX = 'extension-performance-snapshot-';
+const FILE_PATTERN = /^extension-performance-snapshot-.+\.(json|html)$/;
+
+/**
+ * Writes report snapshots on a schedule and when VS Code closes, keeping the folder within the configured limits
+ *
+ * Failures are written to the output channel; nothing here shows a popup.
+ */
+export class ReportScheduler implements vscode.Disposable {
+    private timer?: NodeJS.Timeout;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param defaultFolder - Folder used when `extperf.scheduledReports.folder` is empty
+     */
+    constructor(
+        private readonly reportExporter: ReportExporter,
+        private readonly performanceMonitor: PerformanceMonitor,
+        private readonly configManager: ConfigManager,
+        private readonly defaultFolder: string
+    ) {
+        this.disposables.push(this.configManager.onConfigurationChanged(e => {
+            if (e.affectsConfiguration('extperf.scheduledReports')) {
+                this.schedule();
+            }
+        }));
+    }
+
+    /**
+     * Starts the schedule from the current settings
+     */
+    start(): void {
+        this.schedule();
+    }
+
+    /**
+     * Writes a snapshot if `extperf.scheduledReports.onShutdown` is set; call while deactivating
+     */
+    async writeShutdownSnapshot(): Promise<void> {
+        if (this.configManager.getConfig<boolean>('scheduledReports.onShutdown', false)) {
+            await this.writeSnapshot('shutdown');
+        }
+    }
+
+    /**
+     * Writes one snapshot and rotates old ones
+     * @returns Path of the written file, or undefined when nothing was written
+     */
+    async writeSnapshot(reason: 'scheduled' | 'shutdown'): Promise<string | undefined> {
+        if (this.performanceMonitor.getCurrentMetrics().length === 0) {
+            this.performanceMonitor.log(`Skipped ${reason} report snapshot: no metrics collected yet`);
+            return undefined;
+        }
+
+        try {
+            const format = this.configManager.getConfig<ScheduledReportFormat>('scheduledReports.format', 'json');
+            const folder = this.getFolder();
+            const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+            const filePath = path.join(folder, `${FILE_PREFIX}${stamp}.${format}`);
+
+            await fs.mkdir(folder, { recursive: true });
+            await fs.writeFile(filePath, this.reportExporter.renderReport(format), 'utf8');
+            this.performanceMonitor.log(`Wrote ${reason} report snapshot to ${filePath}`);
+
+            await this.rotate(folder);
+            return filePath;
+        } catch (error) {
+            this.performanceMonitor.log(`Failed to write ${reason} report snapshot: ${error}`);
+            return undefined;
+        }
+    }
+
+    private schedule(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+
+        const interval = this.configManager.getConfig<ScheduledReportInterval>('scheduledReports.interval', 'off');
+        if (interval === 'off' || !INTERVALS[interval]) {
+            return;
+        }
+        this.timer = setInterval(() => {
+            void this.writeSnapshot('scheduled');
+        }, INTERVALS[interval]);
+        this.performanceMonitor.log(`Writing ${interval} report snapshots to ${this.getFolder()}`);
+    }
+
+    /**
+     * Deletes the oldest snapshots beyond `maxFiles` and those older than `maxAgeDays`
+     */
+    private async rotate(folder: string): Promise<void> {
+        const maxFiles = this.configManager.getConfig<number>('scheduledReports.maxFiles', DEFAULTS.SCHEDULED_REPORTS_MAX_FILES);
+        const maxAgeDays = this.configManager.getConfig<number>('scheduledReports.maxAgeDays', DEFAULTS.SCHEDULED_REPORTS_MAX_AGE_DAYS);
+
+        const removed = await rotateFiles(folder, FILE_PATTERN, maxFiles, maxAgeDays);
+        if (removed > 0) {
+            this.performanceMonitor.log(`Removed ${removed} old report snapshot${removed === 1 ? '' : 's'}`);
+        }
+    }
+
+    private getFolder(): string {
+        const configured = this.configManager.getConfig<string>('scheduledReports.folder', '').trim();
+        if (!configured) {
+            return this.defaultFolder;
+        }
+        return path.resolve(configured.replace(/^~(?=$|[\\/])/, os.homedir()));
+    }
+
+    dispose(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
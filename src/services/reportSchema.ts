@@ -0,0 +1,290 @@
+import reportSchema from '../schemas/performanceReport.schema.json';
+import { PerformanceReport, TimeSeriesPoint } from '../types';
+import { summarizeHistory } from './timeSeriesStore';
+
+/**
+ * Version of the report shape written by this build; matches `schemaVersion` in the JSON Schema
+ * - 1: unversioned, history stored as raw `metrics` samples
+ * - 2: history stored as time-series `points`
+ * - 3: history points may carry their `metricSource`
+ */
+export const REPORT_SCHEMA_VERSION = 3;
+
+/**
+ * The subset of JSON Schema used by the report schema
+ */
+interface SchemaNode {
+    $ref?: string;
+    type?: string | string[];
+    const?: unknown;
+    enum?: unknown[];
+    format?: string;
+    minimum?: number;
+    maximum?: number;
+    required?: string[];
+    properties?: Record<string, SchemaNode>;
+    additionalProperties?: boolean | SchemaNode;
+    items?: SchemaNode;
+    definitions?: Record<string, SchemaNode>;
+}
+
+const ROOT_SCHEMA = reportSchema as SchemaNode;
+
+/**
+ * Upgrades a report from the previous version, keyed by the version it produces; modifies the report in place
+ *
+ * Versions that only add optional fields need no migration.
+ */
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => void> = {
+    2: migrateFromMetricSamples
+};
+
+/**
+ * Checks a parsed report against the report schema
+ * @returns One message per problem, empty when the report is valid
+ */
+export function validateReport(value: unknown): string[] {
+    const errors: string[] = [];
+    validateNode(value, ROOT_SCHEMA, '', errors);
+    return errors;
+}
+
+/**
+ * Upgrades a parsed report to the current schema version; modifies the report in place
+ * @returns The version the report was written with
+ * @throws Error when the report was written by a newer version of the extension
+ */
+export function migrateReport(raw: Record<string, unknown>): number {
+    const version = detectVersion(raw);
+    if (version > REPORT_SCHEMA_VERSION) {
+        throw new Error(`report schema version ${version} is newer than the supported version ${REPORT_SCHEMA_VERSION}; update the extension to read it`);
+    }
+
+    for (let next = version + 1; next <= REPORT_SCHEMA_VERSION; next++) {
+        MIGRATIONS[next]?.(raw);
+    }
+    if (isObject(raw.reportMetadata)) {
+        raw.reportMetadata.schemaVersion = REPORT_SCHEMA_VERSION;
+    }
+    return version;
+}
+
+/**
+ * Serializes a report for export, checking it against the schema first
+ * @throws Error naming the first problems found when the report does not match the schema
+ */
+export function serializeReport(report: PerformanceReport): string {
+    const content = JSON.stringify(report, null, 2);
+    // Validate what readers will see, e.g. NaN written as null
+    const errors = validateReport(JSON.parse(content));
+    if (errors.length > 0) {
+        throw new Error(`report does not match schema version ${REPORT_SCHEMA_VERSION}: ${describeErrors(errors)}`);
+    }
+    return content;
+}
+
+/**
+ * Joins the first few validation errors into one message
+ */
+export function describeErrors(errors: readonly string[]): string {
+    const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : '';
+    return `${errors.slice(0, 3).join('; ')}${more}`;
+}
+
+function detectVersion(raw: Record<string, unknown>): number {
+    const declared = isObject(raw.reportMetadata) ? raw.reportMetadata.schemaVersion : undefined;
+    if (typeof declared === 'number' && Number.isInteger(declared) && declared > 0) {
+        return declared;
+    }
+    return 1; // Written before reports were versioned
+}
+
+function validateNode(value: unknown, node: SchemaNode, path: string, errors: string[]): void {
+    if (node.$ref) {
+        validateNode(value, resolveRef(node.$ref), path, errors);
+        return;
+    }
+    const at = path || 'report';
+
+    if (node.type) {
+        const types = Array.isArray(node.type) ? node.type : [node.type];
+        if (!types.some(type => matchesType(value, type))) {
+            errors.push(value === undefined ? `${at} is missing` : `${at} is not ${types.map(article).join(' or ')}`);
+            return;
+        }
+    }
+    if (node.const !== undefined && value !== node.const) {
+        errors.push(`${at} must be ${JSON.stringify(node.const)}`);
+    }
+    if (node.enum && !node.enum.includes(value)) {
+        errors.push(`${at} must be one of ${node.enum.map(entry => JSON.stringify(entry)).join(', ')}`);
+    }
+    if (node.format === 'date-time' && typeof value === 'string' && Number.isNaN(new Date(value).getTime())) {
+        errors.push(`${at} is not a date`);
+    }
+    if (typeof value === 'number') {
+        if (node.minimum !== undefined && value < node.minimum) {
+            errors.push(`${at} is below ${node.minimum}`);
+        }
+        if (node.maximum !== undefined && value > node.maximum) {
+            errors.push(`${at} is above ${node.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value) && node.items) {
+        value.forEach((item, index) => validateNode(item, node.items!, `${path}[${index}]`, errors));
+    }
+
+    if (isObject(value)) {
+        const child = (key: string) => (path ? `${path}.${key}` : key);
+        for (const key of node.required ?? []) {
+            if (!(key in value)) {
+                errors.push(`${child(key)} is missing`);
+            }
+        }
+        for (const [key, entry] of Object.entries(value)) {
+            const property = node.properties?.[key];
+            if (property) {
+                validateNode(entry, property, child(key), errors);
+            } else if (node.additionalProperties === false) {
+                errors.push(`${at} has unknown property "${key}"`);
+            } else if (isObject(node.additionalProperties)) {
+                validateNode(entry, node.additionalProperties, `${path}["${key}"]`, errors);
+            }
+        }
+    }
+}
+
+function resolveRef(ref: string): SchemaNode {
+    const name = ref.replace('#/definitions/', '');
+    const node = ROOT_SCHEMA.definitions?.[name];
+    if (!node) {
+        throw new Error(`report schema has no definition for ${ref}`);
+    }
+    return node;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'object':
+            return isObject(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'number':
+            return isNumber(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'null':
+            return value === null;
+        default:
+            return typeof value === type;
+    }
+}
+
+function article(type: string): string {
+    return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * 1 → 2: converts raw history samples to time-series points and fills in fields older builds did not record
+ */
+function migrateFromMetricSamples(raw: Record<string, unknown>): void {
+    const historicalData = raw.historicalData;
+    if (isObject(historicalData)) {
+        for (const [extensionId, history] of Object.entries(historicalData)) {
+            if (isObject(history) && Array.isArray(history.points)) {
+                continue;
+            }
+            const points = asArray(isObject(history) ? history.metrics : undefined).filter(isObject).map(metricToPoint);
+            historicalData[extensionId] = summarizeHistory(extensionId, points) ?? {
+                extensionId,
+                points: [],
+                averages: { cpu: 0, memory: 0 },
+                peaks: { cpu: { value: 0, timestamp: 0 }, memory: { value: 0, timestamp: 0 } }
+            };
+        }
+    }
+
+    raw.hostHistory ??= [];
+    raw.insights ??= {
+        topPerformers: { cpu: [], memory: [] },
+        worstPerformers: { cpu: [], memory: [] },
+        recommendations: []
+    };
+    const generatedAt = isObject(raw.reportMetadata) ? raw.reportMetadata.generatedAt : undefined;
+    const timestamp = typeof generatedAt === 'string' ? new Date(generatedAt).getTime() : NaN;
+    if (!Array.isArray(raw.currentMetrics)) {
+        return;
+    }
+    const metrics = asArray(raw.currentMetrics).filter(isObject);
+    const summary = isObject(raw.summary) ? raw.summary : summarizeMetrics(metrics, timestamp);
+    raw.summary = summary;
+    summary.excludedFromTotals ??= 0;
+    summary.topCpuConsumers ??= [];
+    summary.topMemoryConsumers ??= [];
+
+    const lists: unknown[] = [metrics, summary.topCpuConsumers, summary.topMemoryConsumers];
+    const insights = isObject(raw.insights) ? raw.insights : {};
+    for (const group of [insights.topPerformers, insights.worstPerformers]) {
+        if (isObject(group)) {
+            lists.push(group.cpu, group.memory);
+        }
+    }
+    for (const list of lists) {
+        for (const metric of asArray(list).filter(isObject)) {
+            metric.version ??= '';
+            metric.isBuiltin ??= false;
+            metric.timestamp ??= timestamp;
+            metric.metricSource ??= 'estimated';
+            metric.confidence ??= 0;
+        }
+    }
+}
+
+function metricToPoint(metric: Record<string, unknown>): TimeSeriesPoint {
+    const cpuUsage = numberOrZero(metric.cpuUsage);
+    const memoryUsage = numberOrZero(metric.memoryUsage);
+    return {
+        timestamp: numberOrZero(metric.timestamp),
+        cpuUsage,
+        memoryUsage,
+        cpuPeak: cpuUsage,
+        memoryPeak: memoryUsage,
+        samples: 1,
+        subprocessCount: numberOrZero(metric.subprocessCount)
+    };
+}
+
+/**
+ * Builds the summary that version 1 reports could omit; the metrics are checked against the schema after migration
+ */
+function summarizeMetrics(metrics: Record<string, unknown>[], timestamp: number): Record<string, unknown> {
+    const sum = (key: string) => metrics.reduce((total, metric) => total + numberOrZero(metric[key]), 0);
+    const top = (key: string) => [...metrics].sort((a, b) => numberOrZero(b[key]) - numberOrZero(a[key])).slice(0, 5);
+    return {
+        totalExtensions: metrics.length,
+        activeExtensions: metrics.filter(metric => metric.isActive === true).length,
+        totalCpuUsage: sum('cpuUsage'),
+        totalMemoryUsage: sum('memoryUsage'),
+        topCpuConsumers: top('cpuUsage'),
+        topMemoryConsumers: top('memoryUsage'),
+        excludedFromTotals: 0,
+        timestamp
+    };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function numberOrZero(value: unknown): number {
+    return isNumber(value) ? value : 0;
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
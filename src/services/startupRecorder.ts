@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { ActivationSession, PerformanceSummary, StartupReport } from '../types';
+
+const REPORTS_KEY = 'startupReports';
+const MAX_REPORTS = 30;
+const MAX_SAMPLES = 5;
+const TOP_CONSUMERS = 3;
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Samples taken later than this after the report was recorded no longer describe startup
+ */
+const SAMPLE_WINDOW_MS = 2 * 60 * 1000;
+
+/**
+ * Records a startup report for each extension-host session and keeps the most recent ones
+ */
+export class StartupRecorder implements vscode.Disposable {
+    private report?: StartupReport;
+    private readonly onReportsChanged = new vscode.EventEmitter<void>();
+    readonly onDidChangeReports = this.onReportsChanged.event;
+
+    constructor(private readonly storage: vscode.Memento) {}
+
+    /**
+     * Records the report for the current session; call as soon as this extension activates
+     * @param session - Activation session of the current extension host
+     * @param installedExtensions - Ids of all installed extensions
+     * @param builtinExtensions - Ids of the installed extensions that ship with VS Code
+     */
+    record(session: ActivationSession, installedExtensions: string[], builtinExtensions: string[]): StartupReport {
+        const memory = process.memoryUsage();
+        const cpu = process.cpuUsage();
+
+        this.report = {
+            sessionId: session.sessionId,
+            recordedAt: Date.now(),
+            vscodeVersion: session.vscodeVersion,
+            host: {
+                uptime: process.uptime(),
+                cpuTime: (cpu.user + cpu.system) / 1000,
+                rss: memory.rss / BYTES_PER_MB,
+                heapUsed: memory.heapUsed / BYTES_PER_MB,
+                heapTotal: memory.heapTotal / BYTES_PER_MB,
+                external: memory.external / BYTES_PER_MB
+            },
+            activations: [...session.activations],
+            installedExtensions: [...installedExtensions].sort(),
+            builtinExtensions: [...builtinExtensions].sort(),
+            samples: []
+        };
+        void this.save();
+        return this.report;
+    }
+
+    /**
+     * Adds a sample to the current report while it is still within the startup window
+     */
+    addSample(summary: PerformanceSummary): void {
+        const report = this.report;
+        if (!report || report.samples.length >= MAX_SAMPLES || summary.timestamp - report.recordedAt > SAMPLE_WINDOW_MS) {
+            return;
+        }
+
+        report.samples.push({
+            timestamp: summary.timestamp,
+            hostCpu: summary.host?.cpuUsage ?? 0,
+            hostRss: summary.host?.rss ?? 0,
+            extensionsCpu: summary.totalCpuUsage,
+            extensionsMemory: summary.totalMemoryUsage,
+            topCpuConsumers: summary.topCpuConsumers.slice(0, TOP_CONSUMERS).map(metric => ({
+                extensionId: metric.id,
+                cpuUsage: metric.cpuUsage,
+                memoryUsage: metric.memoryUsage
+            }))
+        });
+        void this.save();
+    }
+
+    /**
+     * Gets stored reports, most recent first; the current session's report comes first once recorded
+     */
+    getReports(): StartupReport[] {
+        const stored = this.storage.get<StartupReport[]>(REPORTS_KEY, []);
+        if (!this.report) {
+            return stored;
+        }
+        return [this.report, ...stored.filter(report => report.sessionId !== this.report!.sessionId)];
+    }
+
+    /**
+     * Deletes stored reports of previous sessions; the current session's report is kept
+     */
+    async clear(): Promise<void> {
+        await this.storage.update(REPORTS_KEY, this.report ? [this.report] : undefined);
+        this.onReportsChanged.fire();
+    }
+
+    dispose(): void {
+        this.onReportsChanged.dispose();
+    }
+
+    private async save(): Promise<void> {
+        await this.storage.update(REPORTS_KEY, this.getReports().slice(0, MAX_REPORTS));
+        this.onReportsChanged.fire();
+    }
+}
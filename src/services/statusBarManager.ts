@@ -65,9 +65,23 @@ export class StatusBarManager {
         // Create detailed tooltip
         const tooltip = new vscode.MarkdownString();
         tooltip.appendMarkdown(`**Extension Performance Monitor**\n\n`);
-        tooltip.appendMarkdown(`- **Total CPU Usage:** ${summary.totalCpuUsage.toFixed(1)}%\n`);
-        tooltip.appendMarkdown(`- **Total Memory Usage:** ${summary.totalMemoryUsage.toFixed(0)} MB\n`);
-        tooltip.appendMarkdown(`- **Active Extensions:** ${summary.activeExtensions}/${summary.totalExtensions}\n\n`);
+        tooltip.appendMarkdown(`- **Total CPU Usage:** ${summary.totalCpuUsage.toFixed(1)}%`);
+        tooltip.appendMarkdown(summary.hostBudget ? ` of ${summary.hostBudget.cpu.toFixed(1)}% host budget\n` : `\n`);
+        tooltip.appendMarkdown(`- **Total Memory Usage:** ${summary.totalMemoryUsage.toFixed(0)} MB`);
+        tooltip.appendMarkdown(summary.hostBudget ? ` of ${summary.hostBudget.memory.toFixed(0)} MB host budget\n` : `\n`);
+        tooltip.appendMarkdown(`- **Active Extensions:** ${summary.activeExtensions}/${summary.totalExtensions}\n`);
+        tooltip.appendMarkdown(`- **Sources:** ${this.describeSources()}\n\n`);
+
+        if (summary.host) {
+            tooltip.appendMarkdown(`**Extension Host:** CPU ${summary.host.cpuUsage.toFixed(1)}%, `);
+            tooltip.appendMarkdown(`RSS ${summary.host.rss.toFixed(0)} MB, heap ${summary.host.heapUsed.toFixed(0)}/${summary.host.heapTotal.toFixed(0)} MB\n\n`);
+        }
+
+        if (summary.eventLoop) {
+            tooltip.appendMarkdown(`**Event Loop Delay:** p50 ${summary.eventLoop.p50.toFixed(0)} ms, p95 ${summary.eventLoop.p95.toFixed(0)} ms, `);
+            tooltip.appendMarkdown(`p99 ${summary.eventLoop.p99.toFixed(0)} ms, max ${summary.eventLoop.max.toFixed(0)} ms`);
+            tooltip.appendMarkdown(summary.eventLoop.longTaskCount > 0 ? ` (${summary.eventLoop.longTaskCount} long tasks)\n\n` : `\n\n`);
+        }
         
         if (summary.topCpuConsumers.length > 0) {
             tooltip.appendMarkdown(`**Top CPU Consumers:**\n`);
@@ -97,6 +111,17 @@ export class StatusBarManager {
         }
     }
 
+    /**
+     * Summarises how many extensions have measured, attributed or estimated values
+     */
+    private describeSources(): string {
+        const counts = { measured: 0, attributed: 0, estimated: 0 };
+        for (const metric of this.performanceMonitor.getCurrentMetrics()) {
+            counts[metric.metricSource ?? 'estimated'] += 1;
+        }
+        return `${counts.measured} measured, ${counts.attributed} attributed, ${counts.estimated} estimated`;
+    }
+
     /**
      * Disposes of the status bar item
      */
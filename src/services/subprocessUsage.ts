@@ -1,12 +1,29 @@
 import pidusage, { Stat as PidusageStat } from 'pidusage';
 import psTree from 'ps-tree';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { UNATTRIBUTED_PROCESSES_ID } from '../constants';
+import { MemoryMetric } from '../types';
+import { ProcSampler } from './procSampler';
+
+/**
+ * How a child process was matched to an extension
+ */
+export type SubprocessAttribution = 'forced' | 'command' | 'cwd' | 'environment' | 'fileDescriptors' | 'parent';
 
 export interface SubprocessUsage {
     pid: number;
     ppid: number;
     command: string;
     cpu: number;
-    memory: number; // MB
+    memory: number; // MB, measured as memoryMetric
+    memoryMetric: MemoryMetric; // Measure actually used for memory; rss when the requested one was unavailable
+    rss: number; // MB
+    pss?: number; // MB, from /proc on Linux
+    uss?: number; // MB, from /proc on Linux
+    threads?: number; // From /proc on Linux
+    startTime?: number; // Ticks after boot, from /proc on Linux
+    attribution?: SubprocessAttribution; // Missing for processes in the unattributed bucket
 }
 
 export interface ExtensionSubprocessStats {
@@ -29,9 +46,31 @@ export interface CollectSubprocessStatsOptions {
     pidToExtensionId?: ReadonlyMap<number, string>;
     rootPid?: number;
     debug?: boolean;
+    procRoot?: string; // Where to read per-process details; defaults to /proc on Linux, unused elsewhere
+    procSampler?: ProcSampler; // Keep one across calls so CPU is measured between them; one per procRoot is shared otherwise
+    memoryMetric?: MemoryMetric; // Defaults to rss; pss and uss need /proc/<pid>/smaps_rollup
+    attributionCache?: AttributionCache; // Keep one across calls so /proc details are read once per process; one per procRoot is shared otherwise
+}
+
+/**
+ * Matches made from /proc details, so each process is looked up once rather than on every sample
+ */
+export interface AttributionCache {
+    extensions: string; // Extension ids the entries were matched against; a different set starts over
+    entries: Map<string, { extensionId?: string; attribution?: SubprocessAttribution }>; // By `${pid}:${startTime}`; no extension when nothing matched
+}
+
+/**
+ * Details read from /proc for processes whose command line names no extension
+ */
+export interface ProcessDetails {
+    commandLine?: string;
+    cwd?: string;
+    environment: Record<string, string>;
+    openFiles: string[];
 }
 
-interface ExtensionIndexEntry {
+export interface ExtensionIndexEntry {
     id: string;
     name: string;
     path: string;
@@ -46,7 +85,7 @@ interface PsTreeEntry {
     COMMAND_LINE?: string;
 }
 
-function normalizePath(value: string): string {
+export function normalizePath(value: string): string {
     return value.replace(/\\/g, '/').toLowerCase();
 }
 
@@ -73,7 +112,8 @@ async function getAllDescendants(rootPid: number): Promise<PsTreeEntry[]> {
         const children = await getProcessTree(pid);
         for (const child of children) {
             const childPid = Number(child.PID);
-            if (Number.isFinite(childPid) && childPid > 0) {
+            // ps-tree lists all descendants, so grandchildren come back again from their parent
+            if (Number.isFinite(childPid) && childPid > 0 && !visited.has(childPid)) {
                 allChildren.push(child);
                 await collect(childPid);
             }
@@ -88,7 +128,16 @@ function resolveCommand(entry: PsTreeEntry): string {
     return entry.COMMAND_LINE || entry.COMMAND || entry.COMM || '';
 }
 
-function findBestMatch(command: string, extensions: ExtensionIndexEntry[]): ExtensionIndexEntry | undefined {
+export function buildExtensionIndex(extensions: readonly ExtensionLike[]): ExtensionIndexEntry[] {
+    return extensions.map((extension) => ({
+        id: extension.id,
+        name: extension.packageJSON?.displayName || extension.id,
+        path: normalizePath(extension.extensionPath),
+        idLower: extension.id.toLowerCase()
+    }));
+}
+
+export function findBestMatch(command: string, extensions: ExtensionIndexEntry[]): ExtensionIndexEntry | undefined {
     if (!command) {
         return undefined;
     }
@@ -115,17 +164,118 @@ function findBestMatchWithDebug(command: string, extensions: ExtensionIndexEntry
     return match;
 }
 
+const MAX_OPEN_FILES = 256;
+
+/**
+ * Reads the full command line, working directory, environment and open files of a process; missing details are left empty
+ */
+export async function readProcessDetails(pid: number, procRoot = '/proc'): Promise<ProcessDetails> {
+    const dir = path.join(procRoot, String(pid));
+    const [commandLine, cwd, environment, openFiles] = await Promise.all([
+        fs.readFile(path.join(dir, 'cmdline'), 'utf8').then(content => content.replace(/\0+$/, '').replace(/\0/g, ' ')).catch(() => undefined),
+        fs.readlink(path.join(dir, 'cwd')).catch(() => undefined),
+        readEnvironment(dir),
+        readOpenFiles(path.join(dir, 'fd'))
+    ]);
+    return { commandLine: commandLine || undefined, cwd, environment, openFiles };
+}
+
+async function readEnvironment(dir: string): Promise<Record<string, string>> {
+    const environment: Record<string, string> = {};
+    let content: string;
+    try {
+        content = await fs.readFile(path.join(dir, 'environ'), 'utf8');
+    } catch {
+        return environment;
+    }
+    for (const entry of content.split('\0')) {
+        const separator = entry.indexOf('=');
+        if (separator > 0) {
+            environment[entry.slice(0, separator)] = entry.slice(separator + 1);
+        }
+    }
+    return environment;
+}
+
+async function readOpenFiles(fdDir: string): Promise<string[]> {
+    let fds: string[];
+    try {
+        fds = (await fs.readdir(fdDir)).slice(0, MAX_OPEN_FILES);
+    } catch {
+        return [];
+    }
+    const targets = await Promise.all(fds.map(fd => fs.readlink(path.join(fdDir, fd)).catch(() => undefined)));
+    // Sockets, pipes and anonymous inodes read as e.g. "socket:[1234]" and say nothing about the owner
+    return targets.filter((target): target is string => !!target && target.startsWith('/'));
+}
+
+/**
+ * Matches a process to an extension from its full command line, working directory, environment or open files, in that order
+ * @param hostEnvironment - Environment of the extension host; variables inherited unchanged from it,
+ *   such as `VSCODE_IPC_HOOK` or a PATH an extension extended, are the same for every child and are ignored
+ */
+export function attributeByDetails(
+    details: ProcessDetails,
+    extensions: ExtensionIndexEntry[],
+    hostEnvironment: Readonly<Record<string, string | undefined>>
+): { match: ExtensionIndexEntry; attribution: SubprocessAttribution } | undefined {
+    // ps-tree only reports the executable name, so the full command line can still name the extension
+    const byCommand = details.commandLine ? findBestMatch(details.commandLine, extensions) : undefined;
+    if (byCommand) {
+        return { match: byCommand, attribution: 'command' };
+    }
+
+    const byCwd = details.cwd ? findBestMatch(details.cwd, extensions) : undefined;
+    if (byCwd) {
+        return { match: byCwd, attribution: 'cwd' };
+    }
+
+    const ownValues = Object.entries(details.environment)
+        .filter(([key, value]) => hostEnvironment[key] !== value)
+        .map(([, value]) => value);
+    const byEnvironment = mostFrequentMatch(ownValues, extensions);
+    if (byEnvironment) {
+        return { match: byEnvironment, attribution: 'environment' };
+    }
+
+    const byFiles = mostFrequentMatch(details.openFiles, extensions);
+    if (byFiles) {
+        return { match: byFiles, attribution: 'fileDescriptors' };
+    }
+
+    return undefined;
+}
+
+function mostFrequentMatch(values: string[], extensions: ExtensionIndexEntry[]): ExtensionIndexEntry | undefined {
+    const counts = new Map<ExtensionIndexEntry, number>();
+    for (const value of values) {
+        const match = findBestMatch(value, extensions);
+        if (match) {
+            counts.set(match, (counts.get(match) ?? 0) + 1);
+        }
+    }
+    let best: ExtensionIndexEntry | undefined;
+    for (const [match, count] of counts) {
+        if (!best || count > counts.get(best)!) {
+            best = match;
+        }
+    }
+    return best;
+}
+
+/**
+ * Collects CPU and memory of the root process's descendants, grouped by extension
+ *
+ * Processes are matched by command line first, then by the nearest matched ancestor, then by full command line,
+ * working directory, environment and open files where /proc is available; those details are read once per process.
+ * Whatever is left is reported under `UNATTRIBUTED_PROCESSES_ID`.
+ */
 export async function collectSubprocessStats(
     extensions: readonly ExtensionLike[],
     options?: CollectSubprocessStatsOptions
 ): Promise<Map<string, ExtensionSubprocessStats>> {
     const statsByExtension = new Map<string, ExtensionSubprocessStats>();
-    const indexedExtensions: ExtensionIndexEntry[] = extensions.map((extension) => ({
-        id: extension.id,
-        name: extension.packageJSON?.displayName || extension.id,
-        path: normalizePath(extension.extensionPath),
-        idLower: extension.id.toLowerCase()
-    }));
+    const indexedExtensions = buildExtensionIndex(extensions);
 
     const extensionsById = new Map<string, ExtensionIndexEntry>();
     for (const entry of indexedExtensions) {
@@ -133,71 +283,119 @@ export async function collectSubprocessStats(
     }
 
     const rootPid = options?.rootPid ?? process.pid;
-    const children = await getAllDescendants(rootPid);
+    const procRoot = options?.procRoot ?? (process.platform === 'linux' ? '/proc' : undefined);
+    const usages = await sampleDescendants(rootPid, procRoot, options);
+    usages.forEach(usage => selectMemory(usage, options?.memoryMetric ?? 'rss'));
     if (options?.debug) {
-        console.error(`[DEBUG] Root PID ${rootPid} has ${children.length} descendants:`);
-        children.forEach(child => {
-            console.error(`  PID ${child.PID}: ${resolveCommand(child)}`);
+        console.error(`[DEBUG] Root PID ${rootPid} has ${usages.length} descendants:`);
+        usages.forEach(usage => {
+            console.error(`  PID ${usage.pid}: ${usage.command}`);
         });
     }
-    if (children.length === 0) {
+    if (usages.length === 0) {
         return statsByExtension;
     }
 
-    const pids = children
-        .map((child) => Number(child.PID))
-        .filter((pid) => Number.isFinite(pid) && pid > 0);
+    const entries: SubprocessUsage[] = [];
+    const matches = new Map<number, ExtensionIndexEntry>();
 
-    if (pids.length === 0) {
-        return statsByExtension;
-    }
+    for (const entry of usages) {
+        const { pid, command } = entry;
+        entries.push(entry);
 
-    let usageStats: Record<string, PidusageStat> = {};
-    try {
-        usageStats = await pidusage(pids);
-    } catch (error) {
-        // Ignore and fall back to empty stats if pidusage fails.
-        return statsByExtension;
+        let match: ExtensionIndexEntry | undefined;
+        const forcedExtensionId = options?.pidToExtensionId?.get(pid);
+        if (forcedExtensionId) {
+            match = extensionsById.get(forcedExtensionId);
+            entry.attribution = match ? 'forced' : undefined;
+        } else {
+            match = options?.debug ? findBestMatchWithDebug(command, indexedExtensions) : findBestMatch(command, indexedExtensions);
+            entry.attribution = match ? 'command' : undefined;
+        }
+
+        if (match) {
+            matches.set(pid, match);
+        }
     }
 
-    for (const child of children) {
-        const pid = Number(child.PID);
-        if (!Number.isFinite(pid)) {
+    // Helpers such as shells or watchers started by an already matched process belong to the same extension.
+    // Ancestors are visited first, so /proc details are only read for processes no ancestor accounts for.
+    const parents = new Map(usages.map(usage => [usage.pid, usage.ppid]));
+    const ancestorsOf = (pid: number): number[] => {
+        const ancestors: number[] = [];
+        const seen = new Set<number>([pid]);
+        let ancestor = parents.get(pid)!;
+        while (ancestor !== rootPid && parents.has(ancestor) && !seen.has(ancestor)) {
+            ancestors.push(ancestor);
+            seen.add(ancestor);
+            ancestor = parents.get(ancestor)!;
+        }
+        return ancestors;
+    };
+    const cache = procRoot ? getAttributionCache(procRoot, indexedExtensions, options) : undefined;
+    let hostEnvironment: Readonly<Record<string, string | undefined>> | undefined;
+
+    const unmatched = entries
+        .filter(entry => !matches.has(entry.pid))
+        .map(entry => ({ entry, ancestors: ancestorsOf(entry.pid) }))
+        .sort((a, b) => a.ancestors.length - b.ancestors.length);
+    for (const { entry, ancestors } of unmatched) {
+        const ancestorMatch = ancestors.map(ancestor => matches.get(ancestor)).find(Boolean);
+        if (ancestorMatch) {
+            matches.set(entry.pid, ancestorMatch);
+            entry.attribution = 'parent';
+            continue;
+        }
+        if (!procRoot) {
             continue;
         }
 
-        const usage = usageStats[String(pid)];
-        if (!usage) {
+        const key = entry.startTime !== undefined ? `${entry.pid}:${entry.startTime}` : undefined;
+        const cached = key ? cache?.entries.get(key) : undefined;
+        if (cached) {
+            const match = cached.extensionId ? extensionsById.get(cached.extensionId) : undefined;
+            if (match) {
+                matches.set(entry.pid, match);
+                entry.attribution = cached.attribution;
+            }
             continue;
         }
 
-        const command = resolveCommand(child);
-        let match: ExtensionIndexEntry | undefined;
-        const forcedExtensionId = options?.pidToExtensionId?.get(pid);
-        if (forcedExtensionId) {
-            match = extensionsById.get(forcedExtensionId);
-        } else {
-            match = options?.debug ? findBestMatchWithDebug(command, indexedExtensions) : findBestMatch(command, indexedExtensions);
+        hostEnvironment ??= await readHostEnvironment(rootPid, procRoot);
+        const details = await readProcessDetails(entry.pid, procRoot);
+        entry.command = details.commandLine ?? entry.command;
+        const attributed = attributeByDetails(details, indexedExtensions, hostEnvironment);
+        if (attributed) {
+            matches.set(entry.pid, attributed.match);
+            entry.attribution = attributed.attribution;
         }
-        if (!match) {
-            // Debug: log unmatched processes
-            if (options?.debug) {
-                console.error(`[DEBUG] Unmatched process PID ${pid}: ${command}`);
-                console.error(`[DEBUG] Available extension paths:`, indexedExtensions.map(e => e.path));
+        if (key) {
+            cache?.entries.set(key, { extensionId: attributed?.match.id, attribution: attributed?.attribution });
+        }
+    }
+
+    // Exited processes cannot come back with the same start time
+    if (cache) {
+        const live = new Set(entries.map(entry => `${entry.pid}:${entry.startTime}`));
+        for (const key of cache.entries.keys()) {
+            if (!live.has(key)) {
+                cache.entries.delete(key);
             }
-            continue;
         }
+    }
 
-        const entry: SubprocessUsage = {
-            pid,
-            ppid: Number(child.PPID) || 0,
-            command,
-            cpu: usage.cpu ?? 0,
-            memory: usage.memory ? usage.memory / (1024 * 1024) : 0
-        };
+    for (const entry of entries) {
+        const match = matches.get(entry.pid);
+        if (!match && options?.debug) {
+            console.error(`[DEBUG] Unattributed process PID ${entry.pid}: ${entry.command}`);
+            console.error(`[DEBUG] Available extension paths:`, indexedExtensions.map(e => e.path));
+        } else if (match && options?.debug && entry.attribution !== 'command') {
+            console.error(`[DEBUG] Matched PID ${entry.pid} to extension "${match.id}" by ${entry.attribution}`);
+        }
 
-        const existing = statsByExtension.get(match.id) || {
-            extensionId: match.id,
+        const extensionId = match?.id ?? UNATTRIBUTED_PROCESSES_ID;
+        const existing = statsByExtension.get(extensionId) || {
+            extensionId,
             totalCpu: 0,
             totalMemory: 0,
             processCount: 0,
@@ -209,8 +407,113 @@ export async function collectSubprocessStats(
         existing.processCount += 1;
         existing.processes.push(entry);
 
-        statsByExtension.set(match.id, existing);
+        statsByExtension.set(extensionId, existing);
     }
 
     return statsByExtension;
 }
+
+const sharedProcSamplers = new Map<string, ProcSampler>();
+const sharedAttributionCaches = new Map<string, AttributionCache>();
+
+/**
+ * Gets the cache of /proc detail matches, emptied when the extensions to match against change
+ */
+function getAttributionCache(procRoot: string, extensions: readonly ExtensionIndexEntry[], options?: CollectSubprocessStatsOptions): AttributionCache {
+    let cache = options?.attributionCache ?? sharedAttributionCaches.get(procRoot);
+    if (!cache) {
+        cache = { extensions: '', entries: new Map() };
+        sharedAttributionCaches.set(procRoot, cache);
+    }
+    const ids = extensions.map(extension => extension.id).sort().join('\n');
+    if (cache.extensions !== ids) {
+        cache.extensions = ids;
+        cache.entries.clear();
+    }
+    return cache;
+}
+
+/**
+ * Lists the descendants of a process with their usage, from /proc where available and otherwise from `ps` and pidusage
+ */
+async function sampleDescendants(rootPid: number, procRoot: string | undefined, options?: CollectSubprocessStatsOptions): Promise<SubprocessUsage[]> {
+    if (procRoot) {
+        let sampler = options?.procSampler ?? sharedProcSamplers.get(procRoot);
+        if (!sampler) {
+            sampler = new ProcSampler({ procRoot });
+            sharedProcSamplers.set(procRoot, sampler);
+        }
+        try {
+            return (await sampler.sampleDescendants(rootPid)).map(usage => ({
+                pid: usage.pid,
+                ppid: usage.ppid,
+                command: usage.command,
+                cpu: usage.cpu,
+                memory: usage.rss,
+                memoryMetric: 'rss',
+                rss: usage.rss,
+                pss: usage.pss,
+                uss: usage.uss,
+                threads: usage.threads,
+                startTime: usage.startTime
+            }));
+        } catch (error) {
+            if (options?.debug) {
+                console.error(`[DEBUG] Reading ${procRoot} failed, falling back to ps: ${error}`);
+            }
+        }
+    }
+
+    const children = await getAllDescendants(rootPid);
+    const pids = children
+        .map((child) => Number(child.PID))
+        .filter((pid) => Number.isFinite(pid) && pid > 0);
+
+    if (pids.length === 0) {
+        return [];
+    }
+
+    let usageStats: Record<string, PidusageStat> = {};
+    try {
+        usageStats = await pidusage(pids);
+    } catch (error) {
+        // Ignore and fall back to empty stats if pidusage fails.
+        return [];
+    }
+
+    const usages: SubprocessUsage[] = [];
+    for (const child of children) {
+        const pid = Number(child.PID);
+        const usage = usageStats[String(pid)];
+        if (!Number.isFinite(pid) || !usage) {
+            continue;
+        }
+        const rss = usage.memory ? usage.memory / (1024 * 1024) : 0;
+        usages.push({
+            pid,
+            ppid: Number(child.PPID) || 0,
+            command: resolveCommand(child),
+            cpu: usage.cpu ?? 0,
+            memory: rss,
+            memoryMetric: 'rss',
+            rss
+        });
+    }
+    return usages;
+}
+
+/**
+ * Sets `memory` to the requested measure, falling back to RSS where it was not available
+ */
+function selectMemory(usage: SubprocessUsage, metric: MemoryMetric): void {
+    const value = metric === 'pss' ? usage.pss : metric === 'uss' ? usage.uss : usage.rss;
+    usage.memory = value ?? usage.rss;
+    usage.memoryMetric = value !== undefined ? metric : 'rss';
+}
+
+async function readHostEnvironment(rootPid: number, procRoot: string): Promise<Readonly<Record<string, string | undefined>>> {
+    if (rootPid === process.pid) {
+        return process.env;
+    }
+    return readEnvironment(path.join(procRoot, String(rootPid)));
+}
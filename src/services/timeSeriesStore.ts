@@ -0,0 +1,499 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MetricSource, PerformanceHistory, TimeSeriesPoint, TimeSeriesTier } from '../types';
+
+const INDEX_FILE = 'index.json';
+const INDEX_VERSION = 1;
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Bucket size, how long points stay in a tier and how much time one segment file covers
+ */
+const TIERS: Record<TimeSeriesTier, { bucket: number; keep: number; segment: number }> = {
+    raw: { bucket: 0, keep: HOUR, segment: HOUR },
+    '1m': { bucket: MINUTE, keep: DAY, segment: DAY },
+    '15m': { bucket: 15 * MINUTE, keep: Number.POSITIVE_INFINITY, segment: DAY }
+};
+
+const NEXT_TIER: Partial<Record<TimeSeriesTier, TimeSeriesTier>> = { raw: '1m', '1m': '15m' };
+
+/**
+ * Metric sources from most to least certain
+ */
+const SOURCE_ORDER: readonly MetricSource[] = ['measured', 'attributed', 'estimated'];
+
+/**
+ * One sample as it comes from the monitor
+ */
+export interface TimeSeriesSample {
+    timestamp: number;
+    cpuUsage: number;
+    memoryUsage: number;
+    subprocessCount?: number;
+    metricSource?: MetricSource;
+}
+
+interface SegmentInfo {
+    file: string;
+    tier: TimeSeriesTier;
+    start: number;
+    end: number;
+}
+
+interface SegmentIndex {
+    version: number;
+    segments: SegmentInfo[];
+}
+
+/**
+ * Compact on-disk representation of a point
+ */
+interface StoredPoint {
+    id: string;
+    t: number;
+    c: number;
+    m: number;
+    cp: number;
+    mp: number;
+    n: number;
+    s: number;
+    src?: MetricSource;
+}
+
+/**
+ * Stores per-extension CPU and memory samples in append-only segment files
+ *
+ * Raw samples are kept for an hour, then rolled up into 1-minute points that are kept for a day,
+ * then into 15-minute points that are kept for the retention period. All tiers are also held in
+ * memory so range queries stay synchronous; the files only need to be read when the store opens.
+ */
+export class TimeSeriesStore {
+    private series = new Map<string, Record<TimeSeriesTier, TimeSeriesPoint[]>>();
+    private segments = new Map<string, SegmentInfo>();
+    private pending = new Map<string, string[]>();
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly directory: string, private readonly getRetention: () => number) {}
+
+    /**
+     * Loads existing segments, recovering from an interrupted write or missing index
+     */
+    open(): Promise<void> {
+        return this.enqueue(async () => {
+            await fs.mkdir(this.directory, { recursive: true });
+            const index = await this.readIndex();
+            const files = await fs.readdir(this.directory);
+
+            for (const file of files) {
+                if (file.endsWith('.tmp')) {
+                    await fs.rm(path.join(this.directory, file), { force: true });
+                    continue;
+                }
+                // Segments written after the last index update are adopted from their file name
+                const segment = index.get(file) ?? parseSegmentName(file);
+                if (segment) {
+                    this.segments.set(file, segment);
+                }
+            }
+
+            const ordered = [...this.segments.values()].sort((a, b) => a.start - b.start);
+            for (const segment of ordered) {
+                await this.loadSegment(segment);
+            }
+            await this.writeIndex();
+        });
+    }
+
+    /**
+     * Records a raw sample; it is written to disk on the next flush
+     */
+    append(seriesId: string, sample: TimeSeriesSample): void {
+        const point: TimeSeriesPoint = {
+            timestamp: sample.timestamp,
+            cpuUsage: sample.cpuUsage,
+            memoryUsage: sample.memoryUsage,
+            cpuPeak: sample.cpuUsage,
+            memoryPeak: sample.memoryUsage,
+            samples: 1,
+            subprocessCount: sample.subprocessCount ?? 0,
+            metricSource: sample.metricSource
+        };
+        insertPoint(this.getSeries(seriesId).raw, point);
+
+        const file = segmentName('raw', sample.timestamp);
+        const lines = this.pending.get(file) ?? [];
+        lines.push(JSON.stringify(toStored(seriesId, point)));
+        this.pending.set(file, lines);
+    }
+
+    /**
+     * Gets points for a series in a time range, oldest first, from the finest tier covering each part
+     */
+    query(seriesId: string, range: { start?: number; end?: number } = {}): TimeSeriesPoint[] {
+        const series = this.series.get(seriesId);
+        if (!series) {
+            return [];
+        }
+
+        const start = range.start ?? Number.NEGATIVE_INFINITY;
+        const end = range.end ?? Number.POSITIVE_INFINITY;
+        // Tiers never overlap: points leave a tier when they are rolled up into the next one.
+        // Each tier is sorted, so only the points in range are visited.
+        const points: TimeSeriesPoint[] = [];
+        for (const tier of ['15m', '1m', 'raw'] as TimeSeriesTier[]) {
+            const tierPoints = series[tier];
+            for (let index = firstIndexAtOrAfter(tierPoints, start); index < tierPoints.length && tierPoints[index].timestamp <= end; index += 1) {
+                points.push(tierPoints[index]);
+            }
+        }
+        return points;
+    }
+
+    /**
+     * Gets the ids of every stored series
+     */
+    getSeriesIds(): string[] {
+        return [...this.series.keys()];
+    }
+
+    /**
+     * Writes pending samples, then rolls up and expires segments that are due
+     */
+    flush(now: number = Date.now()): Promise<void> {
+        return this.enqueue(async () => {
+            const pending = this.pending;
+            this.pending = new Map();
+            let indexChanged = false;
+
+            for (const [file, lines] of pending) {
+                await fs.appendFile(path.join(this.directory, file), lines.join('\n') + '\n', 'utf8');
+                if (!this.segments.has(file)) {
+                    this.segments.set(file, parseSegmentName(file)!);
+                    indexChanged = true;
+                }
+            }
+
+            if (await this.compact(now)) {
+                indexChanged = true;
+            }
+            if (indexChanged) {
+                await this.writeIndex();
+            }
+        });
+    }
+
+    /**
+     * Deletes all stored data
+     */
+    clear(): Promise<void> {
+        return this.enqueue(async () => {
+            this.series.clear();
+            this.pending.clear();
+            for (const file of this.segments.keys()) {
+                await fs.rm(path.join(this.directory, file), { force: true });
+            }
+            this.segments.clear();
+            await this.writeIndex();
+        });
+    }
+
+    /**
+     * Rolls up segments older than their tier's lifetime and deletes expired ones
+     */
+    private async compact(now: number): Promise<boolean> {
+        let changed = false;
+
+        for (const tier of ['raw', '1m', '15m'] as TimeSeriesTier[]) {
+            const keep = tier === '15m' ? this.getRetention() : TIERS[tier].keep;
+            const due = [...this.segments.values()]
+                .filter(segment => segment.tier === tier && segment.end <= now - keep)
+                .sort((a, b) => a.start - b.start);
+
+            for (const segment of due) {
+                const points = this.takePoints(segment);
+                const nextTier = NEXT_TIER[tier];
+                if (nextTier) {
+                    await this.writeRollup(nextTier, points);
+                }
+                await fs.rm(path.join(this.directory, segment.file), { force: true });
+                this.segments.delete(segment.file);
+                changed = true;
+            }
+        }
+
+        return changed;
+    }
+
+    /**
+     * Aggregates points into the buckets of a tier and appends them to its segments
+     */
+    private async writeRollup(tier: TimeSeriesTier, points: Map<string, TimeSeriesPoint[]>): Promise<void> {
+        const lines = new Map<string, string[]>();
+
+        for (const [seriesId, seriesPoints] of points) {
+            const target = this.getSeries(seriesId)[tier];
+            for (const point of aggregate(seriesPoints, TIERS[tier].bucket)) {
+                insertPoint(target, point, true);
+                const file = segmentName(tier, point.timestamp);
+                const fileLines = lines.get(file) ?? [];
+                fileLines.push(JSON.stringify(toStored(seriesId, point)));
+                lines.set(file, fileLines);
+            }
+        }
+
+        for (const [file, fileLines] of lines) {
+            await fs.appendFile(path.join(this.directory, file), fileLines.join('\n') + '\n', 'utf8');
+            if (!this.segments.has(file)) {
+                this.segments.set(file, parseSegmentName(file)!);
+            }
+        }
+    }
+
+    /**
+     * Removes the in-memory points a segment covers and returns them by series
+     */
+    private takePoints(segment: SegmentInfo): Map<string, TimeSeriesPoint[]> {
+        const taken = new Map<string, TimeSeriesPoint[]>();
+        for (const [seriesId, series] of this.series) {
+            const inSegment: TimeSeriesPoint[] = [];
+            series[segment.tier] = series[segment.tier].filter(point => {
+                if (point.timestamp >= segment.start && point.timestamp < segment.end) {
+                    inSegment.push(point);
+                    return false;
+                }
+                return true;
+            });
+            if (inSegment.length > 0) {
+                taken.set(seriesId, inSegment);
+            }
+        }
+        return taken;
+    }
+
+    private async loadSegment(segment: SegmentInfo): Promise<void> {
+        const filePath = path.join(this.directory, segment.file);
+        let content: string;
+        try {
+            content = await fs.readFile(filePath, 'utf8');
+        } catch {
+            this.segments.delete(segment.file);
+            return;
+        }
+
+        // A crash can leave a partial last line; terminate it so the next append starts cleanly
+        if (content.length > 0 && !content.endsWith('\n')) {
+            await fs.appendFile(filePath, '\n', 'utf8');
+        }
+
+        for (const line of content.split('\n')) {
+            const stored = parseLine(line);
+            if (stored) {
+                // Rolled-up points are keyed by bucket, so a rollup repeated after a crash replaces itself
+                insertPoint(this.getSeries(stored.id)[segment.tier], fromStored(stored), segment.tier !== 'raw');
+            }
+        }
+    }
+
+    private async readIndex(): Promise<Map<string, SegmentInfo>> {
+        try {
+            const index = JSON.parse(await fs.readFile(path.join(this.directory, INDEX_FILE), 'utf8')) as SegmentIndex;
+            if (index.version === INDEX_VERSION && Array.isArray(index.segments)) {
+                return new Map(index.segments.map(segment => [segment.file, segment]));
+            }
+        } catch {
+            // Missing or corrupt index; segments are rediscovered from the directory
+        }
+        return new Map();
+    }
+
+    private async writeIndex(): Promise<void> {
+        const index: SegmentIndex = {
+            version: INDEX_VERSION,
+            segments: [...this.segments.values()].sort((a, b) => a.start - b.start)
+        };
+        const indexPath = path.join(this.directory, INDEX_FILE);
+        await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(index), 'utf8');
+        await fs.rename(`${indexPath}.tmp`, indexPath);
+    }
+
+    private getSeries(seriesId: string): Record<TimeSeriesTier, TimeSeriesPoint[]> {
+        let series = this.series.get(seriesId);
+        if (!series) {
+            series = { raw: [], '1m': [], '15m': [] };
+            this.series.set(seriesId, series);
+        }
+        return series;
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        const run = this.queue.then(task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+}
+
+/**
+ * Averages points into fixed-size buckets, weighting by how many samples each point holds
+ */
+export function aggregate(points: readonly TimeSeriesPoint[], bucketSize: number): TimeSeriesPoint[] {
+    const buckets = new Map<number, TimeSeriesPoint>();
+
+    for (const point of points) {
+        const timestamp = Math.floor(point.timestamp / bucketSize) * bucketSize;
+        const bucket = buckets.get(timestamp);
+        if (!bucket) {
+            buckets.set(timestamp, { ...point, timestamp });
+            continue;
+        }
+        const samples = bucket.samples + point.samples;
+        bucket.cpuUsage = (bucket.cpuUsage * bucket.samples + point.cpuUsage * point.samples) / samples;
+        bucket.memoryUsage = (bucket.memoryUsage * bucket.samples + point.memoryUsage * point.samples) / samples;
+        bucket.cpuPeak = Math.max(bucket.cpuPeak, point.cpuPeak);
+        bucket.memoryPeak = Math.max(bucket.memoryPeak, point.memoryPeak);
+        bucket.subprocessCount = Math.max(bucket.subprocessCount, point.subprocessCount);
+        bucket.metricSource = leastCertainSource(bucket.metricSource, point.metricSource);
+        bucket.samples = samples;
+    }
+
+    return [...buckets.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Computes sample-weighted averages and peaks of an extension's points
+ */
+export function summarizeHistory(extensionId: string, points: TimeSeriesPoint[]): PerformanceHistory | undefined {
+    if (points.length === 0) {
+        return undefined;
+    }
+
+    let samples = 0;
+    let cpuTotal = 0;
+    let memoryTotal = 0;
+    const peaks: PerformanceHistory['peaks'] = {
+        cpu: { value: 0, timestamp: 0 },
+        memory: { value: 0, timestamp: 0 }
+    };
+    for (const point of points) {
+        samples += point.samples;
+        cpuTotal += point.cpuUsage * point.samples;
+        memoryTotal += point.memoryUsage * point.samples;
+        if (point.cpuPeak > peaks.cpu.value) {
+            peaks.cpu = { value: point.cpuPeak, timestamp: point.timestamp };
+        }
+        if (point.memoryPeak > peaks.memory.value) {
+            peaks.memory = { value: point.memoryPeak, timestamp: point.timestamp };
+        }
+    }
+
+    return {
+        extensionId,
+        points,
+        averages: {
+            cpu: samples > 0 ? cpuTotal / samples : 0,
+            memory: samples > 0 ? memoryTotal / samples : 0
+        },
+        peaks
+    };
+}
+
+function segmentName(tier: TimeSeriesTier, timestamp: number): string {
+    const span = TIERS[tier].segment;
+    return `${tier}-${Math.floor(timestamp / span) * span}.ndjson`;
+}
+
+function parseSegmentName(file: string): SegmentInfo | undefined {
+    const match = /^(raw|1m|15m)-(\d+)\.ndjson$/.exec(file);
+    if (!match) {
+        return undefined;
+    }
+    const tier = match[1] as TimeSeriesTier;
+    const start = Number(match[2]);
+    return { file, tier, start, end: start + TIERS[tier].segment };
+}
+
+/**
+ * Inserts a point keeping the list sorted; appending in time order is the common case
+ */
+function insertPoint(points: TimeSeriesPoint[], point: TimeSeriesPoint, replace = false): void {
+    let index = points.length;
+    while (index > 0 && points[index - 1].timestamp > point.timestamp) {
+        index -= 1;
+    }
+    if (replace && index > 0 && points[index - 1].timestamp === point.timestamp) {
+        points[index - 1] = point;
+        return;
+    }
+    points.splice(index, 0, point);
+}
+
+/**
+ * Picks the less certain of two sources; unknown when either is unknown
+ */
+function leastCertainSource(a: MetricSource | undefined, b: MetricSource | undefined): MetricSource | undefined {
+    if (!a || !b) {
+        return undefined;
+    }
+    return SOURCE_ORDER.indexOf(a) > SOURCE_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Binary search for the first point at or after a timestamp in a sorted list
+ */
+function firstIndexAtOrAfter(points: readonly TimeSeriesPoint[], timestamp: number): number {
+    let low = 0;
+    let high = points.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (points[middle].timestamp < timestamp) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+}
+
+function toStored(id: string, point: TimeSeriesPoint): StoredPoint {
+    return {
+        id,
+        t: point.timestamp,
+        c: round(point.cpuUsage),
+        m: round(point.memoryUsage),
+        cp: round(point.cpuPeak),
+        mp: round(point.memoryPeak),
+        n: point.samples,
+        s: point.subprocessCount,
+        src: point.metricSource
+    };
+}
+
+function fromStored(stored: StoredPoint): TimeSeriesPoint {
+    return {
+        timestamp: stored.t,
+        cpuUsage: stored.c,
+        memoryUsage: stored.m,
+        cpuPeak: stored.cp ?? stored.c,
+        memoryPeak: stored.mp ?? stored.m,
+        samples: stored.n ?? 1,
+        subprocessCount: stored.s ?? 0,
+        metricSource: SOURCE_ORDER.includes(stored.src as MetricSource) ? stored.src : undefined
+    };
+}
+
+function parseLine(line: string): StoredPoint | undefined {
+    if (!line.trim()) {
+        return undefined;
+    }
+    try {
+        const stored = JSON.parse(line) as StoredPoint;
+        return typeof stored.id === 'string' && typeof stored.t === 'number' ? stored : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
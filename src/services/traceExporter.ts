@@ -0,0 +1,147 @@
+import { PerformanceMonitor } from './performanceMonitor';
+import { EXTENSION_HOST_ID } from '../constants';
+
+export type TraceDataSource = Pick<
+    PerformanceMonitor,
+    | 'getCurrentMetrics'
+    | 'getHistoryExtensionIds'
+    | 'getExtensionHistory'
+    | 'getSubprocessStats'
+    | 'getAlertLog'
+    | 'getActivationSessions'
+>;
+
+/**
+ * One event in the Trace Event format read by Perfetto and chrome://tracing
+ */
+export interface TraceEvent {
+    name: string;
+    ph: 'C' | 'i' | 'M';
+    pid: number;
+    tid?: number;
+    ts?: number; // Microseconds
+    s?: 'g' | 'p' | 't'; // Scope of instant events
+    cat?: string;
+    args?: Record<string, unknown>;
+}
+
+export interface TraceFile {
+    traceEvents: TraceEvent[];
+    displayTimeUnit: 'ms';
+    otherData: Record<string, string>;
+}
+
+/**
+ * Extensions have no process of their own, so each gets a made-up process id from here up
+ */
+const EXTENSION_PID_BASE = 1_000_000;
+
+/**
+ * Builds a trace of recorded history: one process per extension with CPU, memory and subprocess count counters,
+ * subprocesses as threads with their own PIDs, and alerts and activations as instant events
+ *
+ * History keeps only the number of subprocesses per point, so each subprocess thread holds a single
+ * event with its usage in the latest sample rather than a counter over the window.
+ * @param hostPid - PID of the extension host, used for its own track
+ */
+export function buildTrace(source: TraceDataSource, hostPid: number, otherData: Record<string, string> = {}): TraceFile {
+    const events: TraceEvent[] = [];
+    const metrics = source.getCurrentMetrics();
+    const names = new Map(metrics.map(metric => [metric.id, metric.displayName]));
+    const extensionIds = [...new Set([...source.getHistoryExtensionIds(), ...names.keys()])].sort();
+    const pids = new Map<string, number>([[EXTENSION_HOST_ID, hostPid]]);
+    extensionIds.forEach((id, index) => pids.set(id, EXTENSION_PID_BASE + index));
+
+    let start = Infinity;
+    let end = -Infinity;
+
+    for (const [id, pid] of pids) {
+        const isHost = id === EXTENSION_HOST_ID;
+        const name = isHost ? 'Extension Host' : names.get(id) ?? id;
+        events.push(
+            { name: 'process_name', ph: 'M', pid, args: { name: isHost ? name : `${name} (${id})` } },
+            { name: 'process_sort_index', ph: 'M', pid, args: { sort_index: isHost ? -1 : pid - EXTENSION_PID_BASE } }
+        );
+
+        for (const point of source.getExtensionHistory(id)?.points ?? []) {
+            const ts = toMicroseconds(point.timestamp);
+            events.push(
+                { name: 'CPU (%)', ph: 'C', pid, ts, cat: 'usage', args: { cpu: point.cpuUsage } },
+                { name: 'Memory (MB)', ph: 'C', pid, ts, cat: 'usage', args: { memory: point.memoryUsage } }
+            );
+            // The host's own series has no subprocess count; its children are the extensions' subprocesses
+            if (!isHost) {
+                events.push({ name: 'Subprocesses', ph: 'C', pid, ts, cat: 'subprocess', args: { count: point.subprocessCount } });
+            }
+            start = Math.min(start, point.timestamp);
+            end = Math.max(end, point.timestamp);
+        }
+
+        const latest = metrics.find(metric => metric.id === id);
+        for (const subprocess of source.getSubprocessStats(id)?.processes ?? []) {
+            events.push(
+                { name: 'thread_name', ph: 'M', pid, tid: subprocess.pid, args: { name: `${subprocess.command} [${subprocess.pid}]` } },
+                {
+                    name: 'Latest subprocess sample',
+                    ph: 'i',
+                    s: 't',
+                    pid,
+                    tid: subprocess.pid,
+                    ts: toMicroseconds(latest?.timestamp ?? Date.now()),
+                    cat: 'subprocess',
+                    args: { pid: subprocess.pid, ppid: subprocess.ppid, cpu: subprocess.cpu, memory: subprocess.memory, memoryMetric: subprocess.memoryMetric }
+                }
+            );
+        }
+    }
+
+    for (const alert of source.getAlertLog()) {
+        const pid = pids.get(alert.extensionId);
+        if (pid === undefined) {
+            continue;
+        }
+        events.push({
+            name: `${alert.severity === 'critical' ? 'Critical' : 'Warning'}: ${alert.type}`,
+            ph: 'i',
+            s: 'p',
+            pid,
+            ts: toMicroseconds(alert.timestamp),
+            cat: 'alert',
+            args: { ruleId: alert.ruleId, value: alert.value, threshold: alert.threshold, duration: alert.duration }
+        });
+    }
+
+    // Only activations inside the history window, so the trace does not stretch back to old sessions
+    for (const session of source.getActivationSessions()) {
+        for (const activation of session.activations) {
+            const pid = pids.get(activation.extensionId);
+            const timestamp = session.startedAt + activation.activatedAt;
+            if (pid === undefined || timestamp < start || timestamp > end) {
+                continue;
+            }
+            events.push({
+                name: 'Activated',
+                ph: 'i',
+                s: 'p',
+                pid,
+                ts: toMicroseconds(timestamp),
+                cat: 'activation',
+                args: {
+                    activationEvent: activation.activationEvent,
+                    activationTime: activation.activationTime,
+                    sessionId: session.sessionId
+                }
+            });
+        }
+    }
+
+    return {
+        traceEvents: events,
+        displayTimeUnit: 'ms',
+        otherData: { clock: 'Unix epoch', ...otherData }
+    };
+}
+
+function toMicroseconds(timestamp: number): number {
+    return Math.round(timestamp * 1000);
+}
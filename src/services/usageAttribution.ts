@@ -0,0 +1,268 @@
+import { HostProcessMetrics, MetricSource } from '../types';
+import { ExtensionSubprocessStats } from './subprocessUsage';
+
+export interface AttributableExtension {
+    id: string;
+    isActive: boolean;
+    packageJSON?: {
+        contributes?: Record<string, unknown>;
+        activationEvents?: string[];
+    };
+}
+
+export interface UsageAttribution {
+    cpu: number; // Percentage
+    memory: number; // MB
+    source: MetricSource;
+    confidence: number; // 0-1
+}
+
+/**
+ * Signals measured once per sample and shared by every attributor
+ */
+export interface AttributionContext {
+    hostCpu: number; // Percentage of one core used by the extension host since the previous sample
+    hostHeapUsed: number; // MB
+    totalActiveWeight: number;
+    activeCount: number;
+    activationHeapDeltas: ReadonlyMap<string, number>; // MB allocated while each extension activated
+    unexplainedHeap: number; // MB of host heap not covered by activation deltas
+    unexplainedWeight: number;
+}
+
+export interface UsageAttributor {
+    readonly name: string;
+    attribute(extension: AttributableExtension, weight: number, context: AttributionContext): UsageAttribution | undefined;
+}
+
+/**
+ * Extensions that are not loaded do not run any code in the extension host.
+ */
+export const inactiveAttributor: UsageAttributor = {
+    name: 'inactive',
+    attribute(extension) {
+        if (extension.isActive) {
+            return undefined;
+        }
+        return { cpu: 0, memory: 0, source: 'estimated', confidence: 0.9 };
+    }
+};
+
+/**
+ * Uses the heap growth observed between the samples around an extension's activation.
+ */
+export const activationDeltaAttributor: UsageAttributor = {
+    name: 'activationDelta',
+    attribute(extension, weight, context) {
+        const heapDelta = context.activationHeapDeltas.get(extension.id);
+        if (heapDelta === undefined) {
+            return undefined;
+        }
+        return {
+            cpu: shareOf(context.hostCpu, weight, context.totalActiveWeight),
+            memory: heapDelta,
+            source: 'attributed',
+            confidence: 0.5
+        };
+    }
+};
+
+/**
+ * Splits measured host CPU and heap across active extensions by contribution weight.
+ */
+export const hostShareAttributor: UsageAttributor = {
+    name: 'hostShare',
+    attribute(extension, weight, context) {
+        return {
+            cpu: shareOf(context.hostCpu, weight, context.totalActiveWeight),
+            memory: shareOf(context.unexplainedHeap, weight, context.unexplainedWeight),
+            source: 'attributed',
+            confidence: context.activeCount === 1 ? 0.8 : 0.3
+        };
+    }
+};
+
+/**
+ * Uses heap retained by an extension's objects, as measured from a heap snapshot.
+ * Values are replaced whenever a new snapshot is analysed.
+ */
+export class HeapSnapshotAttributor implements UsageAttributor {
+    readonly name = 'heapSnapshot';
+    private retained = new Map<string, number>();
+
+    update(retainedByExtension: ReadonlyMap<string, number>): void {
+        this.retained = new Map(retainedByExtension);
+    }
+
+    clear(): void {
+        this.retained.clear();
+    }
+
+    attribute(extension: AttributableExtension, weight: number, context: AttributionContext): UsageAttribution | undefined {
+        const retained = this.retained.get(extension.id);
+        if (!extension.isActive || retained === undefined) {
+            return undefined;
+        }
+        return {
+            cpu: shareOf(context.hostCpu, weight, context.totalActiveWeight),
+            memory: retained,
+            source: 'measured',
+            confidence: 0.7
+        };
+    }
+}
+
+export const DEFAULT_ATTRIBUTORS: readonly UsageAttributor[] = [
+    inactiveAttributor,
+    activationDeltaAttributor,
+    hostShareAttributor
+];
+
+/**
+ * Attributes extension-host CPU and heap to the extensions running inside it.
+ *
+ * Attributors are consulted in order and the first one that returns a value wins,
+ * so additional signals can be plugged in ahead of the built-in chain with {@link use}.
+ */
+export class UsageAttributionModel {
+    private readonly attributors: UsageAttributor[];
+    private lastHeapUsed?: number;
+    private previouslyActive?: Set<string>;
+    private activationHeapDeltas = new Map<string, number>();
+    private weights = new Map<string, number>();
+    private context: AttributionContext = {
+        hostCpu: 0,
+        hostHeapUsed: 0,
+        totalActiveWeight: 0,
+        activeCount: 0,
+        activationHeapDeltas: this.activationHeapDeltas,
+        unexplainedHeap: 0,
+        unexplainedWeight: 0
+    };
+
+    constructor(attributors: readonly UsageAttributor[] = DEFAULT_ATTRIBUTORS) {
+        this.attributors = [...attributors];
+    }
+
+    /**
+     * Adds an attributor that takes precedence over the existing chain
+     */
+    use(attributor: UsageAttributor): void {
+        this.attributors.unshift(attributor);
+    }
+
+    /**
+     * Measures host signals for a new sample. Must be called before {@link attribute}.
+     */
+    beginSample(extensions: readonly AttributableExtension[], host: HostProcessMetrics): AttributionContext {
+        const hostCpu = host.cpuUsage;
+        const hostHeapUsed = host.heapUsed;
+
+        const active = extensions.filter(extension => extension.isActive);
+        const activeIds = new Set(active.map(extension => extension.id));
+        this.weights = new Map(extensions.map(extension => [extension.id, contributionWeight(extension)]));
+
+        if (this.previouslyActive && this.lastHeapUsed !== undefined) {
+            const newlyActive = active.filter(extension => !this.previouslyActive!.has(extension.id));
+            const heapGrowth = hostHeapUsed - this.lastHeapUsed;
+            if (newlyActive.length > 0 && heapGrowth > 0) {
+                const newWeight = newlyActive.reduce((sum, extension) => sum + this.getWeight(extension.id), 0);
+                for (const extension of newlyActive) {
+                    this.activationHeapDeltas.set(extension.id, shareOf(heapGrowth, this.getWeight(extension.id), newWeight));
+                }
+            }
+        }
+
+        let explainedHeap = 0;
+        let unexplainedWeight = 0;
+        let totalActiveWeight = 0;
+        for (const extension of active) {
+            const weight = this.getWeight(extension.id);
+            totalActiveWeight += weight;
+            const heapDelta = this.activationHeapDeltas.get(extension.id);
+            if (heapDelta === undefined) {
+                unexplainedWeight += weight;
+            } else {
+                explainedHeap += heapDelta;
+            }
+        }
+
+        this.context = {
+            hostCpu,
+            hostHeapUsed,
+            totalActiveWeight,
+            activeCount: active.length,
+            activationHeapDeltas: this.activationHeapDeltas,
+            unexplainedHeap: Math.max(0, hostHeapUsed - explainedHeap),
+            unexplainedWeight
+        };
+
+        this.lastHeapUsed = hostHeapUsed;
+        this.previouslyActive = activeIds;
+
+        return this.context;
+    }
+
+    /**
+     * Attributes in-host usage to a single extension for the current sample
+     */
+    attribute(extension: AttributableExtension): UsageAttribution {
+        const weight = this.getWeight(extension.id);
+        for (const attributor of this.attributors) {
+            const result = attributor.attribute(extension, weight, this.context);
+            if (result) {
+                return result;
+            }
+        }
+        return { cpu: 0, memory: 0, source: 'estimated', confidence: 0 };
+    }
+
+    private getWeight(extensionId: string): number {
+        return this.weights.get(extensionId) ?? 1;
+    }
+}
+
+/**
+ * Usage measured directly from an extension's own subprocesses
+ */
+export function measuredSubprocessUsage(stats: ExtensionSubprocessStats): UsageAttribution {
+    return {
+        cpu: stats.totalCpu,
+        memory: stats.totalMemory,
+        source: 'measured',
+        confidence: 0.9
+    };
+}
+
+/**
+ * Weight used to split shared host usage: grows with the number of contribution points
+ */
+export function contributionWeight(extension: AttributableExtension): number {
+    const contributes = extension.packageJSON?.contributes;
+    let count = 0;
+    if (contributes && typeof contributes === 'object') {
+        for (const value of Object.values(contributes)) {
+            if (Array.isArray(value)) {
+                count += value.length;
+            } else if (value && typeof value === 'object') {
+                count += Object.keys(value).length;
+            } else {
+                count += 1;
+            }
+        }
+    }
+    count += extension.packageJSON?.activationEvents?.length ?? 0;
+    return 1 + Math.log2(1 + count);
+}
+
+/**
+ * Human-readable label for a metric source and its confidence
+ */
+export function describeMetricSource(source: MetricSource | undefined, confidence: number | undefined): string {
+    const label = source ? source.charAt(0).toUpperCase() + source.slice(1) : 'Estimated';
+    return `${label} (${Math.round((confidence ?? 0) * 100)}% confidence)`;
+}
+
+function shareOf(total: number, weight: number, totalWeight: number): number {
+    return totalWeight > 0 ? (total * weight) / totalWeight : 0;
+}
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import { PerformanceMonitor } from './performanceMonitor';
+import { ActivationSession, TimeSeriesPoint } from '../types';
+import { ImportedReport } from './reportImporter';
+
+/**
+ * Metrics compared between two windows; for all of them a higher value is worse
+ */
+export const COMPARISON_METRICS = ['averageCpu', 'p95Cpu', 'averageMemory', 'peakMemory', 'activationTime', 'subprocessCount'] as const;
+
+export type ComparisonMetric = typeof COMPARISON_METRICS[number];
+
+/**
+ * Smallest change that counts as a regression or improvement, both as an absolute value and relative to the baseline
+ */
+const SIGNIFICANT_CHANGE: Record<ComparisonMetric, { absolute: number; relative: number }> = {
+    averageCpu: { absolute: 1, relative: 0.2 },
+    p95Cpu: { absolute: 2, relative: 0.2 },
+    averageMemory: { absolute: 5, relative: 0.1 },
+    peakMemory: { absolute: 10, relative: 0.1 },
+    activationTime: { absolute: 50, relative: 0.2 },
+    subprocessCount: { absolute: 1, relative: 0 }
+};
+
+/**
+ * Usage of one extension over a time window
+ */
+export interface ExtensionWindowStats {
+    id: string;
+    displayName: string;
+    samples: number;
+    averageCpu: number;
+    p95Cpu: number;
+    averageMemory: number;
+    peakMemory: number;
+    activationTime?: number;
+    subprocessCount: number; // Most subprocesses seen at once
+}
+
+/**
+ * One side of a comparison: a window of recorded history or an exported report
+ */
+export interface ComparisonSource {
+    label: string;
+    start?: number;
+    end?: number;
+    extensions: ExtensionWindowStats[];
+}
+
+export type DeltaStatus = 'regression' | 'improvement' | 'unchanged';
+
+export interface MetricDelta {
+    baseline?: number;
+    candidate?: number;
+    delta?: number;
+    status: DeltaStatus;
+}
+
+export interface ComparisonRow {
+    id: string;
+    displayName: string;
+    presence: 'both' | 'added' | 'removed';
+    metrics: Record<ComparisonMetric, MetricDelta>;
+    regressions: number;
+    improvements: number;
+}
+
+export interface WindowComparison {
+    baseline: Omit<ComparisonSource, 'extensions'>;
+    candidate: Omit<ComparisonSource, 'extensions'>;
+    rows: ComparisonRow[];
+    generatedAt: number;
+}
+
+/**
+ * Summarizes recorded history of every extension in a time window
+ */
+export function statsFromHistory(
+    performanceMonitor: PerformanceMonitor,
+    range: { start: number; end: number },
+    label: string
+): ComparisonSource {
+    const names = new Map(performanceMonitor.getCurrentMetrics().map(metric => [metric.id, metric.displayName]));
+    const session = findSession(performanceMonitor.getActivationSessions(), range.end);
+    const extensions: ExtensionWindowStats[] = [];
+
+    for (const id of performanceMonitor.getHistoryExtensionIds()) {
+        const history = performanceMonitor.getExtensionHistory(id, range);
+        if (!history) {
+            continue;
+        }
+        const displayName = names.get(id) ?? vscode.extensions.getExtension(id)?.packageJSON?.displayName ?? id;
+        const activationTime = session?.activations.find(record => record.extensionId === id)?.activationTime;
+        extensions.push(summarizePoints(id, displayName, history.points, activationTime));
+    }
+
+    return { label, start: range.start, end: range.end, extensions };
+}
+
+/**
+ * Summarizes an exported report as a comparison source
+ */
+export function statsFromReport(imported: ImportedReport, label: string = imported.fileName): ComparisonSource {
+    const extensions: ExtensionWindowStats[] = [];
+    let start: number | undefined;
+    let end: number | undefined;
+
+    for (const metric of imported.getCurrentMetrics()) {
+        const points = [...(imported.getExtensionHistory(metric.id)?.points ?? [])].sort((a, b) => a.timestamp - b.timestamp);
+        if (points.length === 0) {
+            // No history exported; fall back to the snapshot value
+            points.push({
+                timestamp: metric.timestamp,
+                cpuUsage: metric.cpuUsage,
+                memoryUsage: metric.memoryUsage,
+                cpuPeak: metric.cpuUsage,
+                memoryPeak: metric.memoryUsage,
+                samples: 1,
+                subprocessCount: metric.subprocessCount ?? 0
+            });
+        }
+        start = Math.min(start ?? Infinity, points[0].timestamp);
+        end = Math.max(end ?? -Infinity, points[points.length - 1].timestamp);
+
+        const stats = summarizePoints(metric.id, metric.displayName, points, metric.activationTime);
+        stats.subprocessCount = Math.max(stats.subprocessCount, metric.subprocessCount ?? 0);
+        extensions.push(stats);
+    }
+
+    return { label, start, end, extensions };
+}
+
+/**
+ * Parses a time window written as "<start> to <end>", e.g. "2024-05-01 09:00 to 2024-05-01 10:00"
+ */
+export function parseTimeWindow(input: string): { start: number; end: number } | undefined {
+    const parts = input.trim().split(/\s+to\s+/i);
+    if (parts.length !== 2) {
+        return undefined;
+    }
+    const start = new Date(parts[0]).getTime();
+    const end = new Date(parts[1]).getTime();
+    return Number.isFinite(start) && Number.isFinite(end) && start < end ? { start, end } : undefined;
+}
+
+/**
+ * Computes per-extension deltas from a baseline to a candidate
+ */
+export function compareSources(baseline: ComparisonSource, candidate: ComparisonSource): WindowComparison {
+    const before = new Map(baseline.extensions.map(stats => [stats.id, stats]));
+    const after = new Map(candidate.extensions.map(stats => [stats.id, stats]));
+    const ids = [...new Set([...before.keys(), ...after.keys()])];
+
+    const rows = ids.map((id): ComparisonRow => {
+        const a = before.get(id);
+        const b = after.get(id);
+        const metrics = {} as Record<ComparisonMetric, MetricDelta>;
+        for (const metric of COMPARISON_METRICS) {
+            metrics[metric] = compareMetric(metric, a?.[metric], b?.[metric]);
+        }
+        const statuses = Object.values(metrics).map(delta => delta.status);
+
+        return {
+            id,
+            displayName: b?.displayName ?? a?.displayName ?? id,
+            presence: a && b ? 'both' : (b ? 'added' : 'removed'),
+            metrics,
+            regressions: statuses.filter(status => status === 'regression').length,
+            improvements: statuses.filter(status => status === 'improvement').length
+        };
+    });
+
+    rows.sort((x, y) => y.regressions - x.regressions || x.displayName.localeCompare(y.displayName));
+
+    return {
+        baseline: { label: baseline.label, start: baseline.start, end: baseline.end },
+        candidate: { label: candidate.label, start: candidate.start, end: candidate.end },
+        rows,
+        generatedAt: Date.now()
+    };
+}
+
+function compareMetric(metric: ComparisonMetric, baseline: number | undefined, candidate: number | undefined): MetricDelta {
+    if (baseline === undefined || candidate === undefined) {
+        return { baseline, candidate, status: 'unchanged' };
+    }
+
+    const delta = candidate - baseline;
+    const threshold = SIGNIFICANT_CHANGE[metric];
+    const significant = Math.abs(delta) >= threshold.absolute
+        && (baseline === 0 || Math.abs(delta) / baseline >= threshold.relative);
+
+    let status: DeltaStatus = 'unchanged';
+    if (significant) {
+        status = delta > 0 ? 'regression' : 'improvement';
+    }
+    return { baseline, candidate, delta, status };
+}
+
+function summarizePoints(id: string, displayName: string, points: readonly TimeSeriesPoint[], activationTime?: number): ExtensionWindowStats {
+    let samples = 0;
+    let cpuTotal = 0;
+    let memoryTotal = 0;
+    let peakMemory = 0;
+    let subprocessCount = 0;
+
+    for (const point of points) {
+        samples += point.samples;
+        cpuTotal += point.cpuUsage * point.samples;
+        memoryTotal += point.memoryUsage * point.samples;
+        peakMemory = Math.max(peakMemory, point.memoryPeak);
+        subprocessCount = Math.max(subprocessCount, point.subprocessCount);
+    }
+
+    return {
+        id,
+        displayName,
+        samples,
+        averageCpu: samples > 0 ? cpuTotal / samples : 0,
+        p95Cpu: weightedPercentile(points.map(point => ({ value: point.cpuUsage, weight: point.samples })), 0.95),
+        averageMemory: samples > 0 ? memoryTotal / samples : 0,
+        peakMemory,
+        activationTime,
+        subprocessCount
+    };
+}
+
+/**
+ * Percentile of values that each stand for `weight` samples, e.g. rolled-up points
+ */
+function weightedPercentile(values: { value: number; weight: number }[], percentile: number): number {
+    const sorted = values.filter(entry => entry.weight > 0).sort((a, b) => a.value - b.value);
+    const total = sorted.reduce((sum, entry) => sum + entry.weight, 0);
+    let seen = 0;
+    for (const entry of sorted) {
+        seen += entry.weight;
+        if (seen >= total * percentile) {
+            return entry.value;
+        }
+    }
+    return sorted.length > 0 ? sorted[sorted.length - 1].value : 0;
+}
+
+/**
+ * Finds the extension-host session that was running at a point in time
+ */
+function findSession(sessions: readonly ActivationSession[], timestamp: number): ActivationSession | undefined {
+    return sessions
+        .filter(session => session.startedAt <= timestamp)
+        .sort((a, b) => b.startedAt - a.startedAt)[0];
+}
@@ -1,3 +1,11 @@
+/**
+ * Where a metric value comes from
+ * - measured: read directly from a process belonging to the extension
+ * - attributed: a share of measured extension-host usage assigned to the extension
+ * - estimated: no usable signal; the value is a fallback
+ */
+export type MetricSource = 'measured' | 'attributed' | 'estimated';
+
 /**
  * Performance metrics for an extension
  */
@@ -6,23 +14,203 @@ export interface ExtensionMetrics {
     displayName: string;
     version: string;
     isActive: boolean;
+    isBuiltin: boolean; // Ships with VS Code
     cpuUsage: number; // Percentage
     memoryUsage: number; // MB
     timestamp: number;
     activationTime?: number; // Time taken to activate in ms
+    activatedAt?: number; // ms after the extension host started
+    activationEvent?: string; // Activation event that most likely triggered activation
     estimatedCpuUsage?: number; // Percentage
     estimatedMemoryUsage?: number; // MB
     processCpuUsage?: number; // Percentage
     processMemoryUsage?: number; // MB
     subprocessCount?: number;
+    metricSource: MetricSource;
+    confidence: number; // 0-1
+    memoryTrend?: MemoryTrend;
+}
+
+/**
+ * Trend of an extension's memory usage over the leak-detection window
+ */
+export interface MemoryTrend {
+    slope: number; // MB/hour
+    rSquared: number; // Goodness of fit, 0-1
+    window: number; // ms covered by the samples
+    samples: number;
+    possibleLeak: boolean;
+}
+
+/**
+ * Resource usage of the extension-host process itself
+ */
+export interface HostProcessMetrics {
+    pid: number;
+    timestamp: number;
+    cpuUsage: number; // Percentage
+    rss: number; // MB
+    heapUsed: number; // MB
+    heapTotal: number; // MB
+    external: number; // MB
+    arrayBuffers: number; // MB
+    uptime: number; // Seconds
+}
+
+/**
+ * Activation of a single extension within an extension-host session
+ */
+export interface ActivationRecord {
+    extensionId: string;
+    activatedAt: number; // ms after the extension host started
+    activationTime?: number; // ms spent activating, when reported by the extension host
+    activationEvent?: string;
+    source: 'hostMarks' | 'observed';
+}
+
+/**
+ * Activation data recorded for one extension-host session
+ */
+export interface ActivationSession {
+    sessionId: string;
+    startedAt: number;
+    vscodeVersion: string;
+    activations: ActivationRecord[];
+}
+
+/**
+ * One metrics sample taken shortly after startup
+ */
+export interface StartupSample {
+    timestamp: number;
+    hostCpu: number; // Percentage
+    hostRss: number; // MB
+    extensionsCpu: number; // Percentage, extensions counted in totals
+    extensionsMemory: number; // MB, extensions counted in totals
+    topCpuConsumers: { extensionId: string; cpuUsage: number; memoryUsage: number }[];
+}
+
+/**
+ * Startup cost of one extension-host session, recorded when this extension activates
+ */
+export interface StartupReport {
+    sessionId: string;
+    recordedAt: number;
+    vscodeVersion: string;
+    host: {
+        uptime: number; // Seconds since the extension host started
+        cpuTime: number; // ms of CPU used by the extension host so far
+        rss: number; // MB
+        heapUsed: number; // MB
+        heapTotal: number; // MB
+        external: number; // MB
+    };
+    activations: ActivationRecord[]; // Extensions already active, in activation order
+    installedExtensions: string[]; // Ids of all installed extensions, sorted; only non-builtin ones in reports without `builtinExtensions`
+    builtinExtensions?: string[]; // Ids in `installedExtensions` that ship with VS Code, sorted
+    samples: StartupSample[];
+}
+
+/**
+ * CPU time attributed to one extension in a CPU profile
+ */
+export interface CpuProfileAttribution {
+    extensionId: string;
+    displayName: string;
+    selfTime: number; // ms spent in the extension's own code
+    totalTime: number; // ms with the extension anywhere on the stack
+    selfPercent: number; // Of non-idle sampled time
+    totalPercent: number; // Of non-idle sampled time
+}
+
+/**
+ * Result of profiling the extension host
+ */
+export interface CpuProfileSummary {
+    capturedAt: number;
+    duration: number; // ms requested
+    sampledTime: number; // ms covered by the profile
+    profilePath?: string;
+    extensions: CpuProfileAttribution[];
+}
+
+/**
+ * Heap retained by objects created from one extension's scripts
+ */
+export interface HeapAttribution {
+    extensionId: string;
+    displayName: string;
+    retainedSize: number; // MB
+    objectCount: number; // Outermost attributed objects
+}
+
+/**
+ * Result of capturing and analysing an extension-host heap snapshot
+ */
+export interface HeapSnapshotSummary {
+    capturedAt: number;
+    snapshotPath: string;
+    totalSize: number; // MB
+    attributedSize: number; // MB
+    extensions: HeapAttribution[];
+}
+
+/**
+ * Event-loop delay of the extension host over one monitoring interval (ms)
+ */
+export interface EventLoopMetrics {
+    timestamp: number;
+    p50: number;
+    p95: number;
+    p99: number;
+    max: number;
+    mean: number;
+    longTaskCount: number; // Long tasks recorded during the interval
+}
+
+/**
+ * An interval during which the extension-host event loop was blocked
+ */
+export interface LongTask {
+    startedAt: number;
+    duration: number; // ms
+    extensions?: LongTaskAttribution[]; // Set when a CPU profile covered the task
 }
 
 /**
- * Historical performance data
+ * Time an extension was on the stack during a long task
+ */
+export interface LongTaskAttribution {
+    extensionId: string;
+    displayName: string;
+    time: number; // ms
+}
+
+/**
+ * Storage tier of a time-series point: raw samples, or 1-minute / 15-minute rollups
+ */
+export type TimeSeriesTier = 'raw' | '1m' | '15m';
+
+/**
+ * A stored sample, or the aggregate of several samples for rolled-up tiers
+ */
+export interface TimeSeriesPoint {
+    timestamp: number; // Sample time, or bucket start for rolled-up points
+    cpuUsage: number; // Percentage, averaged over the bucket
+    memoryUsage: number; // MB, averaged over the bucket
+    cpuPeak: number;
+    memoryPeak: number;
+    samples: number; // Raw samples in the point
+    subprocessCount: number;
+    metricSource?: MetricSource; // Least certain source among the samples; missing for history recorded before it was kept
+}
+
+/**
+ * Historical performance data for a time range
  */
 export interface PerformanceHistory {
     extensionId: string;
-    metrics: ExtensionMetrics[];
+    points: TimeSeriesPoint[];
     averages: {
         cpu: number;
         memory: number;
@@ -33,6 +221,17 @@ export interface PerformanceHistory {
     };
 }
 
+export type ExtensionEventType = 'enabled' | 'disabled';
+
+/**
+ * An extension appearing in or disappearing from the extension host
+ */
+export interface ExtensionEvent {
+    extensionId: string;
+    type: ExtensionEventType;
+    timestamp: number;
+}
+
 /**
  * Performance summary for all extensions
  */
@@ -43,9 +242,80 @@ export interface PerformanceSummary {
     totalMemoryUsage: number;
     topCpuConsumers: ExtensionMetrics[];
     topMemoryConsumers: ExtensionMetrics[];
+    excludedFromTotals: number; // Extensions left out of the totals by an override
+    host?: HostProcessMetrics;
+    eventLoop?: EventLoopMetrics;
+    hostBudget?: {
+        cpu: number; // Extension host plus extension subprocesses, percentage
+        memory: number; // Extension host RSS plus extension subprocesses, MB
+    };
     timestamp: number;
 }
 
+/**
+ * Metadata at the top of an exported report
+ */
+export interface ReportMetadata {
+    schemaVersion: number; // See src/schemas/performanceReport.schema.json
+    generatedAt: string; // ISO 8601
+    vscodeVersion: string;
+    extensionVersion: string;
+    host?: string;
+    platform?: string;
+    arch?: string;
+}
+
+/**
+ * Findings derived from the metrics in a report
+ */
+export interface ReportInsights {
+    topPerformers: { cpu: ExtensionMetrics[]; memory: ExtensionMetrics[] };
+    worstPerformers: { cpu: ExtensionMetrics[]; memory: ExtensionMetrics[] };
+    recommendations: string[];
+}
+
+/**
+ * JSON performance report as written by the report exporter
+ */
+export interface PerformanceReport {
+    reportMetadata: ReportMetadata;
+    summary: PerformanceSummary;
+    hostHistory: HostProcessMetrics[];
+    currentMetrics: ExtensionMetrics[];
+    historicalData: Record<string, PerformanceHistory>;
+    insights: ReportInsights;
+}
+
+/**
+ * Which extensions are monitored: user-installed only, all, or built-in only
+ */
+export type BuiltinExtensionMode = 'exclude' | 'include' | 'only';
+
+/**
+ * Which memory measure is used for extension subprocesses
+ * - rss: resident memory, counting shared pages once per process
+ * - pss: resident memory with shared pages split between the processes sharing them
+ * - uss: memory private to the process
+ */
+export type MemoryMetric = 'rss' | 'pss' | 'uss';
+
+/**
+ * How often report snapshots are written automatically
+ */
+export type ScheduledReportInterval = 'off' | 'hourly' | 'daily';
+
+export type ScheduledReportFormat = 'json' | 'html';
+
+/**
+ * Per-extension settings from `extperf.extensionOverrides`, keyed by extension id or glob
+ */
+export interface ExtensionOverride {
+    cpu?: number; // CPU alert threshold, percentage
+    memory?: number; // Memory alert threshold, MB
+    neverAlert?: boolean;
+    excludeFromTotals?: boolean;
+}
+
 /**
  * Configuration interface
  */
@@ -56,8 +326,37 @@ export interface ExtPerfConfig {
     alertThresholds: {
         cpu: number;
         memory: number;
+        eventLoopLag: number;
+    };
+    alerts: {
+        sustainedSamples: number;
+        cooldownMinutes: number;
+        memoryGrowthMb: number;
+        memoryGrowthMinutes: number;
+    };
+    builtinExtensions: BuiltinExtensionMode;
+    extensionOverrides: Record<string, ExtensionOverride>;
+    leakDetection: {
+        rateMbPerHour: number;
+        windowMinutes: number;
+        minRSquared: number;
     };
     historyRetentionDays: number;
+    cpuProfileDuration: number;
+    useHeapSnapshotMemory: boolean;
+    memoryMetric: MemoryMetric;
+    metricsServer: {
+        enabled: boolean;
+        port: number;
+    };
+    scheduledReports: {
+        interval: ScheduledReportInterval;
+        onShutdown: boolean;
+        format: ScheduledReportFormat;
+        folder: string;
+        maxFiles: number;
+        maxAgeDays: number;
+    };
 }
 
 /**
@@ -70,14 +369,24 @@ export enum TreeItemType {
     CATEGORY = 'category'
 }
 
+/**
+ * Metric an alert is raised for
+ */
+export type AlertType = 'cpu' | 'memory' | 'memoryLeak' | 'eventLoopLag';
+
+export type AlertSeverity = 'warning' | 'critical';
+
 /**
  * Performance alert
  */
 export interface PerformanceAlert {
-    type: 'cpu' | 'memory';
+    type: AlertType;
+    ruleId: string;
+    severity: AlertSeverity;
     extensionId: string;
     extensionName: string;
     value: number;
     threshold: number;
+    duration: number; // ms the condition held before the alert fired
     timestamp: number;
 }
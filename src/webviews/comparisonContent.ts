@@ -0,0 +1,356 @@
+import * as vscode from 'vscode';
+
+export function getComparisonHtml(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} data:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Compare Performance</title>
+    <style>
+        :root {
+            color-scheme: light dark;
+            --surface: var(--vscode-editor-background);
+            --surface-alt: var(--vscode-sideBar-background);
+            --border: color-mix(in srgb, var(--vscode-editor-foreground) 15%, transparent);
+            --text: var(--vscode-editor-foreground);
+            --muted: color-mix(in srgb, var(--vscode-editor-foreground) 55%, transparent);
+            --accent: color-mix(in srgb, var(--vscode-charts-blue) 85%, white 15%);
+            --good: var(--vscode-charts-green);
+            --bad: var(--vscode-charts-red);
+            --shadow: 0 12px 40px rgba(0, 0, 0, 0.2);
+            --radius: 16px;
+        }
+
+        * {
+            box-sizing: border-box;
+        }
+
+        body {
+            margin: 0;
+            background: var(--surface);
+            color: var(--text);
+            font-family: "Fira Sans", "IBM Plex Sans", var(--vscode-font-family);
+        }
+
+        .page {
+            padding: 32px 32px 48px;
+            max-width: 1200px;
+            margin: 0 auto;
+            display: flex;
+            flex-direction: column;
+            gap: 24px;
+        }
+
+        .eyebrow {
+            text-transform: uppercase;
+            letter-spacing: 0.18em;
+            font-size: 11px;
+            color: var(--muted);
+            margin: 0 0 8px;
+        }
+
+        h1 {
+            margin: 0;
+            font-size: 32px;
+            letter-spacing: -0.02em;
+        }
+
+        .subtitle {
+            margin: 8px 0 0;
+            color: var(--muted);
+            line-height: 1.5;
+        }
+
+        button,
+        input {
+            font: inherit;
+            color: inherit;
+        }
+
+        .summary {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+            gap: 16px;
+        }
+
+        .card {
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            padding: 16px;
+            background: color-mix(in srgb, var(--surface-alt) 65%, transparent);
+            box-shadow: var(--shadow);
+        }
+
+        .card h3 {
+            margin: 0 0 8px;
+            font-size: 14px;
+            color: var(--muted);
+            text-transform: uppercase;
+            letter-spacing: 0.12em;
+        }
+
+        .card .value {
+            font-size: 28px;
+            font-weight: 600;
+        }
+
+        .controls {
+            display: grid;
+            grid-template-columns: 2fr 1fr;
+            gap: 16px;
+            align-items: center;
+        }
+
+        .search input {
+            width: 100%;
+            padding: 10px 14px;
+            border-radius: 12px;
+            border: 1px solid var(--border);
+            background: color-mix(in srgb, var(--surface-alt) 70%, transparent);
+        }
+
+        .filter-group {
+            display: flex;
+            gap: 8px;
+            flex-wrap: wrap;
+        }
+
+        .filter-group button {
+            padding: 8px 12px;
+            border-radius: 999px;
+            border: 1px solid var(--border);
+            background: transparent;
+            cursor: pointer;
+        }
+
+        .filter-group button.active {
+            background: color-mix(in srgb, var(--accent) 20%, transparent);
+            border-color: color-mix(in srgb, var(--accent) 65%, var(--border));
+        }
+
+        .panel {
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            padding: 16px;
+            background: color-mix(in srgb, var(--surface-alt) 65%, transparent);
+            overflow-x: auto;
+        }
+
+        .panel-table {
+            display: grid;
+            grid-template-columns: 2.2fr repeat(6, 1fr);
+            gap: 10px 12px;
+            font-size: 13px;
+            min-width: 860px;
+        }
+
+        .panel-table .head {
+            font-size: 11px;
+            text-transform: uppercase;
+            letter-spacing: 0.14em;
+            color: var(--muted);
+        }
+
+        .panel-table .numeric {
+            text-align: right;
+            font-variant-numeric: tabular-nums;
+        }
+
+        .name .sub,
+        .delta {
+            font-size: 12px;
+            color: var(--muted);
+        }
+
+        .delta.regression {
+            color: var(--bad);
+            font-weight: 600;
+        }
+
+        .delta.improvement {
+            color: var(--good);
+        }
+
+        .cell.regression {
+            border-radius: 8px;
+            background: color-mix(in srgb, var(--bad) 12%, transparent);
+        }
+
+        .empty {
+            text-align: center;
+            padding: 32px;
+            color: var(--muted);
+        }
+    </style>
+</head>
+<body>
+    <div class="page">
+        <header>
+            <p class="eyebrow">Extension Performance Monitor</p>
+            <h1>Compare Performance</h1>
+            <p class="subtitle" id="sources">Waiting for comparison data…</p>
+        </header>
+
+        <section class="summary" id="summary"></section>
+
+        <section class="controls">
+            <div class="search">
+                <input id="search" type="search" placeholder="Search extensions" />
+            </div>
+            <div class="filter-group" id="filters">
+                <button class="active" data-filter="all">All</button>
+                <button data-filter="regressions">Regressions</button>
+                <button data-filter="improvements">Improvements</button>
+            </div>
+        </section>
+
+        <section class="panel">
+            <div class="panel-table" id="rows"></div>
+            <div class="empty" id="empty" hidden>No extensions match.</div>
+        </section>
+    </div>
+
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const state = {
+            comparison: null,
+            search: '',
+            filter: 'all'
+        };
+
+        const COLUMNS = [
+            { key: 'averageCpu', label: 'Avg CPU', unit: '%', digits: 1 },
+            { key: 'p95Cpu', label: 'p95 CPU', unit: '%', digits: 1 },
+            { key: 'averageMemory', label: 'Avg Mem', unit: ' MB', digits: 0 },
+            { key: 'peakMemory', label: 'Peak Mem', unit: ' MB', digits: 0 },
+            { key: 'activationTime', label: 'Activation', unit: ' ms', digits: 0 },
+            { key: 'subprocessCount', label: 'Subprocesses', unit: '', digits: 0 }
+        ];
+
+        const sourcesEl = document.getElementById('sources');
+        const summaryEl = document.getElementById('summary');
+        const rowsEl = document.getElementById('rows');
+        const emptyEl = document.getElementById('empty');
+        const searchInput = document.getElementById('search');
+        const filterButtons = Array.from(document.querySelectorAll('#filters button'));
+
+        const formatNumber = (value, digits = 1) => Number(value).toFixed(digits);
+        const formatValue = (value, column) => (value === undefined || value === null ? 'n/a' : formatNumber(value, column.digits) + column.unit);
+        const formatSource = (source) => {
+            const range = source.start !== undefined && source.end !== undefined
+                ? ' (' + new Date(source.start).toLocaleString() + ' – ' + new Date(source.end).toLocaleString() + ')'
+                : '';
+            return source.label + range;
+        };
+
+        const escapeHtml = (value) => String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+
+        const renderSummary = (comparison) => {
+            const rows = comparison.rows;
+            const count = (predicate) => rows.filter(predicate).length;
+            summaryEl.innerHTML = [
+                ['Extensions', rows.length],
+                ['With regressions', count((row) => row.regressions > 0)],
+                ['With improvements', count((row) => row.improvements > 0)],
+                ['Added / removed', count((row) => row.presence === 'added') + ' / ' + count((row) => row.presence === 'removed')]
+            ].map(([label, value]) => [
+                '                <div class="card">',
+                '                    <h3>' + label + '</h3>',
+                '                    <div class="value">' + value + '</div>',
+                '                </div>'
+            ].join('')).join('');
+        };
+
+        const renderCell = (delta, column) => {
+            const change = delta.delta === undefined
+                ? ''
+                : (delta.delta >= 0 ? '+' : '') + formatNumber(delta.delta, column.digits) + column.unit
+                    + (delta.baseline ? ' (' + (delta.delta >= 0 ? '+' : '') + formatNumber((delta.delta / delta.baseline) * 100, 0) + '%)' : '');
+            return [
+                '                <div class="cell numeric ' + delta.status + '">',
+                '                    <div>' + formatValue(delta.baseline, column) + ' → ' + formatValue(delta.candidate, column) + '</div>',
+                '                    <div class="delta ' + delta.status + '">' + change + '</div>',
+                '                </div>'
+            ].join('');
+        };
+
+        const renderRows = () => {
+            const comparison = state.comparison;
+            const searchLower = state.search.toLowerCase();
+            const rows = comparison.rows.filter((row) => {
+                if (state.filter === 'regressions' && row.regressions === 0) return false;
+                if (state.filter === 'improvements' && row.improvements === 0) return false;
+                if (!searchLower) return true;
+                return row.displayName.toLowerCase().includes(searchLower) || row.id.toLowerCase().includes(searchLower);
+            });
+
+            emptyEl.hidden = rows.length > 0;
+            const header = ['<div class="head">Extension</div>']
+                .concat(COLUMNS.map((column) => '<div class="head numeric">' + column.label + '</div>'))
+                .join('');
+            rowsEl.innerHTML = header + rows.map((row) => {
+                const presence = row.presence === 'added'
+                    ? ' | only in comparison'
+                    : (row.presence === 'removed' ? ' | only in baseline' : '');
+                return [
+                    '                <div class="name">',
+                    '                    <div>' + escapeHtml(row.displayName) + '</div>',
+                    '                    <div class="sub">' + escapeHtml(row.id) + presence + '</div>',
+                    '                </div>',
+                    COLUMNS.map((column) => renderCell(row.metrics[column.key], column)).join('')
+                ].join('');
+            }).join('');
+        };
+
+        searchInput.addEventListener('input', (event) => {
+            state.search = event.target.value.trim();
+            if (state.comparison) {
+                renderRows();
+            }
+        });
+
+        filterButtons.forEach((button) => {
+            button.addEventListener('click', () => {
+                filterButtons.forEach((btn) => btn.classList.remove('active'));
+                button.classList.add('active');
+                state.filter = button.dataset.filter || 'all';
+                if (state.comparison) {
+                    renderRows();
+                }
+            });
+        });
+
+        window.addEventListener('message', (event) => {
+            const message = event.data;
+            if (message?.type === 'comparison') {
+                state.comparison = message.comparison;
+                sourcesEl.textContent = 'Baseline: ' + formatSource(message.comparison.baseline)
+                    + ' · Comparison: ' + formatSource(message.comparison.candidate);
+                renderSummary(message.comparison);
+                renderRows();
+            }
+        });
+
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`;
+}
+
+function getNonce(): string {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i += 1) {
+        text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { WindowComparison } from '../services/windowComparison';
+import { getComparisonHtml } from './comparisonContent';
+
+export class ComparisonPanel {
+    static readonly viewType = 'extensionPerformanceComparison';
+    private static currentPanel: ComparisonPanel | undefined;
+
+    private readonly panel: vscode.WebviewPanel;
+    private readonly disposables: vscode.Disposable[] = [];
+    private comparison: WindowComparison;
+
+    private constructor(panel: vscode.WebviewPanel, comparison: WindowComparison) {
+        this.panel = panel;
+        this.comparison = comparison;
+        this.panel.iconPath = new vscode.ThemeIcon('diff');
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+
+        this.panel.webview.html = getComparisonHtml(this.panel.webview);
+
+        // The page asks for data once its script is running, so nothing posted during load is lost
+        this.panel.webview.onDidReceiveMessage(
+            (message) => {
+                if (message?.type === 'ready') {
+                    this.postComparison();
+                }
+            },
+            null,
+            this.disposables
+        );
+    }
+
+    static show(comparison: WindowComparison): void {
+        const column = vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One;
+
+        if (ComparisonPanel.currentPanel) {
+            ComparisonPanel.currentPanel.comparison = comparison;
+            ComparisonPanel.currentPanel.panel.reveal(column);
+            ComparisonPanel.currentPanel.postComparison();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            ComparisonPanel.viewType,
+            'Compare Performance',
+            column,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        ComparisonPanel.currentPanel = new ComparisonPanel(panel, comparison);
+    }
+
+    private postComparison(): void {
+        this.panel.webview.postMessage({ type: 'comparison', comparison: this.comparison });
+    }
+
+    dispose(): void {
+        ComparisonPanel.currentPanel = undefined;
+
+        this.panel.dispose();
+
+        while (this.disposables.length) {
+            const disposable = this.disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+}
@@ -1,15 +1,37 @@
 import * as vscode from 'vscode';
 import { PerformanceMonitor } from '../services/performanceMonitor';
-import { ExtensionMetrics, PerformanceHistory, PerformanceSummary } from '../types';
+import { aggregate } from '../services/timeSeriesStore';
+import { describeAlert } from '../services/alertEngine';
+import { AlertSeverity, CpuProfileSummary, ExtensionEventType, ExtensionMetrics, HeapSnapshotSummary, MemoryMetric, MemoryTrend, MetricSource, PerformanceSummary } from '../types';
+
+/**
+ * Time ranges offered by the history charts
+ */
+export const HISTORY_RANGES = {
+    '15m': 15 * 60 * 1000,
+    '1h': 60 * 60 * 1000,
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000
+};
+
+export type HistoryRange = keyof typeof HISTORY_RANGES;
+
+const MAX_CHART_POINTS = 240;
+const OVERVIEW_RANGE = HISTORY_RANGES['1h'];
+const OVERVIEW_BUCKETS = 60;
+const OVERVIEW_BANDS = 5;
 
 export interface ExtensionResourceRow {
     id: string;
     displayName: string;
     version: string;
     isActive: boolean;
+    isBuiltin: boolean;
     cpuUsage: number;
     memoryUsage: number;
     activationTime?: number;
+    activatedAt?: number;
+    activationEvent?: string;
     averageCpu: number;
     averageMemory: number;
     peakCpu: number;
@@ -20,31 +42,211 @@ export interface ExtensionResourceRow {
     processCpuUsage: number;
     processMemoryUsage: number;
     subprocessCount: number;
+    metricSource: MetricSource;
+    confidence: number;
+    memoryTrend?: MemoryTrend;
     topProcesses: ProcessSample[];
 }
 
 export interface ExtensionResourcesPayload {
     summary: PerformanceSummary;
     rows: ExtensionResourceRow[];
+    cpuProfile?: CpuProfileSummary;
+    heapSnapshot?: HeapSnapshotSummary;
+    overview: ExtensionOverviewPayload;
+    snapshot?: SnapshotInfo;
+    memoryMetric?: MemoryMetric; // Setting used for subprocess memory; missing for imported reports
     generatedAt: number;
 }
 
+/**
+ * Stacked usage of the top extensions over time; the last band of each metric is "Other" when there is one
+ */
+export interface ExtensionOverviewPayload {
+    start: number;
+    end: number;
+    timestamps: number[]; // Start of each bucket that has samples
+    cpu: OverviewBand[];
+    memory: OverviewBand[];
+}
+
+export interface OverviewBand {
+    label: string;
+    ids: string[]; // Extensions summed into the band
+    other: boolean;
+    values: number[]; // One value per timestamp
+}
+
+export interface ExtensionSeriesPayload {
+    id: string;
+    range: HistoryRange;
+    start: number;
+    end: number;
+    step: number; // Typical spacing of points, used to break lines across gaps
+    points: { timestamp: number; cpu: number; memory: number; cpuPeak: number; memoryPeak: number }[];
+    alerts: { timestamp: number; severity: AlertSeverity; label: string }[];
+    events: { timestamp: number; type: ExtensionEventType }[];
+}
+
 interface ProcessSample {
     pid: number;
     cpu: number;
     memory: number;
+    memoryMetric: MemoryMetric;
     command: string;
 }
 
-export function buildExtensionResourcesPayload(performanceMonitor: PerformanceMonitor): ExtensionResourcesPayload {
-    const metrics = performanceMonitor.getCurrentMetrics();
-    const summary = performanceMonitor.getPerformanceSummary();
-    const rows = metrics.map((metric) => buildResourceRow(metric, performanceMonitor));
+/**
+ * Where the page reads its data from: the live performance monitor or an imported report
+ */
+export type ResourcesDataSource = Pick<PerformanceMonitor,
+    | 'getCurrentMetrics'
+    | 'getPerformanceSummary'
+    | 'getExtensionHistory'
+    | 'getSubprocessStats'
+    | 'getLatestCpuProfile'
+    | 'getLatestHeapSnapshot'
+    | 'getExtensionOverride'
+    | 'getAlertLog'
+    | 'getExtensionEvents'>;
+
+/**
+ * Shown as a banner when the page displays an imported report instead of live data
+ */
+export interface SnapshotInfo {
+    fileName: string;
+    generatedAt: number;
+    vscodeVersion: string;
+    extensionVersion: string;
+    host?: string;
+    platform?: string;
+    arch?: string;
+}
+
+export function buildExtensionResourcesPayload(
+    source: ResourcesDataSource,
+    now: number = Date.now(),
+    snapshot?: SnapshotInfo,
+    memoryMetric?: MemoryMetric
+): ExtensionResourcesPayload {
+    const metrics = source.getCurrentMetrics();
+    const summary = source.getPerformanceSummary();
+    const rows = metrics.map((metric) => buildResourceRow(metric, source));
 
     return {
         summary,
         rows,
-        generatedAt: Date.now()
+        cpuProfile: source.getLatestCpuProfile(),
+        heapSnapshot: source.getLatestHeapSnapshot(),
+        overview: buildExtensionOverviewPayload(source, metrics, now),
+        snapshot,
+        memoryMetric,
+        generatedAt: now
+    };
+}
+
+/**
+ * Builds per-minute CPU and memory totals for the last hour, split into the top extensions and the rest
+ */
+export function buildExtensionOverviewPayload(
+    source: ResourcesDataSource,
+    metrics: readonly ExtensionMetrics[],
+    now: number = Date.now()
+): ExtensionOverviewPayload {
+    const start = now - OVERVIEW_RANGE;
+    const bucketSize = OVERVIEW_RANGE / OVERVIEW_BUCKETS;
+    const series = metrics
+        // Match the summary totals
+        .filter((metric) => !source.getExtensionOverride(metric.id)?.excludeFromTotals)
+        .map((metric) => ({
+            id: metric.id,
+            label: metric.displayName,
+            buckets: new Map(aggregate(source.getExtensionHistory(metric.id, { start, end: now })?.points ?? [], bucketSize)
+                .map((point) => [point.timestamp, point]))
+        }))
+        .filter((entry) => entry.buckets.size > 0);
+
+    const timestamps = [...new Set(series.flatMap((entry) => [...entry.buckets.keys()]))].sort((a, b) => a - b);
+
+    const buildBands = (key: 'cpuUsage' | 'memoryUsage'): OverviewBand[] => {
+        const ranked = series
+            .map((entry) => ({
+                ...entry,
+                values: timestamps.map((timestamp) => entry.buckets.get(timestamp)?.[key] ?? 0)
+            }))
+            .map((entry) => ({ ...entry, total: entry.values.reduce((sum, value) => sum + value, 0) }))
+            .filter((entry) => entry.total > 0)
+            .sort((a, b) => b.total - a.total);
+
+        const bands: OverviewBand[] = ranked.slice(0, OVERVIEW_BANDS).map((entry) => ({
+            label: entry.label,
+            ids: [entry.id],
+            other: false,
+            values: entry.values
+        }));
+        const rest = ranked.slice(OVERVIEW_BANDS);
+        if (rest.length > 0) {
+            bands.push({
+                label: 'Other',
+                ids: rest.map((entry) => entry.id),
+                other: true,
+                values: timestamps.map((_, index) => rest.reduce((sum, entry) => sum + entry.values[index], 0))
+            });
+        }
+        return bands;
+    };
+
+    return {
+        start,
+        end: now,
+        timestamps,
+        cpu: buildBands('cpuUsage'),
+        memory: buildBands('memoryUsage')
+    };
+}
+
+export function isHistoryRange(value: unknown): value is HistoryRange {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(HISTORY_RANGES, value);
+}
+
+export function isMemoryMetric(value: unknown): value is MemoryMetric {
+    return value === 'rss' || value === 'pss' || value === 'uss';
+}
+
+/**
+ * Builds chart data for one extension, bucketed so every range renders a similar number of points
+ */
+export function buildExtensionSeriesPayload(
+    source: ResourcesDataSource,
+    extensionId: string,
+    range: HistoryRange,
+    now: number = Date.now()
+): ExtensionSeriesPayload {
+    const start = now - HISTORY_RANGES[range];
+    const bucketSize = HISTORY_RANGES[range] / MAX_CHART_POINTS;
+    const points = aggregate(source.getExtensionHistory(extensionId, { start, end: now })?.points ?? [], bucketSize);
+
+    const gaps = points.slice(1).map((point, index) => point.timestamp - points[index].timestamp).sort((a, b) => a - b);
+    const step = gaps.length > 0 ? Math.max(bucketSize, gaps[Math.floor(gaps.length / 2)]) : bucketSize;
+
+    return {
+        id: extensionId,
+        range,
+        start,
+        end: now,
+        step,
+        points: points.map((point) => ({
+            timestamp: point.timestamp,
+            cpu: point.cpuUsage,
+            memory: point.memoryUsage,
+            cpuPeak: point.cpuPeak,
+            memoryPeak: point.memoryPeak
+        })),
+        alerts: source.getAlertLog()
+            .filter((alert) => alert.extensionId === extensionId && alert.timestamp >= start)
+            .map((alert) => ({ timestamp: alert.timestamp, severity: alert.severity, label: describeAlert(alert) })),
+        events: source.getExtensionEvents(extensionId, { start, end: now })
+            .map((event) => ({ timestamp: event.timestamp, type: event.type }))
     };
 }
 
@@ -169,6 +371,15 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
             color: var(--muted);
         }
 
+        .snapshot-banner {
+            margin: 12px 0 0;
+            padding: 8px 12px;
+            border-radius: 10px;
+            border: 1px solid color-mix(in srgb, var(--accent) 50%, var(--border));
+            background: color-mix(in srgb, var(--accent) 12%, transparent);
+            font-size: 13px;
+        }
+
         .summary {
             display: grid;
             grid-template-columns: repeat(auto-fit, minmax(220px, 1fr));
@@ -338,6 +549,12 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
             color: var(--muted);
         }
 
+        .badge.leak {
+            margin-top: 6px;
+            background: color-mix(in srgb, var(--warn) 25%, transparent);
+            color: color-mix(in srgb, var(--warn) 85%, var(--text));
+        }
+
         .metric .value {
             font-weight: 600;
         }
@@ -376,6 +593,14 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
             background: color-mix(in srgb, var(--surface-alt) 65%, transparent);
         }
 
+        .meta span.source.measured {
+            border-color: color-mix(in srgb, var(--good) 60%, var(--border));
+        }
+
+        .meta span.source.estimated {
+            border-style: dashed;
+        }
+
         .process-pill {
             display: inline-block;
             border-style: dashed;
@@ -411,6 +636,253 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
             color: var(--muted);
         }
 
+        .panel {
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            padding: 16px;
+            background: color-mix(in srgb, var(--surface-alt) 65%, transparent);
+        }
+
+        .panel-head {
+            display: flex;
+            justify-content: space-between;
+            align-items: baseline;
+            gap: 12px;
+            margin-bottom: 12px;
+        }
+
+        .panel-head h2 {
+            margin: 0;
+            font-size: 16px;
+        }
+
+        .panel-table {
+            display: grid;
+            grid-template-columns: 2.4fr 1fr 1fr 1fr 1fr;
+            gap: 6px 12px;
+            font-size: 13px;
+        }
+
+        .panel-table.compact {
+            grid-template-columns: 2.4fr 1fr 1fr 1fr;
+        }
+
+        .panel-table .head {
+            font-size: 11px;
+            text-transform: uppercase;
+            letter-spacing: 0.14em;
+            color: var(--muted);
+        }
+
+        .panel-table .numeric {
+            text-align: right;
+            font-variant-numeric: tabular-nums;
+        }
+
+        .detail-pane {
+            grid-column: 1 / -1;
+            display: flex;
+            flex-direction: column;
+            gap: 12px;
+            padding-top: 12px;
+            border-top: 1px solid var(--border);
+        }
+
+        .range-group {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        }
+
+        .range-group .action.active {
+            background: color-mix(in srgb, var(--accent) 20%, transparent);
+            border-color: color-mix(in srgb, var(--accent) 65%, var(--border));
+        }
+
+        .charts {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(320px, 1fr));
+            gap: 16px;
+        }
+
+        .chart-title {
+            font-size: 11px;
+            text-transform: uppercase;
+            letter-spacing: 0.14em;
+            color: var(--muted);
+            margin-bottom: 4px;
+        }
+
+        .chart {
+            display: block;
+            width: 100%;
+            height: auto;
+        }
+
+        .chart .grid {
+            stroke: var(--border);
+        }
+
+        .chart .axis-label {
+            fill: var(--muted);
+            font-size: 10px;
+        }
+
+        .chart .line,
+        .chart .peak {
+            fill: none;
+            stroke: var(--accent);
+            stroke-width: 1.5;
+            stroke-linejoin: round;
+        }
+
+        .chart .memory {
+            stroke: var(--accent-strong);
+        }
+
+        .chart .peak {
+            stroke-opacity: 0.4;
+            stroke-dasharray: 3 3;
+        }
+
+        .chart .marker {
+            stroke-width: 1.5;
+            stroke-dasharray: 2 2;
+        }
+
+        .chart .marker.alert {
+            stroke: var(--warn);
+        }
+
+        .chart .marker.alert.critical {
+            stroke: var(--bad);
+        }
+
+        .chart .marker.enabled {
+            stroke: var(--good);
+        }
+
+        .chart .marker.disabled {
+            stroke: var(--muted);
+        }
+
+        .chart .cursor {
+            stroke: var(--text);
+            stroke-opacity: 0.5;
+            visibility: hidden;
+        }
+
+        .readout,
+        .chart-legend {
+            font-size: 12px;
+            color: var(--muted);
+            font-variant-numeric: tabular-nums;
+        }
+
+        .readout {
+            min-height: 16px;
+        }
+
+        .chart-legend {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+        }
+
+        .chart-legend .swatch {
+            display: inline-block;
+            width: 12px;
+            height: 0;
+            margin-right: 6px;
+            vertical-align: middle;
+            border-top: 2px solid var(--accent);
+        }
+
+        .chart-legend .swatch.peak {
+            border-top-style: dashed;
+            opacity: 0.6;
+        }
+
+        .chart-legend .swatch.alert {
+            border-top: 2px dashed var(--warn);
+        }
+
+        .chart-legend .swatch.enabled {
+            border-top: 2px dashed var(--good);
+        }
+
+        .chart-legend .swatch.disabled {
+            border-top: 2px dashed var(--muted);
+        }
+
+        .chart .band {
+            fill-opacity: 0.75;
+            stroke: var(--surface);
+            stroke-width: 0.5;
+            cursor: pointer;
+        }
+
+        .chart .band:hover,
+        .chart .band.selected {
+            fill-opacity: 1;
+        }
+
+        .chart .band.dimmed {
+            fill-opacity: 0.25;
+        }
+
+        .band-0 {
+            fill: var(--vscode-charts-blue);
+            background: var(--vscode-charts-blue);
+        }
+
+        .band-1 {
+            fill: var(--vscode-charts-green);
+            background: var(--vscode-charts-green);
+        }
+
+        .band-2 {
+            fill: var(--vscode-charts-orange);
+            background: var(--vscode-charts-orange);
+        }
+
+        .band-3 {
+            fill: var(--vscode-charts-purple);
+            background: var(--vscode-charts-purple);
+        }
+
+        .band-4 {
+            fill: var(--vscode-charts-yellow);
+            background: var(--vscode-charts-yellow);
+        }
+
+        .band-other {
+            fill: var(--muted);
+            background: var(--muted);
+        }
+
+        .chart-legend .legend-box {
+            display: inline-block;
+            width: 10px;
+            height: 10px;
+            margin-right: 6px;
+            border-radius: 2px;
+            vertical-align: middle;
+        }
+
+        .focus {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 12px 16px 0;
+            font-size: 13px;
+            color: var(--muted);
+        }
+
+        .focus strong {
+            color: var(--text);
+        }
+
         .empty {
             text-align: center;
             padding: 32px;
@@ -457,8 +929,11 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                 <p class="eyebrow">Extension Performance Monitor</p>
                 <h1>Extension Resources</h1>
                 <p class="subtitle">Track CPU, memory, and activity levels for every installed extension.</p>
+                <p class="snapshot-banner" id="snapshot" hidden></p>
             </div>
             <div class="hero-actions">
+                <button class="button" id="profile-btn">Capture CPU profile</button>
+                <button class="button" id="heap-btn">Capture heap snapshot</button>
                 <button class="button" id="refresh-btn">Refresh metrics</button>
                 <div class="timestamp" id="updated-label">Updated: --</div>
             </div>
@@ -466,6 +941,14 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
 
         <section class="summary" id="summary"></section>
 
+        <section class="panel" id="overview" hidden>
+            <div class="panel-head">
+                <h2>Who is using the host</h2>
+                <div class="timestamp">Last hour · click a band to filter the table</div>
+            </div>
+            <div class="charts" id="overview-charts"></div>
+        </section>
+
         <section class="controls">
             <div class="search">
                 <input id="search" type="search" placeholder="Search extensions" />
@@ -474,6 +957,7 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                 <button class="active" data-filter="all">All</button>
                 <button data-filter="active">Active</button>
                 <button data-filter="inactive">Inactive</button>
+                <button data-filter="builtin">Built-in</button>
             </div>
             <div class="sort-group">
                 <label for="sort">Sort</label>
@@ -485,6 +969,11 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                 </select>
                 <button class="order" id="order" aria-label="Toggle sort order" title="Toggle sort order">&#8595;</button>
             </div>
+            <div class="filter-group" id="memory-metric" title="Memory measure for extension subprocesses" hidden>
+                <button data-memory-metric="rss" title="Resident memory; pages shared between processes are counted in each">RSS</button>
+                <button data-memory-metric="pss" title="Shared pages split between the processes sharing them">PSS</button>
+                <button data-memory-metric="uss" title="Memory private to each process">USS</button>
+            </div>
         </section>
 
         <section class="table">
@@ -494,9 +983,26 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                 <div>CPU</div>
                 <div>Memory</div>
             </div>
+            <div class="focus" id="focus" hidden></div>
             <div class="rows" id="rows"></div>
             <div class="empty" id="empty">No metrics collected yet. Click refresh to capture the latest snapshot.</div>
         </section>
+
+        <section class="panel" id="cpu-profile" hidden>
+            <div class="panel-head">
+                <h2>CPU profile</h2>
+                <div class="timestamp" id="cpu-profile-label"></div>
+            </div>
+            <div class="panel-table" id="cpu-profile-rows"></div>
+        </section>
+
+        <section class="panel" id="heap-snapshot" hidden>
+            <div class="panel-head">
+                <h2>Heap attribution</h2>
+                <div class="timestamp" id="heap-snapshot-label"></div>
+            </div>
+            <div class="panel-table compact" id="heap-snapshot-rows"></div>
+        </section>
     </div>
 
     <script nonce="${nonce}">
@@ -504,27 +1010,74 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
         const state = {
             rows: [],
             summary: null,
+            cpuProfile: null,
+            heapSnapshot: null,
             search: '',
             filter: 'all',
             sort: 'cpu',
-            order: 'desc'
+            order: 'desc',
+            expanded: null,
+            range: '1h',
+            series: null,
+            overview: null,
+            focus: null,
+            snapshot: null,
+            memoryMetric: null
         };
 
+        const RANGES = [
+            { value: '15m', label: '15 min' },
+            { value: '1h', label: '1 hour' },
+            { value: '24h', label: '24 hours' },
+            { value: '7d', label: '7 days' }
+        ];
+        const CHART = { width: 640, height: 160, left: 52, right: 12, top: 10, bottom: 22 };
+
         const summaryEl = document.getElementById('summary');
+        const overviewEl = document.getElementById('overview');
+        const overviewChartsEl = document.getElementById('overview-charts');
+        const focusEl = document.getElementById('focus');
+        const cpuProfileEl = document.getElementById('cpu-profile');
+        const cpuProfileLabel = document.getElementById('cpu-profile-label');
+        const cpuProfileRowsEl = document.getElementById('cpu-profile-rows');
+        const heapSnapshotEl = document.getElementById('heap-snapshot');
+        const heapSnapshotLabel = document.getElementById('heap-snapshot-label');
+        const heapSnapshotRowsEl = document.getElementById('heap-snapshot-rows');
         const rowsEl = document.getElementById('rows');
         const emptyEl = document.getElementById('empty');
         const updatedLabel = document.getElementById('updated-label');
+        const snapshotEl = document.getElementById('snapshot');
+        const liveButtons = ['profile-btn', 'heap-btn', 'refresh-btn'].map((id) => document.getElementById(id));
         const searchInput = document.getElementById('search');
         const sortSelect = document.getElementById('sort');
         const orderButton = document.getElementById('order');
         const filterButtons = Array.from(document.querySelectorAll('#filters button'));
+        const memoryMetricEl = document.getElementById('memory-metric');
+        const memoryMetricButtons = Array.from(memoryMetricEl.querySelectorAll('button'));
 
         const formatNumber = (value, digits = 1) => Number(value).toFixed(digits);
-        const formatTime = (value) => (value ? value + ' ms' : 'n/a');
+        const formatTime = (value) => (value !== undefined && value !== null ? value + ' ms' : 'n/a');
+        const formatActivated = (row) => {
+            if (row.activatedAt === undefined || row.activatedAt === null) {
+                return '';
+            }
+            const trigger = row.activationEvent ? ' via ' + escapeHtml(row.activationEvent) : '';
+            return '                            <span>Activated +' + formatNumber(row.activatedAt / 1000) + 's' + trigger + '</span>';
+        };
         const formatTimestamp = (value) => new Date(value).toLocaleTimeString();
+        const formatSource = (value) => {
+            const source = value || 'estimated';
+            return source.charAt(0).toUpperCase() + source.slice(1);
+        };
         const formatProcess = (process) => {
             const name = process.command ? process.command.split(/[\\\\/]/).pop() : 'process';
-            return 'PID ' + process.pid + ' · ' + formatNumber(process.cpu) + '% · ' + formatNumber(process.memory, 0) + ' MB · ' + name;
+            return 'PID ' + process.pid + ' · ' + formatNumber(process.cpu) + '% · ' + formatNumber(process.memory, 0) + ' MB ' + String(process.memoryMetric || 'rss').toUpperCase() + ' · ' + name;
+        };
+
+        const formatChartTime = (value, range) => {
+            const date = new Date(value);
+            const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+            return range === '7d' ? date.toLocaleDateString([], { month: 'short', day: 'numeric' }) + ' ' + time : time;
         };
 
         const escapeHtml = (value) => String(value)
@@ -544,6 +1097,9 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
             const topMemory = summary.topMemoryConsumers?.[0];
             const topCpuLabel = topCpu ? escapeHtml(topCpu.displayName) : 'n/a';
             const topMemoryLabel = topMemory ? escapeHtml(topMemory.displayName) : 'n/a';
+            const cpuBudget = summary.hostBudget ? ' of ' + formatNumber(summary.hostBudget.cpu) + '% host budget' : '';
+            const memoryBudget = summary.hostBudget ? ' of ' + formatNumber(summary.hostBudget.memory, 0) + ' MB host budget' : '';
+            const host = summary.host;
 
             summaryEl.innerHTML = [
                 '                <div class="card">',
@@ -554,17 +1110,24 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                 '                <div class="card">',
                 '                    <h3>Total CPU</h3>',
                 '                    <div class="value">' + formatNumber(summary.totalCpuUsage) + '%</div>',
-                '                    <div class="detail">Top: ' + topCpuLabel + '</div>',
+                '                    <div class="detail">Top: ' + topCpuLabel + cpuBudget + '</div>',
                 '                </div>',
                 '                <div class="card">',
                 '                    <h3>Total Memory</h3>',
                 '                    <div class="value">' + formatNumber(summary.totalMemoryUsage, 0) + ' MB</div>',
-                '                    <div class="detail">Top: ' + topMemoryLabel + '</div>',
+                '                    <div class="detail">Top: ' + topMemoryLabel + memoryBudget + '</div>',
+                '                </div>',
+                '                <div class="card">',
+                '                    <h3>Extension Host</h3>',
+                '                    <div class="value">' + (host ? formatNumber(host.cpuUsage) + '%' : 'n/a') + '</div>',
+                '                    <div class="detail">' + (host
+                    ? 'RSS ' + formatNumber(host.rss, 0) + ' MB · Heap ' + formatNumber(host.heapUsed, 0) + '/' + formatNumber(host.heapTotal, 0) + ' MB · External ' + formatNumber(host.external, 0) + ' MB'
+                    : 'Not sampled yet') + '</div>',
                 '                </div>',
                 '                <div class="card">',
                 '                    <h3>Monitoring</h3>',
-                '                    <div class="value">Live snapshot</div>',
-                '                    <div class="detail">Updates as metrics refresh</div>',
+                '                    <div class="value">' + (state.snapshot ? 'Imported report' : 'Live snapshot') + '</div>',
+                '                    <div class="detail">' + (state.snapshot ? 'Read-only; values as exported' : 'Updates as metrics refresh') + '</div>',
                 '                </div>'
             ].join('');
         };
@@ -575,6 +1138,8 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                 .filter((row) => {
                     if (state.filter === 'active' && !row.isActive) return false;
                     if (state.filter === 'inactive' && row.isActive) return false;
+                    if (state.filter === 'builtin' && !row.isBuiltin) return false;
+                    if (state.focus && !state.focus.ids.includes(row.id)) return false;
                     if (!searchLower) return true;
                     return row.displayName.toLowerCase().includes(searchLower) || row.id.toLowerCase().includes(searchLower);
                 });
@@ -596,8 +1161,8 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                         valueB = b.displayName.toLowerCase();
                         break;
                     case 'activation':
-                        valueA = a.activationTime ?? 0;
-                        valueB = b.activationTime ?? 0;
+                        valueA = a.activationTime ?? a.activatedAt ?? 0;
+                        valueB = b.activationTime ?? b.activatedAt ?? 0;
                         break;
                     case 'cpu':
                     default:
@@ -635,13 +1200,21 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                 const cpuWidth = Math.min(100, Math.round((cpuValue / maxCpu) * 100));
                 const memoryWidth = Math.min(100, Math.round((memoryValue / maxMemory) * 100));
                 const animationDelay = (index * 0.03).toFixed(2);
-                const usageSource = useProcess ? 'Subprocesses' : 'Heuristic estimate';
-                const estimatedBadges = useProcess
-                    ? ''
-                    : [
-                        '                            <span>Est CPU ' + formatNumber(row.estimatedCpuUsage) + '%</span>',
-                        '                            <span>Est Mem ' + formatNumber(row.estimatedMemoryUsage, 0) + ' MB</span>'
-                    ].join('');
+                const usageSource = formatSource(row.metricSource) + ' · ' + Math.round(row.confidence * 100) + '% confidence';
+                const inHostBadges = useProcess
+                    ? [
+                        '                            <span>In-host CPU ' + formatNumber(row.estimatedCpuUsage) + '%</span>',
+                        '                            <span>In-host Mem ' + formatNumber(row.estimatedMemoryUsage, 0) + ' MB</span>'
+                    ].join('')
+                    : '';
+                const trend = row.memoryTrend;
+                const leakBadge = trend && trend.possibleLeak
+                    ? '                            <span class="badge leak" title="Memory rising steadily">Possible leak</span>'
+                    : '';
+                const trendBadge = trend
+                    ? '                            <span>Mem trend ' + (trend.slope >= 0 ? '+' : '') + formatNumber(trend.slope) + ' MB/h (R² ' + formatNumber(trend.rSquared, 2) + ')</span>'
+                    : '';
+                const expanded = state.expanded === row.id;
                 const processBadges = row.topProcesses.map((process) => {
                     return '                            <span class=\"process-pill\">' + escapeHtml(formatProcess(process)) + '</span>';
                 }).join('');
@@ -650,10 +1223,11 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                     '                    <div class="row" style="animation-delay: ' + animationDelay + 's">',
                     '                        <div class="name">',
                     '                            <div class="title">' + escapeHtml(row.displayName) + '</div>',
-                    '                            <div class="sub">' + escapeHtml(row.id) + ' | v' + escapeHtml(row.version) + '</div>',
+                    '                            <div class="sub">' + escapeHtml(row.id) + ' | v' + escapeHtml(row.version) + (row.isBuiltin ? ' | built-in' : '') + '</div>',
                     '                        </div>',
                     '                        <div>',
                     '                            <span class="badge ' + (row.isActive ? 'active' : 'inactive') + '">' + (row.isActive ? 'Active' : 'Inactive') + '</span>',
+                    leakBadge,
                     '                        </div>',
                     '                        <div class="metric">',
                     '                            <div class="value">' + formatNumber(cpuValue) + '%</div>',
@@ -668,23 +1242,342 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                     '                            <span>Avg Mem ' + formatNumber(row.averageMemory, 0) + ' MB</span>',
                     '                            <span>Peak CPU ' + formatNumber(row.peakCpu) + '%</span>',
                     '                            <span>Peak Mem ' + formatNumber(row.peakMemory, 0) + ' MB</span>',
+                    trendBadge,
                     '                            <span>Activation ' + formatTime(row.activationTime) + '</span>',
+                    formatActivated(row),
                     '                            <span>Updated ' + formatTimestamp(row.lastUpdated) + '</span>',
-                    '                            <span>Usage: ' + usageSource + '</span>',
+                    '                            <span class="source ' + escapeHtml(row.metricSource) + '">Usage: ' + usageSource + '</span>',
                     '                            <span>Subprocesses ' + row.subprocessCount + '</span>',
-                    estimatedBadges,
-                    '                            <button type="button" class="action danger" data-action="disable" data-id="' + escapeHtml(row.id) + '" data-name="' + escapeHtml(row.displayName) + '">Disable</button>',
-                    '                            <button type="button" class="action secondary" data-action="enable" data-id="' + escapeHtml(row.id) + '" data-name="' + escapeHtml(row.displayName) + '">Enable</button>',
+                    inHostBadges,
+                    state.snapshot ? '' : '                            <button type="button" class="action danger" data-action="disable" data-id="' + escapeHtml(row.id) + '" data-name="' + escapeHtml(row.displayName) + '">Disable</button>',
+                    state.snapshot ? '' : '                            <button type="button" class="action secondary" data-action="enable" data-id="' + escapeHtml(row.id) + '" data-name="' + escapeHtml(row.displayName) + '">Enable</button>',
+                    '                            <button type="button" class="action" data-action="history" data-id="' + escapeHtml(row.id) + '">' + (expanded ? 'Hide history' : 'History') + '</button>',
                     processBadges,
                     '                        </div>',
+                    expanded ? '                        <div class="detail-pane" id="detail-pane"></div>' : '',
                     '                    </div>'
                 ].join('');
             }).join('');
+            renderDetail();
+        };
+
+        const chartX = (series, timestamp) => {
+            const plotWidth = CHART.width - CHART.left - CHART.right;
+            return CHART.left + ((timestamp - series.start) / (series.end - series.start)) * plotWidth;
+        };
+
+        const buildPath = (series, key, y) => {
+            let previous = null;
+            return series.points.map((point) => {
+                // Leave a gap where samples are missing, e.g. while VS Code was closed
+                const command = previous === null || point.timestamp - previous > series.step * 3 ? 'M' : 'L';
+                previous = point.timestamp;
+                return command + chartX(series, point.timestamp).toFixed(1) + ' ' + y(point[key]).toFixed(1);
+            }).join(' ');
+        };
+
+        const renderChart = (series, metric) => {
+            const unit = metric === 'cpu' ? '%' : ' MB';
+            const digits = metric === 'cpu' ? 1 : 0;
+            const maxValue = Math.max(metric === 'cpu' ? 5 : 10, ...series.points.map((point) => point[metric + 'Peak'])) * 1.1;
+            const plotBottom = CHART.height - CHART.bottom;
+            const plotHeight = plotBottom - CHART.top;
+            const y = (value) => plotBottom - (value / maxValue) * plotHeight;
+            const inRange = (item) => item.timestamp >= series.start && item.timestamp <= series.end;
+
+            const grid = [0, 0.5, 1].map((fraction) => {
+                const value = maxValue * fraction;
+                return '<line class="grid" x1="' + CHART.left + '" x2="' + (CHART.width - CHART.right) + '" y1="' + y(value).toFixed(1) + '" y2="' + y(value).toFixed(1) + '"></line>'
+                    + '<text class="axis-label" x="' + (CHART.left - 6) + '" y="' + (y(value) + 3).toFixed(1) + '" text-anchor="end">' + formatNumber(value, digits) + unit + '</text>';
+            }).join('');
+            const middle = (series.start + series.end) / 2;
+            const timeLabels = [
+                { value: series.start, anchor: 'start', x: CHART.left },
+                { value: middle, anchor: 'middle', x: chartX(series, middle) },
+                { value: series.end, anchor: 'end', x: CHART.width - CHART.right }
+            ].map((label) => '<text class="axis-label" x="' + label.x.toFixed(1) + '" y="' + (CHART.height - 6) + '" text-anchor="' + label.anchor + '">' + escapeHtml(formatChartTime(label.value, series.range)) + '</text>').join('');
+            const marker = (className, timestamp, label) => {
+                const x = chartX(series, timestamp).toFixed(1);
+                return '<line class="marker ' + className + '" x1="' + x + '" x2="' + x + '" y1="' + CHART.top + '" y2="' + plotBottom + '"><title>'
+                    + escapeHtml(formatTimestamp(timestamp) + ' · ' + label) + '</title></line>';
+            };
+            const markers = series.alerts.filter(inRange).map((alert) => marker('alert ' + alert.severity, alert.timestamp, alert.label))
+                .concat(series.events.filter(inRange).map((event) => marker(event.type, event.timestamp, event.type === 'enabled' ? 'Enabled' : 'Disabled')))
+                .join('');
+
+            return [
+                '<svg class="chart" data-metric="' + metric + '" viewBox="0 0 ' + CHART.width + ' ' + CHART.height + '" role="img" aria-label="' + (metric === 'cpu' ? 'CPU' : 'Memory') + ' history">',
+                grid,
+                timeLabels,
+                markers,
+                '<path class="peak ' + metric + '" d="' + buildPath(series, metric + 'Peak', y) + '"></path>',
+                '<path class="line ' + metric + '" d="' + buildPath(series, metric, y) + '"></path>',
+                '<line class="cursor" x1="0" x2="0" y1="' + CHART.top + '" y2="' + plotBottom + '"></line>',
+                '</svg>'
+            ].join('');
+        };
+
+        const describeMarkersNear = (series, timestamp) => {
+            const near = (item) => Math.abs(item.timestamp - timestamp) <= series.step;
+            return series.alerts.filter(near).map((alert) => alert.label)
+                .concat(series.events.filter(near).map((event) => event.type === 'enabled' ? 'Enabled' : 'Disabled'));
+        };
+
+        const attachChartHover = (svg) => {
+            const cursor = svg.querySelector('.cursor');
+            const readout = svg.parentElement.querySelector('.readout');
+            const metric = svg.dataset.metric;
+
+            svg.addEventListener('mousemove', (event) => {
+                const series = state.series;
+                if (!series || !series.points.length) {
+                    return;
+                }
+
+                const rect = svg.getBoundingClientRect();
+                const x = ((event.clientX - rect.left) / rect.width) * CHART.width;
+                const plotWidth = CHART.width - CHART.left - CHART.right;
+                const time = series.start + ((x - CHART.left) / plotWidth) * (series.end - series.start);
+                const nearest = series.points.reduce((best, point) => Math.abs(point.timestamp - time) < Math.abs(best.timestamp - time) ? point : best);
+                const pointX = chartX(series, nearest.timestamp).toFixed(1);
+
+                cursor.setAttribute('x1', pointX);
+                cursor.setAttribute('x2', pointX);
+                cursor.style.visibility = 'visible';
+
+                const value = metric === 'cpu'
+                    ? 'CPU ' + formatNumber(nearest.cpu) + '% (peak ' + formatNumber(nearest.cpuPeak) + '%)'
+                    : 'Memory ' + formatNumber(nearest.memory, 0) + ' MB (peak ' + formatNumber(nearest.memoryPeak, 0) + ' MB)';
+                readout.textContent = [new Date(nearest.timestamp).toLocaleString(), value]
+                    .concat(describeMarkersNear(series, nearest.timestamp))
+                    .join(' · ');
+            });
+
+            svg.addEventListener('mouseleave', () => {
+                cursor.style.visibility = 'hidden';
+                readout.textContent = '';
+            });
+        };
+
+        const renderDetail = () => {
+            const pane = document.getElementById('detail-pane');
+            if (!pane) {
+                return;
+            }
+
+            const series = state.series;
+            const rangeButtons = RANGES.map((range) => '<button type="button" class="action' + (range.value === state.range ? ' active' : '') + '" data-action="range" data-range="' + range.value + '" data-id="' + escapeHtml(state.expanded) + '">' + range.label + '</button>').join('');
+            let body;
+            if (!series) {
+                body = '<div class="readout">Loading history…</div>';
+            } else if (!series.points.length) {
+                body = '<div class="readout">No history recorded in this range.</div>';
+            } else {
+                body = [
+                    '<div class="charts">',
+                    '<div><div class="chart-title">CPU</div>' + renderChart(series, 'cpu') + '<div class="readout"></div></div>',
+                    '<div><div class="chart-title">Memory</div>' + renderChart(series, 'memory') + '<div class="readout"></div></div>',
+                    '</div>',
+                    '<div class="chart-legend">',
+                    '<span><span class="swatch"></span>Average</span>',
+                    '<span><span class="swatch peak"></span>Peak</span>',
+                    '<span><span class="swatch alert"></span>Alert (' + series.alerts.length + ')</span>',
+                    '<span><span class="swatch enabled"></span>Enabled</span>',
+                    '<span><span class="swatch disabled"></span>Disabled</span>',
+                    '</div>'
+                ].join('');
+            }
+
+            pane.innerHTML = '<div class="range-group">' + rangeButtons + '</div>' + body;
+            pane.querySelectorAll('svg.chart').forEach(attachChartHover);
+        };
+
+        const requestSeries = () => {
+            if (state.expanded) {
+                vscode.postMessage({ type: 'requestSeries', id: state.expanded, range: state.range });
+            }
+        };
+
+        const isFocused = (band) => !!state.focus && state.focus.ids.join(',') === band.ids.join(',');
+
+        const renderStackedChart = (overview, metric) => {
+            const bands = overview[metric];
+            const unit = metric === 'cpu' ? '%' : ' MB';
+            const digits = metric === 'cpu' ? 1 : 0;
+            const totals = overview.timestamps.map((_, index) => bands.reduce((sum, band) => sum + band.values[index], 0));
+            const maxValue = Math.max(metric === 'cpu' ? 5 : 10, ...totals) * 1.1;
+            const plotBottom = CHART.height - CHART.bottom;
+            const plotHeight = plotBottom - CHART.top;
+            const y = (value) => plotBottom - (value / maxValue) * plotHeight;
+            const x = (index) => chartX(overview, overview.timestamps[index]).toFixed(1);
+
+            const grid = [0, 0.5, 1].map((fraction) => {
+                const value = maxValue * fraction;
+                return '<line class="grid" x1="' + CHART.left + '" x2="' + (CHART.width - CHART.right) + '" y1="' + y(value).toFixed(1) + '" y2="' + y(value).toFixed(1) + '"></line>'
+                    + '<text class="axis-label" x="' + (CHART.left - 6) + '" y="' + (y(value) + 3).toFixed(1) + '" text-anchor="end">' + formatNumber(value, digits) + unit + '</text>';
+            }).join('');
+            const middle = (overview.start + overview.end) / 2;
+            const timeLabels = [
+                { value: overview.start, anchor: 'start', x: CHART.left },
+                { value: middle, anchor: 'middle', x: chartX(overview, middle) },
+                { value: overview.end, anchor: 'end', x: CHART.width - CHART.right }
+            ].map((label) => '<text class="axis-label" x="' + label.x.toFixed(1) + '" y="' + (CHART.height - 6) + '" text-anchor="' + label.anchor + '">' + escapeHtml(formatChartTime(label.value, '1h')) + '</text>').join('');
+
+            // Each band is the area between the running total before and after adding it
+            let lower = overview.timestamps.map(() => 0);
+            const areas = bands.map((band, bandIndex) => {
+                const upper = lower.map((value, index) => value + band.values[index]);
+                const top = upper.map((value, index) => (index === 0 ? 'M' : 'L') + x(index) + ' ' + y(value).toFixed(1));
+                const bottom = lower.map((value, index) => 'L' + x(index) + ' ' + y(value).toFixed(1)).reverse();
+                lower = upper;
+                const className = 'band band-' + (band.other ? 'other' : bandIndex)
+                    + (state.focus ? (isFocused(band) ? ' selected' : ' dimmed') : '');
+                return '<path class="' + className + '" data-band="' + bandIndex + '" d="' + top.concat(bottom).join(' ') + ' Z"><title>' + escapeHtml(band.label) + '</title></path>';
+            }).join('');
+
+            return [
+                '<svg class="chart" data-metric="' + metric + '" viewBox="0 0 ' + CHART.width + ' ' + CHART.height + '" role="img" aria-label="' + (metric === 'cpu' ? 'CPU' : 'Memory') + ' by extension">',
+                grid,
+                timeLabels,
+                areas,
+                '<line class="cursor" x1="0" x2="0" y1="' + CHART.top + '" y2="' + plotBottom + '"></line>',
+                '</svg>'
+            ].join('');
+        };
+
+        const attachOverviewHover = (svg) => {
+            const cursor = svg.querySelector('.cursor');
+            const readout = svg.parentElement.querySelector('.readout');
+            const metric = svg.dataset.metric;
+
+            svg.addEventListener('mousemove', (event) => {
+                const overview = state.overview;
+                if (!overview || !overview.timestamps.length) {
+                    return;
+                }
+
+                const rect = svg.getBoundingClientRect();
+                const x = ((event.clientX - rect.left) / rect.width) * CHART.width;
+                const plotWidth = CHART.width - CHART.left - CHART.right;
+                const time = overview.start + ((x - CHART.left) / plotWidth) * (overview.end - overview.start);
+                let nearest = 0;
+                overview.timestamps.forEach((timestamp, index) => {
+                    if (Math.abs(timestamp - time) < Math.abs(overview.timestamps[nearest] - time)) {
+                        nearest = index;
+                    }
+                });
+                const pointX = chartX(overview, overview.timestamps[nearest]).toFixed(1);
+
+                cursor.setAttribute('x1', pointX);
+                cursor.setAttribute('x2', pointX);
+                cursor.style.visibility = 'visible';
+
+                const unit = metric === 'cpu' ? '%' : ' MB';
+                const digits = metric === 'cpu' ? 1 : 0;
+                readout.textContent = [formatTimestamp(overview.timestamps[nearest])]
+                    .concat(overview[metric]
+                        .filter((band) => band.values[nearest] > 0)
+                        .map((band) => band.label + ' ' + formatNumber(band.values[nearest], digits) + unit))
+                    .join(' · ');
+            });
+
+            svg.addEventListener('mouseleave', () => {
+                cursor.style.visibility = 'hidden';
+                readout.textContent = '';
+            });
+        };
+
+        const renderOverview = () => {
+            const overview = state.overview;
+            if (!overview || !overview.timestamps.length) {
+                overviewEl.hidden = true;
+                return;
+            }
+
+            overviewEl.hidden = false;
+            overviewChartsEl.innerHTML = ['cpu', 'memory'].map((metric) => {
+                const legend = overview[metric].map((band, index) => '<span><span class="legend-box band-' + (band.other ? 'other' : index) + '"></span>'
+                    + escapeHtml(band.other ? band.label + ' (' + band.ids.length + ')' : band.label) + '</span>').join('');
+                return [
+                    '<div>',
+                    '<div class="chart-title">' + (metric === 'cpu' ? 'CPU' : 'Memory') + '</div>',
+                    renderStackedChart(overview, metric),
+                    '<div class="readout"></div>',
+                    '<div class="chart-legend">' + legend + '</div>',
+                    '</div>'
+                ].join('');
+            }).join('');
+            overviewChartsEl.querySelectorAll('svg.chart').forEach(attachOverviewHover);
+        };
+
+        const renderFocus = () => {
+            focusEl.hidden = !state.focus;
+            focusEl.innerHTML = state.focus
+                ? 'Showing <strong>' + escapeHtml(state.focus.label) + '</strong> from the overview <button type="button" class="action" id="focus-clear">Clear</button>'
+                : '';
+        };
+
+        const setFocus = (focus) => {
+            state.focus = focus;
+            renderFocus();
+            renderOverview();
+            renderRows();
+        };
+
+        const renderCpuProfile = (profile) => {
+            if (!profile || !profile.extensions.length) {
+                cpuProfileEl.hidden = true;
+                return;
+            }
+
+            cpuProfileEl.hidden = false;
+            cpuProfileLabel.textContent = 'Captured ' + formatTimestamp(profile.capturedAt) + ' · ' + formatNumber(profile.sampledTime / 1000) + 's sampled';
+            const header = [
+                '                <div class="head">Extension</div>',
+                '                <div class="head numeric">Self time</div>',
+                '                <div class="head numeric">Self %</div>',
+                '                <div class="head numeric">Total time</div>',
+                '                <div class="head numeric">Total %</div>'
+            ].join('');
+            cpuProfileRowsEl.innerHTML = header + profile.extensions.map((entry) => [
+                '                <div title="' + escapeHtml(entry.extensionId) + '">' + escapeHtml(entry.displayName) + '</div>',
+                '                <div class="numeric">' + formatNumber(entry.selfTime, 0) + ' ms</div>',
+                '                <div class="numeric">' + formatNumber(entry.selfPercent) + '%</div>',
+                '                <div class="numeric">' + formatNumber(entry.totalTime, 0) + ' ms</div>',
+                '                <div class="numeric">' + formatNumber(entry.totalPercent) + '%</div>'
+            ].join('')).join('');
+        };
+
+        const renderHeapSnapshot = (snapshot) => {
+            if (!snapshot) {
+                heapSnapshotEl.hidden = true;
+                return;
+            }
+
+            heapSnapshotEl.hidden = false;
+            heapSnapshotLabel.textContent = 'Captured ' + formatTimestamp(snapshot.capturedAt) + ' · '
+                + formatNumber(snapshot.attributedSize) + ' of ' + formatNumber(snapshot.totalSize) + ' MB attributed';
+            const header = [
+                '                <div class="head">Extension</div>',
+                '                <div class="head numeric">Retained</div>',
+                '                <div class="head numeric">Of heap</div>',
+                '                <div class="head numeric">Objects</div>'
+            ].join('');
+            heapSnapshotRowsEl.innerHTML = header + snapshot.extensions.map((entry) => [
+                '                <div title="' + escapeHtml(entry.extensionId) + '">' + escapeHtml(entry.displayName) + '</div>',
+                '                <div class="numeric">' + formatNumber(entry.retainedSize) + ' MB</div>',
+                '                <div class="numeric">' + formatNumber(snapshot.totalSize > 0 ? (entry.retainedSize / snapshot.totalSize) * 100 : 0) + '%</div>',
+                '                <div class="numeric">' + entry.objectCount + '</div>'
+            ].join('')).join('');
         };
 
         const render = () => {
             renderSummary(state.summary);
+            renderOverview();
+            renderFocus();
             renderRows();
+            renderCpuProfile(state.cpuProfile);
+            renderHeapSnapshot(state.heapSnapshot);
         };
 
         searchInput.addEventListener('input', (event) => {
@@ -712,6 +1605,25 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
             });
         });
 
+        overviewChartsEl.addEventListener('click', (event) => {
+            const target = event.target instanceof Element ? event.target : null;
+            const area = target ? target.closest('[data-band]') : null;
+            const svg = area ? area.closest('svg.chart') : null;
+            const band = svg && state.overview ? state.overview[svg.dataset.metric][Number(area.dataset.band)] : null;
+            if (!band) {
+                return;
+            }
+
+            setFocus(isFocused(band) ? null : { label: band.label, ids: band.ids });
+        });
+
+        focusEl.addEventListener('click', (event) => {
+            const target = event.target instanceof Element ? event.target : null;
+            if (target && target.closest('#focus-clear')) {
+                setFocus(null);
+            }
+        });
+
         rowsEl.addEventListener('click', (event) => {
             const target = event.target instanceof Element ? event.target : null;
             const button = target ? target.closest('button[data-action]') : null;
@@ -727,6 +1639,22 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
                 return;
             }
 
+            if (action === 'history') {
+                state.expanded = state.expanded === id ? null : id;
+                state.series = null;
+                requestSeries();
+                renderRows();
+                return;
+            }
+
+            if (action === 'range') {
+                state.range = button.dataset.range || state.range;
+                state.series = null;
+                requestSeries();
+                renderDetail();
+                return;
+            }
+
             vscode.postMessage({
                 type: action === 'disable' ? 'disableExtension' : 'enableExtension',
                 id,
@@ -734,17 +1662,69 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
             });
         });
 
+        memoryMetricButtons.forEach((button) => {
+            button.addEventListener('click', () => {
+                if (button.dataset.memoryMetric !== state.memoryMetric) {
+                    vscode.postMessage({ type: 'setMemoryMetric', metric: button.dataset.memoryMetric });
+                }
+            });
+        });
+
+        const renderMemoryMetric = () => {
+            memoryMetricEl.hidden = !state.memoryMetric;
+            memoryMetricButtons.forEach((button) => {
+                button.classList.toggle('active', button.dataset.memoryMetric === state.memoryMetric);
+            });
+        };
+
         document.getElementById('refresh-btn').addEventListener('click', () => {
             vscode.postMessage({ type: 'refresh' });
         });
 
+        document.getElementById('profile-btn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'captureCpuProfile' });
+        });
+
+        document.getElementById('heap-btn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'captureHeapSnapshot' });
+        });
+
+        const renderSnapshot = () => {
+            const snapshot = state.snapshot;
+            snapshotEl.hidden = !snapshot;
+            liveButtons.forEach((button) => {
+                button.hidden = Boolean(snapshot);
+            });
+            if (!snapshot) {
+                return;
+            }
+            const platform = [snapshot.platform, snapshot.arch].filter(Boolean).join('/');
+            snapshotEl.textContent = ['Imported snapshot', snapshot.fileName, 'Generated ' + new Date(snapshot.generatedAt).toLocaleString()]
+                .concat(snapshot.host ? [snapshot.host] : [])
+                .concat(platform ? [platform] : [])
+                .concat(['VS Code ' + snapshot.vscodeVersion, 'Monitor ' + snapshot.extensionVersion])
+                .join(' · ');
+        };
+
         window.addEventListener('message', (event) => {
             const message = event.data;
             if (message?.type === 'metrics') {
                 state.rows = message.rows || [];
                 state.summary = message.summary || null;
-                updatedLabel.textContent = 'Updated: ' + formatTimestamp(message.generatedAt);
+                state.cpuProfile = message.cpuProfile || null;
+                state.heapSnapshot = message.heapSnapshot || null;
+                state.overview = message.overview || null;
+                state.snapshot = message.snapshot || null;
+                state.memoryMetric = message.memoryMetric || null;
+                updatedLabel.textContent = (state.snapshot ? 'Exported: ' : 'Updated: ') + formatTimestamp(message.generatedAt);
+                renderSnapshot();
+                renderMemoryMetric();
                 render();
+                requestSeries();
+            }
+            if (message?.type === 'series' && message.id === state.expanded && message.range === state.range) {
+                state.series = message;
+                renderDetail();
             }
         });
     </script>
@@ -752,9 +1732,9 @@ export function getExtensionResourcesHtml(webview: vscode.Webview): string {
 </html>`;
 }
 
-function buildResourceRow(metric: ExtensionMetrics, performanceMonitor: PerformanceMonitor): ExtensionResourceRow {
-    const history = performanceMonitor.getExtensionHistory(metric.id);
-    const subprocessStats = performanceMonitor.getSubprocessStats(metric.id);
+function buildResourceRow(metric: ExtensionMetrics, source: ResourcesDataSource): ExtensionResourceRow {
+    const history = source.getExtensionHistory(metric.id);
+    const subprocessStats = source.getSubprocessStats(metric.id);
     const processes = subprocessStats?.processes ?? [];
     const topProcesses = [...processes]
         .sort((a, b) => b.cpu - a.cpu)
@@ -763,6 +1743,7 @@ function buildResourceRow(metric: ExtensionMetrics, performanceMonitor: Performa
             pid: process.pid,
             cpu: process.cpu,
             memory: process.memory,
+            memoryMetric: process.memoryMetric ?? 'rss',
             command: process.command
         }));
 
@@ -771,9 +1752,12 @@ function buildResourceRow(metric: ExtensionMetrics, performanceMonitor: Performa
         displayName: metric.displayName,
         version: metric.version,
         isActive: metric.isActive,
+        isBuiltin: metric.isBuiltin ?? false,
         cpuUsage: metric.cpuUsage,
         memoryUsage: metric.memoryUsage,
         activationTime: metric.activationTime,
+        activatedAt: metric.activatedAt,
+        activationEvent: metric.activationEvent,
         averageCpu: history?.averages.cpu ?? metric.cpuUsage,
         averageMemory: history?.averages.memory ?? metric.memoryUsage,
         peakCpu: history?.peaks.cpu.value ?? metric.cpuUsage,
@@ -784,6 +1768,9 @@ function buildResourceRow(metric: ExtensionMetrics, performanceMonitor: Performa
         processCpuUsage: metric.processCpuUsage ?? 0,
         processMemoryUsage: metric.processMemoryUsage ?? 0,
         subprocessCount: metric.subprocessCount ?? 0,
+        metricSource: metric.metricSource ?? 'estimated',
+        confidence: metric.confidence ?? 0,
+        memoryTrend: metric.memoryTrend,
         topProcesses
     };
 }
@@ -1,7 +1,18 @@
 import * as vscode from 'vscode';
 import { PerformanceMonitor } from '../services/performanceMonitor';
 import { disableExtension, enableExtension } from '../services/extensionEnablement';
-import { buildExtensionResourcesPayload, getExtensionResourcesHtml } from './extensionResourcesContent';
+import { ImportedReport } from '../services/reportImporter';
+import { COMMANDS } from '../constants';
+import {
+    buildExtensionResourcesPayload,
+    buildExtensionSeriesPayload,
+    getExtensionResourcesHtml,
+    HistoryRange,
+    isHistoryRange,
+    isMemoryMetric,
+    ResourcesDataSource,
+    SnapshotInfo
+} from './extensionResourcesContent';
 
 export class ExtensionResourcesPanel {
     static readonly viewType = 'extensionResources';
@@ -9,10 +20,19 @@ export class ExtensionResourcesPanel {
 
     private readonly panel: vscode.WebviewPanel;
     private readonly disposables: vscode.Disposable[] = [];
-
-    private constructor(panel: vscode.WebviewPanel, private readonly performanceMonitor: PerformanceMonitor) {
+    private readonly source: ResourcesDataSource;
+
+    /**
+     * @param imported - Shows this report read-only instead of live data
+     */
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly performanceMonitor: PerformanceMonitor | undefined,
+        private readonly imported?: ImportedReport
+    ) {
         this.panel = panel;
-        this.panel.iconPath = new vscode.ThemeIcon('graph');
+        this.panel.iconPath = new vscode.ThemeIcon(imported ? 'file' : 'graph');
+        this.source = imported ?? performanceMonitor!;
 
         this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
 
@@ -20,9 +40,33 @@ export class ExtensionResourcesPanel {
 
         this.panel.webview.onDidReceiveMessage(
             async (message) => {
+                if (message?.type === 'requestSeries') {
+                    if (typeof message.id === 'string' && isHistoryRange(message.range)) {
+                        this.postSeries(message.id, message.range);
+                    }
+                }
+                if (this.imported) {
+                    // Imported reports are read-only
+                    return;
+                }
                 if (message?.type === 'refresh') {
                     await this.refreshMetrics();
                 }
+                if (message?.type === 'setMemoryMetric' && isMemoryMetric(message.metric)) {
+                    await this.performanceMonitor!.setMemoryMetric(message.metric);
+                    // While monitoring, the setting change itself triggers a new sample
+                    if (this.performanceMonitor!.isMonitoring()) {
+                        this.postMetrics();
+                    } else {
+                        await this.refreshMetrics();
+                    }
+                }
+                if (message?.type === 'captureCpuProfile') {
+                    await vscode.commands.executeCommand(COMMANDS.CAPTURE_CPU_PROFILE);
+                }
+                if (message?.type === 'captureHeapSnapshot') {
+                    await vscode.commands.executeCommand(COMMANDS.CAPTURE_HEAP_SNAPSHOT);
+                }
                 if (message?.type === 'disableExtension') {
                     if (typeof message.id !== 'string') {
                         vscode.window.showErrorMessage('Select an extension to disable.');
@@ -44,11 +88,19 @@ export class ExtensionResourcesPanel {
             this.disposables
         );
 
-        this.disposables.push(
-            this.performanceMonitor.onDidUpdateMetrics(() => {
-                this.postMetrics();
-            })
-        );
+        if (performanceMonitor && !imported) {
+            this.disposables.push(
+                performanceMonitor.onDidUpdateMetrics(() => {
+                    this.postMetrics();
+                }),
+                performanceMonitor.onDidCaptureCpuProfile(() => {
+                    this.postMetrics();
+                }),
+                performanceMonitor.onDidCaptureHeapSnapshot(() => {
+                    this.postMetrics();
+                })
+            );
+        }
 
         this.postMetrics();
     }
@@ -75,12 +127,65 @@ export class ExtensionResourcesPanel {
         ExtensionResourcesPanel.currentPanel = new ExtensionResourcesPanel(panel, performanceMonitor);
     }
 
+    /**
+     * Opens an imported report in its own read-only panel
+     */
+    static showImported(imported: ImportedReport): void {
+        const panel = vscode.window.createWebviewPanel(
+            ExtensionResourcesPanel.viewType,
+            `Report: ${imported.fileName}`,
+            vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        new ExtensionResourcesPanel(panel, undefined, imported);
+    }
+
     private postMetrics(): void {
-        const payload = buildExtensionResourcesPayload(this.performanceMonitor);
+        const payload = buildExtensionResourcesPayload(
+            this.source,
+            this.now(),
+            this.getSnapshotInfo(),
+            this.imported ? undefined : this.performanceMonitor?.getMemoryMetric()
+        );
         this.panel.webview.postMessage({ type: 'metrics', ...payload });
     }
 
+    private postSeries(extensionId: string, range: HistoryRange): void {
+        const payload = buildExtensionSeriesPayload(this.source, extensionId, range, this.now());
+        this.panel.webview.postMessage({ type: 'series', ...payload });
+    }
+
+    /**
+     * Time the charts end at: the export time for imported reports
+     */
+    private now(): number {
+        return this.imported?.generatedAt ?? Date.now();
+    }
+
+    private getSnapshotInfo(): SnapshotInfo | undefined {
+        if (!this.imported) {
+            return undefined;
+        }
+        const metadata = this.imported.report.reportMetadata;
+        return {
+            fileName: this.imported.fileName,
+            generatedAt: this.imported.generatedAt,
+            vscodeVersion: metadata.vscodeVersion,
+            extensionVersion: metadata.extensionVersion,
+            host: metadata.host,
+            platform: metadata.platform,
+            arch: metadata.arch
+        };
+    }
+
     private async refreshMetrics(): Promise<void> {
+        if (!this.performanceMonitor) {
+            return;
+        }
         try {
             await this.performanceMonitor.collectMetrics();
         } catch (error) {
@@ -90,7 +195,9 @@ export class ExtensionResourcesPanel {
     }
 
     dispose(): void {
-        ExtensionResourcesPanel.currentPanel = undefined;
+        if (ExtensionResourcesPanel.currentPanel === this) {
+            ExtensionResourcesPanel.currentPanel = undefined;
+        }
 
         this.panel.dispose();
 
@@ -0,0 +1,20 @@
+import { parentPort, workerData } from 'worker_threads';
+import { analyzeHeapSnapshot } from '../services/heapSnapshotAnalysis';
+import { readHeapSnapshot } from '../services/heapSnapshotReader';
+import { ExtensionLike } from '../services/subprocessUsage';
+
+interface HeapSnapshotWorkerData {
+    snapshotPath: string;
+    extensions: ExtensionLike[];
+}
+
+async function main(): Promise<void> {
+    const { snapshotPath, extensions } = workerData as HeapSnapshotWorkerData;
+    const document = await readHeapSnapshot(snapshotPath);
+    const analysis = analyzeHeapSnapshot(document, extensions);
+    parentPort?.postMessage({ type: 'result', analysis });
+}
+
+main().catch((error) => {
+    parentPort?.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+});